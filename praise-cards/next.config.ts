@@ -3,6 +3,8 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
+  // native Skia bindings used for server-side card rendering
+  serverExternalPackages: ["@napi-rs/canvas"],
 };
 
 export default nextConfig;
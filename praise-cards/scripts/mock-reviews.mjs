@@ -0,0 +1,66 @@
+// Local mock of a reviews API for the generator's "Batch From API" import.
+//
+//   npm run mock:reviews            # http://localhost:4010/reviews
+//   PORT=5000 npm run mock:reviews
+//
+// Pages of { reviews, next } with mixed ratings and languages and a couple of
+// duplicates, so the filters and dedupe have something to do. Requests with
+// "Authorization: Bearer" must use MOCK_TOKEN when it is set.
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.PORT ?? 4010);
+const TOKEN = process.env.MOCK_TOKEN;
+const PAGE_SIZE = 4;
+
+const REVIEWS = [
+  ["Set up our whole onboarding flow in an afternoon.", "Priya N.", 5, "en"],
+  ["Support answered in minutes, on a Sunday.", "Tom B.", 5, "en"],
+  ["Solid, but the export options are limited.", "Alex K.", 3, "en"],
+  ["Crashes every time I open the settings.", "Sam R.", 1, "en"],
+  ["Einfach zu bedienen und wirklich schnell.", "Lena M.", 5, "de"],
+  ["Très pratique, toute l'équipe l'utilise.", "Hugo L.", 4, "fr"],
+  ["Set up our whole onboarding flow in an afternoon!", "Priya N.", 5, "en"],
+  ["Fast, simple and the support team is lovely.", "Maya T.", 4.5, "en"],
+  ["Good value for a small team.", "Chris D.", 4, "en"],
+  ["Support answered in minutes, on a Sunday.", "Tom B.", 5, "en"],
+].map(([body, author, rating, language], i) => ({
+  id: `r${i + 1}`,
+  body,
+  author,
+  rating,
+  language,
+  createdAt: new Date(Date.UTC(2026, 0, 5 + i * 3)).toISOString(),
+}));
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host}`);
+  const headers = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Authorization",
+    "Content-Type": "application/json",
+  };
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, headers).end();
+    return;
+  }
+  if (url.pathname !== "/reviews") {
+    res.writeHead(404, headers).end(JSON.stringify({ error: "not found" }));
+    return;
+  }
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+    res.writeHead(401, headers).end(JSON.stringify({ error: "unauthorized" }));
+    return;
+  }
+
+  const page = Math.max(1, Number(url.searchParams.get("page") ?? 1));
+  const start = (page - 1) * PAGE_SIZE;
+  const reviews = REVIEWS.slice(start, start + PAGE_SIZE);
+  const next =
+    start + PAGE_SIZE < REVIEWS.length ? `/reviews?page=${page + 1}` : null;
+  res.writeHead(200, headers).end(JSON.stringify({ reviews, next }));
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock reviews API on http://localhost:${PORT}/reviews`);
+});
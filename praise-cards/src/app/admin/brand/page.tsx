@@ -0,0 +1,9 @@
+import BrandKitEditor from "@/components/BrandKitEditor";
+
+export const metadata = {
+  title: "Brand kit · ❤️ Praise Wall",
+};
+
+export default function Page() {
+  return <BrandKitEditor />;
+}
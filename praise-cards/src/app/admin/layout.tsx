@@ -0,0 +1,10 @@
+import AdminGate from "@/components/AdminGate";
+
+// Every /admin page needs an admin signed in
+export default function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return <AdminGate>{children}</AdminGate>;
+}
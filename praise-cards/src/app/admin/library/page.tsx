@@ -0,0 +1,9 @@
+import TestimonialLibrary from "@/components/TestimonialLibrary";
+
+export const metadata = {
+  title: "Testimonial library · ❤️ Praise Wall",
+};
+
+export default function Page() {
+  return <TestimonialLibrary />;
+}
@@ -0,0 +1,9 @@
+import ModerationQueue from "@/components/ModerationQueue";
+
+export const metadata = {
+  title: "Moderation · ❤️ Praise Wall",
+};
+
+export default function Page() {
+  return <ModerationQueue />;
+}
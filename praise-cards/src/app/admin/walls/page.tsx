@@ -0,0 +1,9 @@
+import WallSettingsEditor from "@/components/WallSettingsEditor";
+
+export const metadata = {
+  title: "Walls · ❤️ Praise Wall",
+};
+
+export default function Page() {
+  return <WallSettingsEditor />;
+}
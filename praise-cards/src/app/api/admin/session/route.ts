@@ -0,0 +1,54 @@
+import {
+  checkAdminPassword,
+  isAdminEnabled,
+  isAdminRequest,
+  sessionCookie,
+} from "@/lib/auth/server";
+import { localStoreUnavailable } from "@/lib/storage/server";
+
+export const runtime = "nodejs";
+
+// Admin sign-in for the local and memory stores (Firebase uses Firebase Auth)
+
+export async function GET(request: Request) {
+  const unavailable = localStoreUnavailable();
+  if (unavailable) return unavailable;
+
+  return Response.json({ admin: isAdminRequest(request) });
+}
+
+export async function POST(request: Request) {
+  const unavailable = localStoreUnavailable();
+  if (unavailable) return unavailable;
+  if (!isAdminEnabled()) {
+    return Response.json(
+      { error: "Set ADMIN_PASSWORD to enable the admin pages" },
+      { status: 503 },
+    );
+  }
+
+  let body: { password?: unknown } | null;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  const password = body?.password;
+  if (typeof password !== "string" || !checkAdminPassword(password)) {
+    return Response.json({ error: "Wrong password" }, { status: 401 });
+  }
+  return new Response(null, {
+    status: 204,
+    headers: { "Set-Cookie": sessionCookie(true) },
+  });
+}
+
+export async function DELETE() {
+  const unavailable = localStoreUnavailable();
+  if (unavailable) return unavailable;
+
+  return new Response(null, {
+    status: 204,
+    headers: { "Set-Cookie": sessionCookie(false) },
+  });
+}
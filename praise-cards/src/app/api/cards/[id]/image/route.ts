@@ -0,0 +1,73 @@
+import { createHash } from "node:crypto";
+import { renderCardExport } from "@/lib/cards/server";
+import type { CardData } from "@/lib/cards/types";
+import {
+  clampQuality,
+  EXPORT_TYPES,
+  isServerExportType,
+} from "@/lib/export/formats";
+import { getServerCardRepository } from "@/lib/storage/server";
+import { DEFAULT_WALL, isValidWallSlug } from "@/lib/storage/walls";
+
+export const runtime = "nodejs";
+
+// GET /api/cards/:id/image?w=600&wall=<slug> -> PNG of a Praise Wall card
+// ?type=jpeg|webp (with ?q=1-100), svg or pdf. The animated Story GIF is
+// too costly to render on a public, cacheable URL: POST /api/cards/export.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const { searchParams } = new URL(request.url);
+  const w = Number(searchParams.get("w")) || undefined;
+  const wall = searchParams.get("wall") || DEFAULT_WALL;
+  if (!isValidWallSlug(wall)) {
+    return new Response("Card not found", { status: 404 });
+  }
+  const type = searchParams.get("type") || "png";
+  if (!isServerExportType(type)) {
+    return new Response("Unsupported type", { status: 400 });
+  }
+  if (type === "gif") {
+    return new Response("GIF is only available from POST /api/cards/export", {
+      status: 400,
+    });
+  }
+  const q = clampQuality(searchParams.get("q"));
+
+  let card: CardData | null;
+  try {
+    card = await getServerCardRepository().getApproved(wall, id);
+  } catch (error) {
+    console.error("Card image load error:", error);
+    return new Response("Failed to load card", { status: 502 });
+  }
+  if (!card) return new Response("Card not found", { status: 404 });
+
+  // Same record + same options => same bytes, so the record is a good ETag
+  const etag = `"${createHash("sha1")
+    .update(JSON.stringify(card))
+    .update(`${w ?? ""}|${type}|${q}`)
+    .digest("hex")}"`;
+
+  const headers = {
+    "Content-Type": EXPORT_TYPES[type].mime,
+    "Cache-Control":
+      "public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800",
+    ETag: etag,
+  };
+
+  if (request.headers.get("if-none-match") === etag) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  let body: Buffer;
+  try {
+    body = await renderCardExport(card, type, w, q);
+  } catch (error) {
+    console.error("Card image render error:", error);
+    return new Response("Failed to render card", { status: 500 });
+  }
+  return new Response(new Uint8Array(body), { headers });
+}
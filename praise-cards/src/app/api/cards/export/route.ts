@@ -0,0 +1,85 @@
+import { BG_TYPES, LAYOUTS } from "@/lib/cards/design";
+import { MAX_SIDE } from "@/lib/cards/presets";
+import { renderCardExport } from "@/lib/cards/server";
+import type { NewCardData } from "@/lib/cards/types";
+import {
+  clampQuality,
+  EXPORT_TYPES,
+  exportFileName,
+  isServerExportType,
+} from "@/lib/export/formats";
+
+export const runtime = "nodejs";
+
+// POST /api/cards/export?type=svg|pdf|gif|png|jpeg|webp&q=90
+// Body: a card record (as uploaded to a wall). Used by the generator for
+// formats the browser canvas can't produce itself.
+export async function POST(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const type = searchParams.get("type") || "png";
+  if (!isServerExportType(type)) {
+    return Response.json({ error: "Unsupported type" }, { status: 400 });
+  }
+
+  let card: NewCardData;
+  try {
+    card = (await request.json()) as NewCardData;
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  if (!isRenderable(card)) {
+    return Response.json({ error: "Invalid card" }, { status: 400 });
+  }
+
+  let body: Buffer;
+  try {
+    body = await renderCardExport(
+      { ...card, id: "export" },
+      type,
+      undefined,
+      clampQuality(searchParams.get("q")),
+    );
+  } catch (error) {
+    console.error("Card export render error:", error);
+    return Response.json({ error: "Failed to render card" }, { status: 500 });
+  }
+  return new Response(new Uint8Array(body), {
+    headers: {
+      "Content-Type": EXPORT_TYPES[type].mime,
+      "Content-Disposition": `attachment; filename="${exportFileName("quote-card", type)}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string";
+}
+
+// The fields the renderer reads without checking; anything else optional is
+// caught by the try/catch around the render
+function isRenderable(card: NewCardData | null) {
+  if (!card || typeof card !== "object") return false;
+  if (!isString(card.quote) || !isString(card.author)) return false;
+  const sides = [Number(card.width), Number(card.height)];
+  if (!sides.every((n) => Number.isFinite(n) && n >= 1 && n <= MAX_SIDE)) {
+    return false;
+  }
+  const { palette, gradient, font } = card;
+  return (
+    !!palette &&
+    isString(palette.bg) &&
+    isString(palette.text) &&
+    isString(palette.accent) &&
+    Array.isArray(gradient) &&
+    gradient.length === 2 &&
+    gradient.every(isString) &&
+    !!font &&
+    isString(font.family) &&
+    isString(font.quote) &&
+    isString(font.author) &&
+    BG_TYPES.includes(card.bgType) &&
+    LAYOUTS.includes(card.layout) &&
+    Number.isFinite(card.seed)
+  );
+}
@@ -0,0 +1,35 @@
+import { adminRequired } from "@/lib/auth/server";
+import { isValidBrandKit } from "@/lib/storage/brand";
+import {
+  getLocalRepository,
+  localStoreUnavailable,
+} from "@/lib/storage/server";
+import type { BrandKit } from "@/lib/storage/types";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  const unavailable = localStoreUnavailable();
+  if (unavailable) return unavailable;
+
+  return Response.json(await getLocalRepository().getBrandKit());
+}
+
+export async function PUT(request: Request) {
+  const unavailable = localStoreUnavailable();
+  if (unavailable) return unavailable;
+  const denied = adminRequired(request);
+  if (denied) return denied;
+
+  let kit: BrandKit;
+  try {
+    kit = (await request.json()) as BrandKit;
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  if (!isValidBrandKit(kit)) {
+    return Response.json({ error: "Invalid brand kit" }, { status: 400 });
+  }
+  await getLocalRepository().saveBrandKit(kit);
+  return new Response(null, { status: 204 });
+}
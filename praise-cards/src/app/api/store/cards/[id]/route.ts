@@ -0,0 +1,22 @@
+import {
+  getLocalRepository,
+  localStoreUnavailable,
+  wallParam,
+} from "@/lib/storage/server";
+
+export const runtime = "nodejs";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const unavailable = localStoreUnavailable();
+  if (unavailable) return unavailable;
+  const wall = wallParam(request);
+  if (!wall) return Response.json({ error: "Invalid wall" }, { status: 400 });
+
+  const { id } = await params;
+  const card = await getLocalRepository().getApproved(wall, id);
+  if (!card) return Response.json({ error: "Not found" }, { status: 404 });
+  return Response.json(card);
+}
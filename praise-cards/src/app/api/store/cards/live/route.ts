@@ -0,0 +1,26 @@
+import {
+  getLocalRepository,
+  localStoreUnavailable,
+  wallParam,
+} from "@/lib/storage/server";
+
+export const runtime = "nodejs";
+
+// GET /api/store/cards/live?wall=praise&since=<createdAt>&sinceId=<id>
+// Polled by the browser for live wall updates
+export async function GET(request: Request) {
+  const unavailable = localStoreUnavailable();
+  if (unavailable) return unavailable;
+  const wall = wallParam(request);
+  if (!wall) return Response.json({ error: "Invalid wall" }, { status: 400 });
+
+  const { searchParams } = new URL(request.url);
+  const since = searchParams.get("since");
+  const sinceId = searchParams.get("sinceId");
+
+  const cards = await getLocalRepository().listApprovedSince(
+    wall,
+    since ? { createdAt: since, id: sinceId ?? "" } : undefined,
+  );
+  return Response.json(cards);
+}
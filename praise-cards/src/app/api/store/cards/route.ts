@@ -0,0 +1,27 @@
+import {
+  getLocalRepository,
+  localStoreUnavailable,
+  wallParam,
+} from "@/lib/storage/server";
+
+export const runtime = "nodejs";
+
+// GET /api/store/cards?wall=praise&limit=15&before=<createdAt>&beforeId=<id>
+export async function GET(request: Request) {
+  const unavailable = localStoreUnavailable();
+  if (unavailable) return unavailable;
+  const wall = wallParam(request);
+  if (!wall) return Response.json({ error: "Invalid wall" }, { status: 400 });
+
+  const { searchParams } = new URL(request.url);
+  const requested = Math.trunc(Number(searchParams.get("limit"))) || 15;
+  const limit = Math.max(1, Math.min(100, requested));
+  const before = searchParams.get("before");
+  const beforeId = searchParams.get("beforeId");
+
+  const page = await getLocalRepository().listApproved(wall, {
+    limit,
+    before: before ? { createdAt: before, id: beforeId ?? "" } : undefined,
+  });
+  return Response.json(page);
+}
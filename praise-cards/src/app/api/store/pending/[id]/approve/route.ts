@@ -0,0 +1,38 @@
+import { adminRequired } from "@/lib/auth/server";
+import { moderatorEdits } from "@/lib/storage/paging";
+import {
+  getLocalRepository,
+  localStoreUnavailable,
+  wallParam,
+} from "@/lib/storage/server";
+
+export const runtime = "nodejs";
+
+// Body is the moderator's edits (quote, author, width, height); the rest of
+// the card comes from the stored upload
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const unavailable = localStoreUnavailable();
+  if (unavailable) return unavailable;
+  const denied = adminRequired(request);
+  if (denied) return denied;
+  const wall = wallParam(request);
+  if (!wall) return Response.json({ error: "Invalid wall" }, { status: 400 });
+
+  const { id } = await params;
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  const edits = moderatorEdits(body);
+  try {
+    await getLocalRepository().approve(wall, id, edits);
+  } catch {
+    return Response.json({ error: "Not found" }, { status: 404 });
+  }
+  return new Response(null, { status: 204 });
+}
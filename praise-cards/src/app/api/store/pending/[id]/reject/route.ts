@@ -0,0 +1,28 @@
+import { adminRequired } from "@/lib/auth/server";
+import {
+  getLocalRepository,
+  localStoreUnavailable,
+  wallParam,
+} from "@/lib/storage/server";
+
+export const runtime = "nodejs";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const unavailable = localStoreUnavailable();
+  if (unavailable) return unavailable;
+  const denied = adminRequired(request);
+  if (denied) return denied;
+  const wall = wallParam(request);
+  if (!wall) return Response.json({ error: "Invalid wall" }, { status: 400 });
+
+  const { id } = await params;
+  try {
+    await getLocalRepository().reject(wall, id);
+  } catch {
+    return Response.json({ error: "Not found" }, { status: 404 });
+  }
+  return new Response(null, { status: 204 });
+}
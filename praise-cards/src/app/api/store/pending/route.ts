@@ -0,0 +1,43 @@
+import { adminRequired } from "@/lib/auth/server";
+import { uploadedCard } from "@/lib/storage/paging";
+import {
+  getLocalRepository,
+  localStoreUnavailable,
+  wallParam,
+} from "@/lib/storage/server";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  const unavailable = localStoreUnavailable();
+  if (unavailable) return unavailable;
+  const denied = adminRequired(request);
+  if (denied) return denied;
+  const wall = wallParam(request);
+  if (!wall) return Response.json({ error: "Invalid wall" }, { status: 400 });
+
+  return Response.json(await getLocalRepository().listPending(wall));
+}
+
+export async function POST(request: Request) {
+  const unavailable = localStoreUnavailable();
+  if (unavailable) return unavailable;
+  const wall = wallParam(request);
+  if (!wall) return Response.json({ error: "Invalid wall" }, { status: 400 });
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  const card = uploadedCard(body);
+  if (!card) {
+    return Response.json(
+      { error: "quote, width and height are required" },
+      { status: 400 },
+    );
+  }
+  const id = await getLocalRepository().submit(wall, card);
+  return Response.json({ id }, { status: 201 });
+}
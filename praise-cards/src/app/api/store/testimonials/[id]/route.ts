@@ -0,0 +1,58 @@
+import { adminRequired } from "@/lib/auth/server";
+import { isValidTestimonial } from "@/lib/storage/library";
+import {
+  getLocalRepository,
+  localStoreUnavailable,
+} from "@/lib/storage/server";
+import type { NewTestimonial } from "@/lib/storage/types";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: Params) {
+  const unavailable = localStoreUnavailable();
+  if (unavailable) return unavailable;
+  const denied = adminRequired(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const entry = await getLocalRepository().getTestimonial(id);
+  if (!entry) return Response.json({ error: "Not found" }, { status: 404 });
+  return Response.json(entry);
+}
+
+export async function PUT(request: Request, { params }: Params) {
+  const unavailable = localStoreUnavailable();
+  if (unavailable) return unavailable;
+  const denied = adminRequired(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+  let entry: NewTestimonial;
+  try {
+    entry = (await request.json()) as NewTestimonial;
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  if (!isValidTestimonial(entry)) {
+    return Response.json({ error: "Invalid testimonial" }, { status: 400 });
+  }
+  try {
+    await getLocalRepository().saveTestimonial(id, entry);
+  } catch {
+    return Response.json({ error: "Not found" }, { status: 404 });
+  }
+  return new Response(null, { status: 204 });
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const unavailable = localStoreUnavailable();
+  if (unavailable) return unavailable;
+  const denied = adminRequired(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+  await getLocalRepository().deleteTestimonial(id);
+  return new Response(null, { status: 204 });
+}
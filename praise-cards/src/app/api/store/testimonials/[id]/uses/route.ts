@@ -0,0 +1,40 @@
+import { adminRequired } from "@/lib/auth/server";
+import {
+  getLocalRepository,
+  localStoreUnavailable,
+} from "@/lib/storage/server";
+import type { TestimonialUse } from "@/lib/storage/types";
+import { isValidWallSlug } from "@/lib/storage/walls";
+
+export const runtime = "nodejs";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const unavailable = localStoreUnavailable();
+  if (unavailable) return unavailable;
+  const denied = adminRequired(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+  let use: Partial<TestimonialUse & { cardId: string }> | null;
+  try {
+    use = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  const { cardId, wall, usedAt } = use ?? {};
+  if (!cardId || !wall || !isValidWallSlug(wall) || !usedAt) {
+    return Response.json({ error: "Invalid use" }, { status: 400 });
+  }
+  try {
+    await getLocalRepository().recordTestimonialUse(id, cardId, {
+      wall,
+      usedAt,
+    });
+  } catch {
+    return Response.json({ error: "Not found" }, { status: 404 });
+  }
+  return new Response(null, { status: 204 });
+}
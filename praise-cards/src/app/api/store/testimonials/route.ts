@@ -0,0 +1,37 @@
+import { adminRequired } from "@/lib/auth/server";
+import { isValidTestimonial } from "@/lib/storage/library";
+import {
+  getLocalRepository,
+  localStoreUnavailable,
+} from "@/lib/storage/server";
+import type { NewTestimonial } from "@/lib/storage/types";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  const unavailable = localStoreUnavailable();
+  if (unavailable) return unavailable;
+  const denied = adminRequired(request);
+  if (denied) return denied;
+
+  return Response.json(await getLocalRepository().listTestimonials());
+}
+
+export async function POST(request: Request) {
+  const unavailable = localStoreUnavailable();
+  if (unavailable) return unavailable;
+  const denied = adminRequired(request);
+  if (denied) return denied;
+
+  let entry: NewTestimonial;
+  try {
+    entry = (await request.json()) as NewTestimonial;
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  if (!isValidTestimonial(entry)) {
+    return Response.json({ error: "Invalid testimonial" }, { status: 400 });
+  }
+  const id = await getLocalRepository().addTestimonial(entry);
+  return Response.json({ id }, { status: 201 });
+}
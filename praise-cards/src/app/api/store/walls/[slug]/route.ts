@@ -0,0 +1,41 @@
+import { adminRequired } from "@/lib/auth/server";
+import {
+  getLocalRepository,
+  localStoreUnavailable,
+} from "@/lib/storage/server";
+import type { WallSettings } from "@/lib/storage/types";
+import { isValidWallSlug } from "@/lib/storage/walls";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ slug: string }> };
+
+export async function GET(_request: Request, { params }: Params) {
+  const unavailable = localStoreUnavailable();
+  if (unavailable) return unavailable;
+
+  const { slug } = await params;
+  const wall = await getLocalRepository().getWall(slug);
+  if (!wall) return Response.json({ error: "Not found" }, { status: 404 });
+  return Response.json(wall);
+}
+
+export async function PUT(request: Request, { params }: Params) {
+  const unavailable = localStoreUnavailable();
+  if (unavailable) return unavailable;
+  const denied = adminRequired(request);
+  if (denied) return denied;
+
+  const { slug } = await params;
+  let settings: WallSettings;
+  try {
+    settings = (await request.json()) as WallSettings;
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  if (!isValidWallSlug(slug) || !settings?.title?.trim()) {
+    return Response.json({ error: "Invalid wall" }, { status: 400 });
+  }
+  await getLocalRepository().saveWall({ ...settings, slug });
+  return new Response(null, { status: 204 });
+}
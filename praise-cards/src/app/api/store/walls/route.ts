@@ -0,0 +1,13 @@
+import {
+  getLocalRepository,
+  localStoreUnavailable,
+} from "@/lib/storage/server";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  const unavailable = localStoreUnavailable();
+  if (unavailable) return unavailable;
+
+  return Response.json(await getLocalRepository().listWalls());
+}
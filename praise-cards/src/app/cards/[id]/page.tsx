@@ -0,0 +1,86 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import CardPermalink from "@/components/CardPermalink";
+import { plainText } from "@/lib/cards/text";
+import { getServerCardRepository } from "@/lib/storage/server";
+import {
+  cardImagePath,
+  cardPath,
+  DEFAULT_WALL,
+  defaultWallSettings,
+  isValidWallSlug,
+} from "@/lib/storage/walls";
+
+// Preview size requested by og:image / twitter:image
+const OG_WIDTH = 1200;
+
+type Props = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ wall?: string }>;
+};
+
+// generateMetadata and the page share one fetch per request
+const loadCard = cache(async (id: string, slug: string) => {
+  if (!isValidWallSlug(slug)) return null;
+  const repo = getServerCardRepository();
+  const [card, wall] = await Promise.all([
+    repo.getApproved(slug, id),
+    repo.getWall(slug),
+  ]);
+  return card ? { card, wall: wall ?? defaultWallSettings(slug) } : null;
+});
+
+async function resolve({ params, searchParams }: Props) {
+  const { id } = await params;
+  const { wall = DEFAULT_WALL } = await searchParams;
+  return loadCard(id, wall);
+}
+
+function excerpt(text: string, max = 200) {
+  const t = text.replace(/\s+/g, " ").trim();
+  return t.length > max ? `${t.slice(0, max - 1).trimEnd()}…` : t;
+}
+
+export async function generateMetadata(props: Props): Promise<Metadata> {
+  const found = await resolve(props);
+  if (!found) return { title: "Card not found · ❤️ Praise Wall" };
+
+  const { card, wall } = found;
+  const title = card.author ? `${card.author} on ${wall.title}` : wall.title;
+  const description = `“${excerpt(plainText(card.quote))}”`;
+  const url = cardPath(card.id, wall.slug);
+  const image = {
+    url: cardImagePath(card.id, wall.slug, OG_WIDTH),
+    width: Math.min(OG_WIDTH, card.width),
+    height: Math.round(
+      (card.height * Math.min(OG_WIDTH, card.width)) / card.width,
+    ),
+    alt: description,
+  };
+
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    openGraph: {
+      type: "article",
+      title,
+      description,
+      url,
+      images: [image],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      images: [image],
+    },
+  };
+}
+
+export default async function Page(props: Props) {
+  const found = await resolve(props);
+  if (!found) notFound();
+  return <CardPermalink card={found.card} wall={found.wall} />;
+}
@@ -0,0 +1,29 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import WallKiosk from "@/components/WallKiosk";
+import { getServerCardRepository } from "@/lib/storage/server";
+import { DEFAULT_WALL, isValidWallSlug } from "@/lib/storage/walls";
+
+type Props = { searchParams: Promise<{ wall?: string }> };
+
+const loadWall = cache(async (slug: string) =>
+  isValidWallSlug(slug) ? getServerCardRepository().getWall(slug) : null,
+);
+
+export async function generateMetadata({
+  searchParams,
+}: Props): Promise<Metadata> {
+  const { wall: slug = DEFAULT_WALL } = await searchParams;
+  const wall = await loadWall(slug);
+  return {
+    title: wall ? `${wall.title} · TV` : "Wall not found · ❤️ Praise Wall",
+  };
+}
+
+export default async function Page({ searchParams }: Props) {
+  const { wall: slug = DEFAULT_WALL } = await searchParams;
+  const wall = await loadWall(slug);
+  if (!wall) notFound();
+  return <WallKiosk wall={wall} />;
+}
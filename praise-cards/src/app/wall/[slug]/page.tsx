@@ -0,0 +1,25 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import PraiseWall from "@/components/PraiseWall";
+import { getServerCardRepository } from "@/lib/storage/server";
+import { isValidWallSlug } from "@/lib/storage/walls";
+
+type Props = { params: Promise<{ slug: string }> };
+
+const loadWall = cache(async (slug: string) =>
+  isValidWallSlug(slug) ? getServerCardRepository().getWall(slug) : null,
+);
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { slug } = await params;
+  const wall = await loadWall(slug);
+  return { title: wall ? wall.title : "Wall not found · ❤️ Praise Wall" };
+}
+
+export default async function Page({ params }: Props) {
+  const { slug } = await params;
+  const wall = await loadWall(slug);
+  if (!wall) notFound();
+  return <PraiseWall wall={wall} />;
+}
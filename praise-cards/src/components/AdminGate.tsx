@@ -0,0 +1,164 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getAdminAuth, type AdminUser } from "@/lib/auth";
+
+type Status = "checking" | "signed-out" | "not-admin" | "admin";
+
+// Wraps the admin pages: nothing below renders until an admin has signed in.
+// The store enforces the same rule (database rules, or the session cookie on
+// /api/store), so this only keeps non-admins from a page of failing calls.
+export default function AdminGate({ children }: { children: React.ReactNode }) {
+  const [status, setStatus] = useState<Status>("checking");
+  const [user, setUser] = useState<AdminUser | null>(null);
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const auth = getAdminAuth();
+
+  // signed in but not an admin only happens with Firebase accounts
+  function show(admin: AdminUser | null, signedIn: boolean) {
+    setUser(admin);
+    setStatus(admin ? "admin" : signedIn ? "not-admin" : "signed-out");
+  }
+
+  useEffect(() => {
+    auth
+      .current()
+      .then((admin) => {
+        setUser(admin);
+        setStatus(admin ? "admin" : "signed-out");
+      })
+      .catch((e) => {
+        console.error("Admin session error", e);
+        setStatus("signed-out");
+      });
+  }, [auth]);
+
+  async function signIn(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      show(await auth.signIn(email.trim(), password), true);
+      setPassword("");
+    } catch (err) {
+      console.error("Admin sign-in error", err);
+      setError(
+        err instanceof Error && !auth.usesEmail
+          ? err.message
+          : "Wrong email or password",
+      );
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function signOut() {
+    await auth.signOut();
+    show(null, false);
+  }
+
+  if (status === "admin") {
+    return (
+      <>
+        {children}
+        <button className="adminSignOut" onClick={signOut}>
+          Sign out {user?.name}
+        </button>
+        <style jsx>{`
+          .adminSignOut {
+            position: fixed;
+            top: 12px;
+            right: 12px;
+            padding: 6px 12px;
+            background: rgba(255, 255, 255, 0.92);
+            border: 1px solid rgba(0, 0, 0, 0.08);
+            border-radius: 999px;
+            font-size: 12px;
+            font-weight: 700;
+            color: #6e6e73;
+            cursor: pointer;
+          }
+        `}</style>
+      </>
+    );
+  }
+
+  return (
+    <div className="adminGate">
+      <h1>Admin sign-in</h1>
+      {status === "checking" ? (
+        <p>Checking sign-in…</p>
+      ) : status === "not-admin" ? (
+        <>
+          <p>This account isn&apos;t an admin.</p>
+          <button className="btn primary" onClick={signOut}>
+            Sign out
+          </button>
+        </>
+      ) : (
+        <form onSubmit={signIn}>
+          {auth.usesEmail ? (
+            <input
+              type="email"
+              placeholder="Email"
+              autoComplete="username"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          ) : null}
+          <input
+            type="password"
+            placeholder="Password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          {error ? <p className="error">{error}</p> : null}
+          <button
+            className="btn primary"
+            type="submit"
+            disabled={busy || !password}
+          >
+            {busy ? "Signing in…" : "Sign in"}
+          </button>
+        </form>
+      )}
+
+      <style jsx>{`
+        .adminGate {
+          max-width: 360px;
+          margin: 12vh auto;
+          padding: 0 18px;
+        }
+
+        form {
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+        }
+
+        input[type="email"] {
+          width: 100%;
+          padding: 12px;
+          border: 1px solid #d2d2d7;
+          border-radius: 10px;
+          font-size: 14px;
+          font-family: inherit;
+        }
+
+        p {
+          color: #6e6e73;
+        }
+
+        .error {
+          color: #e53e3e;
+          font-size: 13px;
+          margin: 0;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,354 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { generateDesign } from "@/lib/cards/design";
+import { loadFonts } from "@/lib/cards/fonts";
+import {
+  downscaleImage,
+  loadBrowserImage,
+  loadCardImages,
+} from "@/lib/cards/images";
+import { findPreset } from "@/lib/cards/presets";
+import { measureCardSize, renderCard } from "@/lib/cards/renderer";
+import { getCardRepository, type BrandKit } from "@/lib/storage";
+import { cardBrand, emptyBrandKit, isBrandColor } from "@/lib/storage/brand";
+import { dropUndefined } from "@/lib/storage/records";
+
+// stored inline as a data URL, so keep it small
+const LOGO_MAX_SIDE = 512;
+const MAX_COLORS = 6;
+const SAMPLE_QUOTE =
+  "This is exactly what our team needed. Setup took minutes.";
+
+export default function BrandKitEditor() {
+  const [form, setForm] = useState<BrandKit>(emptyBrandKit);
+  const [busy, setBusy] = useState(false);
+  const [toast, setToast] = useState<string | null>(null);
+  // re-rolls the preview design
+  const [seed, setSeed] = useState(1);
+  const previewRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    if (!toast) return;
+    const t = window.setTimeout(() => setToast(null), 2200);
+    return () => window.clearTimeout(t);
+  }, [toast]);
+
+  useEffect(() => {
+    getCardRepository()
+      .getBrandKit()
+      .then((kit) => {
+        if (kit) setForm({ ...emptyBrandKit(), ...kit });
+      })
+      .catch((e) => {
+        console.error("getBrandKit error", e);
+        setToast("Could not load the brand kit");
+      });
+  }, []);
+
+  // Sample card with the kit applied, rendered like the generator would
+  useEffect(() => {
+    const canvas = previewRef.current;
+    if (!canvas) return;
+    let cancelled = false;
+    const brand = cardBrand({ ...form, enabled: true });
+    const design = generateDesign(seed, "balanced", form.colors);
+    Promise.all([
+      loadCardImages({ brand }, loadBrowserImage),
+      loadFonts([design.font], SAMPLE_QUOTE),
+    ]).then(([images]) => {
+      if (cancelled) return;
+      const content = {
+        quote: SAMPLE_QUOTE,
+        author: "Happy Customer",
+        design,
+        radius: 24,
+        quoteSizeMultiplier: 100,
+        authorSizeMultiplier: 100,
+        brand,
+        images,
+      };
+      const spec = findPreset("square")!;
+      renderCard(canvas, content, measureCardSize(canvas, content, spec));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [form, seed]);
+
+  const set = (patch: Partial<BrandKit>) =>
+    setForm((prev) => ({ ...prev, ...patch }));
+
+  const setColor = (i: number, color: string) =>
+    set({ colors: form.colors.map((c, j) => (j === i ? color : c)) });
+
+  async function onLogo(file: File | undefined) {
+    if (!file) return;
+    try {
+      set({ logoUrl: await downscaleImage(file, LOGO_MAX_SIDE) });
+    } catch (e) {
+      console.error("Logo error", e);
+      setToast("Could not read that image");
+    }
+  }
+
+  const valid = form.colors.every(isBrandColor);
+
+  async function save() {
+    setBusy(true);
+    try {
+      const kit = dropUndefined<BrandKit>({
+        enabled: form.enabled,
+        colors: form.colors,
+        logoUrl: form.logoUrl || undefined,
+        tagline: form.tagline?.trim() || undefined,
+        url: form.url?.trim() || undefined,
+      });
+
+      await getCardRepository().saveBrandKit(kit);
+      setToast("Brand kit saved");
+    } catch (e) {
+      console.error("saveBrandKit error", e);
+      setToast("Save failed. Check the card store config.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="brand">
+      <div className="topbar">
+        <h1>Brand kit</h1>
+        <Link href="/" className="action">
+          Open generator
+        </Link>
+      </div>
+
+      <div className="layout">
+        <div className="form">
+          <div className="toggles">
+            <input
+              id="brandEnabled"
+              type="checkbox"
+              checked={form.enabled}
+              onChange={(e) => set({ enabled: e.target.checked })}
+            />
+            <label htmlFor="brandEnabled">
+              Apply to new cards in the generator
+            </label>
+          </div>
+
+          <div className="form-group">
+            <label>Logo</label>
+            <div className="logoRow">
+              {form.logoUrl ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={form.logoUrl} alt="Logo" className="logo" />
+              ) : null}
+              <input
+                type="file"
+                accept="image/*"
+                onChange={(e) => onLogo(e.target.files?.[0])}
+              />
+              {form.logoUrl ? (
+                <button
+                  className="action"
+                  onClick={() => set({ logoUrl: undefined })}
+                >
+                  Remove
+                </button>
+              ) : null}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>Brand Colours</label>
+            <div className="colors">
+              {form.colors.map((color, i) => (
+                <div key={i} className="color">
+                  <input
+                    type="color"
+                    value={color}
+                    onChange={(e) => setColor(i, e.target.value)}
+                  />
+                  <button
+                    className="remove"
+                    aria-label="Remove colour"
+                    onClick={() =>
+                      set({ colors: form.colors.filter((_, j) => j !== i) })
+                    }
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              {form.colors.length < MAX_COLORS ? (
+                <button
+                  className="action"
+                  onClick={() => set({ colors: [...form.colors, "#ea436b"] })}
+                >
+                  Add colour
+                </button>
+              ) : null}
+            </div>
+            <div className="note">
+              Backgrounds, gradients and accents only use these. Add at least
+              one light and one dark colour so text stays readable.
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>Tagline</label>
+            <input
+              type="text"
+              value={form.tagline ?? ""}
+              placeholder="Loved by 10,000 teams"
+              onChange={(e) => set({ tagline: e.target.value })}
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Website</label>
+            <input
+              type="text"
+              value={form.url ?? ""}
+              placeholder="example.com"
+              onChange={(e) => set({ url: e.target.value })}
+            />
+          </div>
+
+          <div className="btn-row">
+            <button
+              className="btn primary"
+              disabled={busy || !valid}
+              onClick={save}
+            >
+              Save brand kit
+            </button>
+          </div>
+        </div>
+
+        <div className="preview">
+          <canvas ref={previewRef} className="canvas" />
+          <button className="action" onClick={() => setSeed((s) => s + 7)}>
+            Another design
+          </button>
+        </div>
+      </div>
+
+      {toast ? <div className="toast show">{toast}</div> : null}
+
+      <style jsx>{`
+        .brand {
+          max-width: 980px;
+          margin: 0 auto;
+          padding: 36px 18px 90px;
+        }
+
+        .topbar {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          margin-bottom: 22px;
+          padding: 0;
+        }
+
+        .layout {
+          display: grid;
+          grid-template-columns: 1fr 340px;
+          gap: 18px;
+          align-items: start;
+        }
+
+        .form {
+          display: flex;
+          flex-direction: column;
+          gap: 16px;
+          padding: 22px;
+          border-radius: 16px;
+          background: rgba(255, 255, 255, 0.95);
+          box-shadow: 0 10px 22px rgba(0, 0, 0, 0.08);
+        }
+
+        .logoRow,
+        .colors {
+          display: flex;
+          align-items: center;
+          flex-wrap: wrap;
+          gap: 10px;
+        }
+
+        .logo {
+          max-height: 48px;
+          max-width: 140px;
+          border-radius: 6px;
+          background: #f3f4f6;
+        }
+
+        .color {
+          position: relative;
+        }
+
+        .color input {
+          width: 44px;
+          height: 44px;
+          padding: 2px;
+        }
+
+        .remove {
+          position: absolute;
+          top: -6px;
+          right: -6px;
+          width: 18px;
+          height: 18px;
+          border-radius: 50%;
+          border: none;
+          background: #1d1d1f;
+          color: #fff;
+          font-size: 12px;
+          line-height: 18px;
+          cursor: pointer;
+        }
+
+        .note {
+          font-size: 12px;
+          color: #6e6e73;
+        }
+
+        .preview {
+          display: flex;
+          flex-direction: column;
+          gap: 10px;
+        }
+
+        .canvas {
+          display: block;
+          width: 100%;
+          height: auto;
+          border-radius: 12px;
+          box-shadow: 0 10px 22px rgba(0, 0, 0, 0.08);
+        }
+
+        .action,
+        .topbar :global(.action) {
+          padding: 10px 16px;
+          background: rgba(255, 255, 255, 0.92);
+          border: 1px solid rgba(0, 0, 0, 0.08);
+          border-radius: 10px;
+          font-size: 13px;
+          font-weight: 750;
+          cursor: pointer;
+          color: #1d1d1f;
+          text-decoration: none;
+        }
+
+        @media (max-width: 780px) {
+          .layout {
+            grid-template-columns: 1fr;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
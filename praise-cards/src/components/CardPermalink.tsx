@@ -0,0 +1,159 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { paintWhenReady } from "@/lib/cards/images";
+import { renderStoredCard } from "@/lib/cards/renderer";
+import type { CardData } from "@/lib/cards/types";
+import type { WallSettings } from "@/lib/storage";
+import { wallHref } from "@/lib/storage/walls";
+
+export default function CardPermalink({
+  card,
+  wall,
+}: {
+  card: CardData;
+  wall: WallSettings;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [toast, setToast] = useState<string | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    return paintWhenReady(card, (images) =>
+      renderStoredCard(canvas, card, images),
+    );
+  }, [card]);
+
+  useEffect(() => {
+    if (!toast) return;
+    const t = window.setTimeout(() => setToast(null), 2200);
+    return () => window.clearTimeout(t);
+  }, [toast]);
+
+  async function copyLink() {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setToast("Link copied");
+    } catch {
+      setToast("Use HTTPS or allow clipboard permission");
+    }
+  }
+
+  function downloadImage() {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.toBlob((blob) => {
+      if (!blob) return;
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `praise-card-${card.id}.png`;
+      a.click();
+      URL.revokeObjectURL(url);
+      setToast("Downloaded");
+    }, "image/png");
+  }
+
+  return (
+    <div className="page">
+      <Link href={wallHref(wall.slug)} className="back">
+        ← {wall.title}
+      </Link>
+
+      <div className="card" style={{ maxWidth: Math.min(card.width, 720) }}>
+        <canvas ref={canvasRef} className="canvas" />
+      </div>
+
+      <div className="actions">
+        <button className="action" onClick={copyLink}>
+          Copy link
+        </button>
+        <button className="action" onClick={downloadImage}>
+          Download image
+        </button>
+      </div>
+
+      {toast ? <div className="toast show">{toast}</div> : null}
+
+      <style jsx>{`
+        .page {
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          gap: 18px;
+          padding: 36px 18px 90px;
+          font-family:
+            -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+        }
+
+        .page :global(.back) {
+          align-self: flex-start;
+          color: #374151;
+          font-size: 13px;
+          font-weight: 700;
+          text-decoration: none;
+        }
+
+        .card {
+          width: 100%;
+          border-radius: 14px;
+          overflow: hidden;
+          box-shadow: 0 18px 36px rgba(0, 0, 0, 0.12);
+        }
+
+        .canvas {
+          display: block;
+          width: 100%;
+          height: auto;
+          background: #f3f4f6;
+        }
+
+        .actions {
+          display: flex;
+          gap: 10px;
+        }
+
+        .action {
+          padding: 10px 16px;
+          background: rgba(255, 255, 255, 0.92);
+          border: 1px solid rgba(0, 0, 0, 0.08);
+          border-radius: 10px;
+          font-size: 13px;
+          font-weight: 750;
+          cursor: pointer;
+          color: #1d1d1f;
+        }
+
+        .action:hover {
+          border-color: #ea436b;
+          color: #ea436b;
+        }
+
+        .toast {
+          position: fixed;
+          bottom: 22px;
+          left: 50%;
+          transform: translateX(-50%) translateY(16px);
+          background: rgba(17, 24, 39, 0.92);
+          color: #fff;
+          padding: 10px 14px;
+          border-radius: 999px;
+          font-size: 13px;
+          font-weight: 700;
+          opacity: 0;
+          transition:
+            opacity 0.18s ease,
+            transform 0.18s ease;
+          z-index: 1000;
+        }
+
+        .toast.show {
+          opacity: 1;
+          transform: translateX(-50%) translateY(0);
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,335 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  contentFromRecord,
+  measureCardSize,
+  renderCard,
+} from "@/lib/cards/renderer";
+import { paintWhenReady } from "@/lib/cards/images";
+import { sizeSpecOf } from "@/lib/cards/presets";
+import type { CardData, CardImages } from "@/lib/cards/types";
+import {
+  DEFAULT_WALL,
+  getCardRepository,
+  type ModeratorEdits,
+  type WallSettings,
+} from "@/lib/storage";
+
+// Re-measures with the edited text so a longer quote still fits
+function paintDraft(
+  canvas: HTMLCanvasElement,
+  draft: CardData,
+  images?: CardImages,
+) {
+  const content = contentFromRecord(draft, images);
+  const size = measureCardSize(canvas, content, sizeSpecOf(draft), {
+    w: draft.width,
+    h: null,
+  });
+  renderCard(canvas, content, size);
+  return size;
+}
+
+function PendingCard({
+  wall,
+  card,
+  onDone,
+  onToast,
+}: {
+  wall: string;
+  card: CardData;
+  onDone: (id: string) => void;
+  onToast: (msg: string) => void;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [quote, setQuote] = useState(card.quote);
+  const [author, setAuthor] = useState(card.author);
+  const [busy, setBusy] = useState(false);
+
+  const dirty = quote !== card.quote || author !== card.author;
+  const draft: CardData = { ...card, quote, author };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    return paintWhenReady(draft, (images) => paintDraft(canvas, draft, images));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [quote, author, card]);
+
+  // Text edits and the re-measured size; the store keeps everything else
+  function edits(): ModeratorEdits {
+    const canvas = canvasRef.current;
+    const size = canvas
+      ? { width: canvas.width, height: canvas.height }
+      : { width: card.width, height: card.height };
+    return { quote: quote.trim(), author: author.trim(), ...size };
+  }
+
+  async function run(action: () => Promise<void>, msg: string, done = true) {
+    setBusy(true);
+    try {
+      await action();
+      onToast(msg);
+      if (done) onDone(card.id);
+    } catch (error) {
+      console.error("Moderation error:", error);
+      onToast("Action failed. Check the card store config.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="item">
+      <div className="card">
+        <canvas ref={canvasRef} className="canvas" />
+      </div>
+
+      <div className="fields">
+        <label>Praise Message</label>
+        <textarea value={quote} onChange={(e) => setQuote(e.target.value)} />
+        <label>User Name</label>
+        <input
+          type="text"
+          value={author}
+          onChange={(e) => setAuthor(e.target.value)}
+        />
+        <div className="meta">
+          Uploaded {new Date(card.createdAt).toLocaleString()}
+        </div>
+      </div>
+
+      <div className="actions">
+        <button
+          className="action approve"
+          disabled={busy || !quote.trim()}
+          onClick={() =>
+            run(
+              () => getCardRepository().approve(wall, card.id, edits()),
+              "Approved — now on the wall",
+            )
+          }
+        >
+          Approve
+        </button>
+        <button
+          className="action"
+          disabled={busy || !dirty || !quote.trim()}
+          onClick={() =>
+            run(
+              () => getCardRepository().updatePending(wall, card.id, edits()),
+              "Edits saved",
+              false,
+            )
+          }
+        >
+          Save edits
+        </button>
+        <button
+          className="action reject"
+          disabled={busy}
+          onClick={() =>
+            run(() => getCardRepository().reject(wall, card.id), "Rejected")
+          }
+        >
+          Reject
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function ModerationQueue() {
+  const [walls, setWalls] = useState<WallSettings[]>([]);
+  const [wall, setWall] = useState(DEFAULT_WALL);
+  const [cards, setCards] = useState<CardData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [toast, setToast] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!toast) return;
+    const t = window.setTimeout(() => setToast(null), 2200);
+    return () => window.clearTimeout(t);
+  }, [toast]);
+
+  async function load(slug = wall) {
+    setLoading(true);
+    try {
+      setCards(await getCardRepository().listPending(slug));
+    } catch (e) {
+      console.error("listPending error", e);
+      setToast("Could not load the queue");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    getCardRepository()
+      .listWalls()
+      .then(setWalls)
+      .catch((e) => console.error("listWalls error", e));
+    load(DEFAULT_WALL);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return (
+    <div className="moderation">
+      <div className="topbar">
+        <h1>Moderation queue</h1>
+        <select
+          className="wallPicker"
+          value={wall}
+          onChange={(e) => {
+            setWall(e.target.value);
+            load(e.target.value);
+          }}
+        >
+          {walls.map((w) => (
+            <option key={w.slug} value={w.slug}>
+              {w.title}
+            </option>
+          ))}
+        </select>
+        <span className="count">
+          {loading ? "Loading…" : `${cards.length} pending`}
+        </span>
+        <button className="action" onClick={() => load()} disabled={loading}>
+          Refresh
+        </button>
+      </div>
+
+      {!loading && cards.length === 0 ? (
+        <div className="empty">Nothing waiting for review.</div>
+      ) : (
+        <div className="list">
+          {cards.map((card) => (
+            <PendingCard
+              key={card.id}
+              wall={wall}
+              card={card}
+              onToast={setToast}
+              onDone={(id) =>
+                setCards((prev) => prev.filter((c) => c.id !== id))
+              }
+            />
+          ))}
+        </div>
+      )}
+
+      {toast ? <div className="toast show">{toast}</div> : null}
+
+      <style jsx global>{`
+        .moderation {
+          max-width: 1100px;
+          margin: 0 auto;
+          padding: 36px 18px 90px;
+        }
+
+        .moderation .topbar {
+          display: flex;
+          align-items: center;
+          gap: 14px;
+          margin-bottom: 22px;
+        }
+
+        .moderation .wallPicker {
+          width: auto;
+          padding: 8px 10px;
+        }
+
+        .moderation .topbar .count {
+          flex: 1;
+          font-size: 13px;
+          font-weight: 700;
+          color: #6e6e73;
+        }
+
+        .moderation .empty {
+          text-align: center;
+          padding: 70px 10px;
+          color: #6b7280;
+        }
+
+        .moderation .list {
+          display: flex;
+          flex-direction: column;
+          gap: 18px;
+        }
+
+        .moderation .item {
+          display: grid;
+          grid-template-columns: minmax(240px, 360px) 1fr auto;
+          gap: 18px;
+          align-items: start;
+          padding: 16px;
+          border-radius: 16px;
+          background: rgba(255, 255, 255, 0.92);
+          box-shadow: 0 10px 22px rgba(0, 0, 0, 0.08);
+        }
+
+        .moderation .item .card {
+          border-radius: 12px;
+          overflow: hidden;
+        }
+
+        .moderation .item .canvas {
+          display: block;
+          width: 100%;
+          height: auto;
+          background: #f3f4f6;
+        }
+
+        .moderation .fields {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+
+        .moderation .meta {
+          font-size: 12px;
+          color: #6e6e73;
+        }
+
+        .moderation .actions {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+
+        .moderation .action {
+          padding: 10px 16px;
+          background: rgba(255, 255, 255, 0.92);
+          border: 1px solid rgba(0, 0, 0, 0.08);
+          border-radius: 10px;
+          font-size: 13px;
+          font-weight: 750;
+          cursor: pointer;
+          color: #1d1d1f;
+        }
+
+        .moderation .action:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+
+        .moderation .action.approve {
+          border-color: #2f855a;
+          color: #2f855a;
+        }
+
+        .moderation .action.reject {
+          border-color: #e53e3e;
+          color: #e53e3e;
+        }
+
+        @media (max-width: 780px) {
+          .moderation .item {
+            grid-template-columns: 1fr;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -1,21 +1,88 @@
 "use client";
 
 import { useEffect, useRef } from "react";
-import { database } from "@/config/firebase";
-import { push, ref } from "firebase/database";
-
-type FormatKey = "square" | "portrait" | "landscape";
-
-type Palette = { bg: string; text: string; accent: string };
-type FontPack = { quote: string; author: string };
-type Design = {
-  palette: Palette;
-  gradient: [string, string];
-  font: FontPack;
-  bgType: string;
-  layout: string;
-  seed: number;
-};
+import Link from "next/link";
+import {
+  dedupeReviews,
+  detectImporter,
+  filterReviews,
+  genericImporter,
+  quoteKey,
+  reviewLanguages,
+  type Review,
+  type ReviewImporter,
+} from "@/lib/batch/importers";
+import {
+  decodeText,
+  guessColumns,
+  parseTestimonialFile,
+  type BatchRow,
+  type TestimonialTable,
+} from "@/lib/batch/parse";
+import { fetchReviewTable } from "@/lib/batch/rest";
+import { makeDesigns } from "@/lib/cards/design";
+import { fontsReady, loadFonts } from "@/lib/cards/fonts";
+import {
+  downscaleImage,
+  loadBrowserImage,
+  loadCardImages,
+} from "@/lib/cards/images";
+import {
+  clampSide,
+  CUSTOM_PRESET,
+  DEFAULT_PRESET,
+  findPreset,
+  MAX_SIDE,
+  MIN_SIDE,
+  presetLabel,
+  SIZE_PRESETS,
+} from "@/lib/cards/presets";
+import {
+  RATING_FILTERS,
+  RATING_OPTIONS,
+  minRatingLabel,
+  ratingLabel,
+} from "@/lib/cards/rating";
+import { SOURCES, isSourceKind } from "@/lib/cards/sources";
+import {
+  animateCard,
+  FIT_MIN_SCALE,
+  measureCardSize,
+  recordFromContent,
+  renderCard,
+} from "@/lib/cards/renderer";
+import {
+  DEFAULT_QUALITY,
+  EXPORT_TYPES,
+  exportFileName,
+  isExportType,
+  isStoryType,
+  STORY_SIZE,
+  storyContent,
+  type ExportType,
+} from "@/lib/export/formats";
+import { recordWebm, webmRecorderType } from "@/lib/export/video";
+import { createZip, type ZipEntry } from "@/lib/export/zip";
+import type {
+  CardAvatar,
+  CardContent,
+  CardImages,
+  CardSource,
+  Design,
+  SizeSpec,
+  NewCardData,
+} from "@/lib/cards/types";
+import {
+  DEFAULT_WALL,
+  getCardRepository,
+  type BrandKit,
+  type NewTestimonial,
+  type Testimonial,
+  type WallSettings,
+} from "@/lib/storage";
+import { cardBrand } from "@/lib/storage/brand";
+import { parseTags, testimonialUses } from "@/lib/storage/library";
+import { dropUndefined } from "@/lib/storage/records";
 
 type CardState = {
   w: number | null;
@@ -31,92 +98,10 @@ export default function PraiseGenerator() {
 
     // Minimums, but per-card export can grow via resize drag
     const PREVIEW_SCALE = 0.28;
-
-    const FORMATS: Record<FormatKey, { minWidth: number; minHeight: number }> =
-      {
-        square: { minWidth: 1080, minHeight: 1080 },
-        portrait: { minWidth: 1080, minHeight: 1350 },
-        landscape: { minWidth: 1600, minHeight: 900 },
-      };
-
-    // richer palettes + accents
-    const PALETTES: Palette[] = [
-      { bg: "#FFF5F5", text: "#2D3748", accent: "#E53E3E" },
-      { bg: "#EBF8FF", text: "#1A365D", accent: "#2B6CB0" },
-      { bg: "#F0FFF4", text: "#1C4532", accent: "#2F855A" },
-      { bg: "#FFFAF0", text: "#5F370E", accent: "#DD6B20" },
-      { bg: "#FAF5FF", text: "#2A1F55", accent: "#6B46C1" },
-      { bg: "#FFF5F7", text: "#521B41", accent: "#B83280" },
-      { bg: "#E6FFFA", text: "#234E52", accent: "#2C7A7B" },
-      { bg: "#F7FAFC", text: "#1A202C", accent: "#4A5568" },
-      { bg: "#0B1020", text: "#E6E6EA", accent: "#7C3AED" }, // dark
-      { bg: "#0F172A", text: "#E2E8F0", accent: "#38BDF8" }, // dark
-      { bg: "#111827", text: "#F9FAFB", accent: "#F59E0B" }, // dark
-    ];
-
-    const GRADIENTS: [string, string][] = [
-      ["#667eea", "#764ba2"],
-      ["#4facfe", "#00f2fe"],
-      ["#f093fb", "#f5576c"],
-      ["#43e97b", "#38f9d7"],
-      ["#fa709a", "#fee140"],
-      ["#30cfd0", "#330867"],
-      ["#a8edea", "#fed6e3"],
-      ["#ff9a9e", "#fad0c4"],
-      ["#1f2937", "#111827"], // dark
-      ["#0ea5e9", "#22c55e"],
-    ];
-
-    const FONTS: FontPack[] = [
-      { quote: "Georgia, serif", author: "Georgia, serif" },
-      { quote: "Palatino, serif", author: "Palatino, serif" },
-      { quote: "Garamond, serif", author: "Garamond, serif" },
-      {
-        quote: "-apple-system, BlinkMacSystemFont, sans-serif",
-        author: "-apple-system, BlinkMacSystemFont, sans-serif",
-      },
-      { quote: "Trebuchet MS, sans-serif", author: "Trebuchet MS, sans-serif" },
-      { quote: "Verdana, sans-serif", author: "Verdana, sans-serif" },
-    ];
-
-    const STYLE_PACKS: Record<
-      string,
-      { bgTypes: string[]; layouts: string[] }
-    > = {
-      balanced: {
-        bgTypes: [
-          "solid",
-          "gradient",
-          "paper",
-          "noise",
-          "halftone",
-          "blobs",
-          "glass",
-          "stripes",
-        ],
-        layouts: [
-          "centered",
-          "left",
-          "split",
-          "underline",
-          "footer",
-          "corner-frame",
-          "diagonal",
-        ],
-      },
-      bold: {
-        bgTypes: ["gradient", "dark", "stripes", "blobs"],
-        layouts: ["split", "diagonal", "side-stripe", "corner-frame"],
-      },
-      minimal: {
-        bgTypes: ["solid", "paper"],
-        layouts: ["centered", "left", "underline", "footer", "bordered"],
-      },
-      playful: {
-        bgTypes: ["gradient", "halftone", "blobs", "noise", "paper"],
-        layouts: ["icon-top", "split", "diagonal", "underline"],
-      },
-    };
+    // every row gets a live canvas, so keep big files manageable
+    const MAX_BATCH_ROWS = 200;
+    // customer photos are stored inline with the record as a JPEG data URL
+    const AVATAR_SIDE = 320;
 
     // Scoped query helper (so ids don’t clash with other pages/components)
     const $ = <T extends HTMLElement>(id: string) =>
@@ -124,119 +109,60 @@ export default function PraiseGenerator() {
 
     const quoteText = $<HTMLTextAreaElement>("quoteText")!;
     const authorText = $<HTMLInputElement>("authorText")!;
-    const formatSelect = $<HTMLSelectElement>("formatSelect")!;
+    const presetSelect = $<HTMLSelectElement>("presetSelect")!;
+    const customSize = $<HTMLDivElement>("customSize")!;
+    const customWidth = $<HTMLInputElement>("customWidth")!;
+    const customHeight = $<HTMLInputElement>("customHeight")!;
     const countSelect = $<HTMLSelectElement>("countSelect")!;
     const radiusSelect = $<HTMLSelectElement>("radiusSelect")!;
     const stylePack = $<HTMLSelectElement>("stylePack")!;
+    const wallSelect = $<HTMLSelectElement>("wallSelect")!;
     const liveUpdate = $<HTMLInputElement>("liveUpdate")!;
+    const showSafeZones = $<HTMLInputElement>("showSafeZones")!;
+    const useBrand = $<HTMLInputElement>("useBrand")!;
+    const fitText = $<HTMLInputElement>("fitText")!;
+    const ratingSelect = $<HTMLSelectElement>("ratingSelect")!;
+    const sourceSelect = $<HTMLSelectElement>("sourceSelect")!;
+    const sourceDate = $<HTMLInputElement>("sourceDate")!;
+    const sourceVerified = $<HTMLInputElement>("sourceVerified")!;
+    const librarySelect = $<HTMLSelectElement>("librarySelect")!;
+    const tagsText = $<HTMLInputElement>("tagsText")!;
+    const avatarFile = $<HTMLInputElement>("avatarFile")!;
+    const avatarShape = $<HTMLSelectElement>("avatarShape")!;
+    const avatarPreview = $<HTMLImageElement>("avatarPreview")!;
+    const avatarRemove = $<HTMLButtonElement>("avatarRemove")!;
     const generateBtn = $<HTMLButtonElement>("generateBtn")!;
+    const downloadAllBtn = $<HTMLButtonElement>("downloadAllBtn")!;
     const quoteSize = $<HTMLInputElement>("quoteSize")!;
     const authorSize = $<HTMLInputElement>("authorSize")!;
     const quoteSizeVal = $<HTMLDivElement>("quoteSizeVal")!;
     const authorSizeVal = $<HTMLDivElement>("authorSizeVal")!;
+    const exportType = $<HTMLSelectElement>("exportType")!;
+    const exportQuality = $<HTMLInputElement>("exportQuality")!;
+    const exportQualityVal = $<HTMLDivElement>("exportQualityVal")!;
     const toast = $<HTMLDivElement>("toast")!;
     const infoText = $<HTMLDivElement>("infoText")!;
     const cardsGrid = $<HTMLDivElement>("cardsGrid")!;
-
-    function seededRandom(seed: number) {
-      let x = Math.sin(seed++) * 10000;
-      return x - Math.floor(x);
-    }
-
-    function pick<T>(arr: T[], seed: number) {
-      return arr[Math.floor(seededRandom(seed) * arr.length)];
-    }
-
-    function generateDesign(seed: number): Design {
-      const pack = STYLE_PACKS[stylePack.value] || STYLE_PACKS.balanced;
-      const palette = pick(PALETTES, seed++);
-      const gradient = pick(GRADIENTS, seed++);
-      const font = pick(FONTS, seed++);
-      const bgType = pick(pack.bgTypes, seed++);
-      const layout = pick(pack.layouts, seed++);
-      return { palette, gradient, font, bgType, layout, seed };
-    }
-
-    function roundedRectPath(
-      ctx: CanvasRenderingContext2D,
-      x: number,
-      y: number,
-      w: number,
-      h: number,
-      r: number,
-    ) {
-      const radius = Math.max(0, Math.min(r, Math.min(w, h) / 2));
-      ctx.beginPath();
-      ctx.moveTo(x + radius, y);
-      ctx.arcTo(x + w, y, x + w, y + h, radius);
-      ctx.arcTo(x + w, y + h, x, y + h, radius);
-      ctx.arcTo(x, y + h, x, y, radius);
-      ctx.arcTo(x, y, x + w, y, radius);
-      ctx.closePath();
-    }
-
-    function addGrain(
-      ctx: CanvasRenderingContext2D,
-      width: number,
-      height: number,
-      amount = 0.06,
-      seed = 1,
-    ) {
-      const img = ctx.getImageData(0, 0, width, height);
-      const data = img.data;
-      for (let i = 0; i < data.length; i += 4) {
-        const n = (seededRandom(seed + i) - 0.5) * 255 * amount;
-        data[i] = Math.max(0, Math.min(255, data[i] + n));
-        data[i + 1] = Math.max(0, Math.min(255, data[i + 1] + n));
-        data[i + 2] = Math.max(0, Math.min(255, data[i + 2] + n));
-      }
-      ctx.putImageData(img, 0, 0);
-    }
-
-    // Break long words and wrap nicely
-    function wrapTextSmart(
-      ctx: CanvasRenderingContext2D,
-      text: string,
-      maxWidth: number,
-    ) {
-      const tokens = text.split(/\s+/).filter(Boolean);
-      const lines: string[] = [];
-      let current = "";
-
-      const push = () => {
-        if (current) lines.push(current);
-        current = "";
-      };
-
-      for (const tok of tokens) {
-        const test = current ? current + " " + tok : tok;
-        if (ctx.measureText(test).width <= maxWidth) {
-          current = test;
-          continue;
-        }
-        if (current) push();
-
-        if (ctx.measureText(tok).width <= maxWidth) {
-          current = tok;
-          continue;
-        }
-
-        // tok too long: split
-        let chunk = "";
-        for (const ch of tok) {
-          const t = chunk + ch;
-          if (ctx.measureText(t).width <= maxWidth) {
-            chunk = t;
-          } else {
-            if (chunk) lines.push(chunk);
-            chunk = ch;
-          }
-        }
-        if (chunk) current = chunk;
-      }
-      push();
-      return lines;
-    }
+    const leftPanel = rootRef.current.querySelector(
+      ".left-panel",
+    ) as HTMLDivElement;
+    const batchFile = $<HTMLInputElement>("batchFile")!;
+    const batchPick = $<HTMLButtonElement>("batchPick")!;
+    const batchOptions = $<HTMLDivElement>("batchOptions")!;
+    const batchColumns = $<HTMLDivElement>("batchColumns")!;
+    const batchQuoteCol = $<HTMLSelectElement>("batchQuoteCol")!;
+    const batchAuthorCol = $<HTMLSelectElement>("batchAuthorCol")!;
+    const batchMinRating = $<HTMLSelectElement>("batchMinRating")!;
+    const batchLanguageGroup = $<HTMLDivElement>("batchLanguageGroup")!;
+    const batchLanguage = $<HTMLSelectElement>("batchLanguage")!;
+    const batchKeywords = $<HTMLInputElement>("batchKeywords")!;
+    const importUrl = $<HTMLInputElement>("importUrl")!;
+    const importToken = $<HTMLInputElement>("importToken")!;
+    const importFetchBtn = $<HTMLButtonElement>("importFetchBtn")!;
+    const batchInfo = $<HTMLDivElement>("batchInfo")!;
+    const batchUploadBtn = $<HTMLButtonElement>("batchUploadBtn")!;
+    const batchClearBtn = $<HTMLButtonElement>("batchClearBtn")!;
+    const batchSaveBtn = $<HTMLButtonElement>("batchSaveBtn")!;
 
     function showToast(msg: string) {
       toast.textContent = msg;
@@ -267,182 +193,124 @@ export default function PraiseGenerator() {
       }
     }
 
-    function downloadImage(canvas: HTMLCanvasElement, index: number) {
-      canvas.toBlob((blob) => {
-        if (!blob) return;
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement("a");
-        a.href = url;
-        a.download = `quote-card-${index + 1}.png`;
-        a.click();
-        URL.revokeObjectURL(url);
-        showToast("Downloaded");
-      }, "image/png");
+    // WebM falls back to the server-made GIF where it can't be recorded
+    function selectedExportType(): ExportType {
+      const type = isExportType(exportType.value) ? exportType.value : "png";
+      return type === "webm" && !webmRecorderType() ? "gif" : type;
     }
 
-    async function uploadToWall(canvas: HTMLCanvasElement, index: number) {
-      try {
-        const quote = quoteText.value;
-        const author = authorText.value;
-
-        if (!quote.trim()) {
-          showToast("Please enter a quote");
-          return;
-        }
-
-        const design = designsCache[index];
-
-        const cardData = {
-          // text
-          quote: quote.trim(),
-          author: author.trim(),
-
-          // exact export size (so wall can scale consistently)
-          width: canvas.width,
-          height: canvas.height,
-
-          // full design details (to re-render later)
-          palette: design.palette,
-          gradient: design.gradient,
-          font: design.font,
-          bgType: design.bgType,
-          layout: design.layout,
-          seed: design.seed,
+    // Raster types come straight off the canvas, WebM is recorded from an
+    // animated Story-sized copy, and the rest are rendered server-side from
+    // the same record that would be uploaded
+    async function exportBlob(
+      canvas: HTMLCanvasElement,
+      index: number,
+    ): Promise<Blob | null> {
+      const type = selectedExportType();
+      const { mime, via, lossy } = EXPORT_TYPES[type];
+
+      if (via === "recorder") {
+        const video = document.createElement("canvas");
+        const anim = animateCard(
+          video,
+          document.createElement("canvas"),
+          storyContent(currentContent(index)),
+          STORY_SIZE,
+        );
+        return anim ? recordWebm(video, anim) : null;
+      }
 
-          // generator controls that affect rendering
-          format: formatSelect.value,
-          radius: radiusSelect.value,
-          quoteSizeMultiplier: Number(quoteSize.value),
-          authorSizeMultiplier: Number(authorSize.value),
+      if (via === "canvas") {
+        return new Promise<Blob | null>((resolve) =>
+          canvas.toBlob(
+            resolve,
+            mime,
+            lossy ? Number(exportQuality.value) / 100 : undefined,
+          ),
+        );
+      }
 
-          createdAt: new Date().toISOString(),
-        };
+      const res = await fetch(`/api/cards/export?type=${type}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(buildCardData(canvas, index)),
+      });
+      if (!res.ok) throw new Error(`Export failed: ${res.status}`);
+      return res.blob();
+    }
 
-        const wallRef = ref(database, "praiseWall");
-        await push(wallRef, cardData);
+    function saveBlob(blob: Blob, fileName: string) {
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = fileName;
+      a.click();
+      URL.revokeObjectURL(url);
+    }
 
-        showToast("✨ Uploaded to Praise Wall!");
+    async function downloadImage(canvas: HTMLCanvasElement, index: number) {
+      try {
+        if (isStoryType(selectedExportType())) showToast("Rendering Story…");
+        const blob = await exportBlob(canvas, index);
+        if (!blob) return;
+        saveBlob(
+          blob,
+          exportFileName(`quote-card-${index + 1}`, selectedExportType()),
+        );
+        showToast("Downloaded");
       } catch (error) {
-        console.error("Upload error:", error);
-        showToast("Upload failed. Check Firebase config.");
+        console.error("Export error:", error);
+        showToast("Export failed");
       }
     }
 
-    function getQuoteMul() {
-      return Number(quoteSize.value) / 100;
-    }
-    function getAuthorMul() {
-      return Number(authorSize.value) / 100;
+    function buildCardData(
+      canvas: HTMLCanvasElement,
+      index: number,
+    ): NewCardData {
+      return recordFromContent(currentContent(index), canvas, {
+        preset: presetSelect.value,
+        testimonialId: cardTestimonialId(index),
+        tags: parseTags(tagsText.value),
+        createdAt: new Date().toISOString(),
+      });
     }
 
-    function updateRangeLabels() {
-      quoteSizeVal.textContent = `${quoteSize.value}%`;
-      authorSizeVal.textContent = `${authorSize.value}%`;
+    function wallTitle(slug: string) {
+      return walls.find((w) => w.slug === slug)?.title ?? slug;
     }
 
-    // More “fun” details: subtle doodles
-    function drawDoodles(
-      ctx: CanvasRenderingContext2D,
-      width: number,
-      height: number,
-      color: string,
-      seed: number,
-    ) {
-      ctx.save();
-      ctx.globalAlpha = 0.12; // a bit subtle
-      ctx.strokeStyle = color;
-      ctx.fillStyle = color;
-      ctx.lineJoin = "round";
-      ctx.lineCap = "round";
-
-      // How many doodles (keep small + clean)
-      const n = 10; //+ Math.floor(seededRandom(seed) * 1);
-
-      const drawTinyHeart = (x: number, y: number, size: number, s: number) => {
-        ctx.save();
-        ctx.translate(x, y);
-        ctx.rotate((seededRandom(s) - 0.5) * 0.8);
-
-        const r = size * 0.45;
-        ctx.beginPath();
-        ctx.moveTo(0, r);
-        ctx.bezierCurveTo(-size, -r, -size, -size, 0, -size * 0.25);
-        ctx.bezierCurveTo(size, -size, size, -r, 0, r);
-        ctx.closePath();
-
-        ctx.globalAlpha *= 0.9;
-        ctx.fill();
-        ctx.globalAlpha *= 1.05;
-        ctx.lineWidth = Math.max(1.2, size * 0.12);
-        ctx.stroke();
-
-        ctx.restore();
-      };
-
-      const drawTinyStar = (x: number, y: number, size: number, s: number) => {
-        ctx.save();
-        ctx.translate(x, y);
-        ctx.rotate(seededRandom(s) * Math.PI * 2);
-
-        const spikes = 5;
-        const outer = size;
-        const inner = size * 0.45;
-
-        ctx.beginPath();
-        for (let i = 0; i < spikes * 2; i++) {
-          const rad = i % 2 === 0 ? outer : inner;
-          const wob = 1 + (seededRandom(s + i * 7) - 0.5) * 0.18; // hand-drawn wobble
-          const angle = (Math.PI * i) / spikes - Math.PI / 2;
-          const px = Math.cos(angle) * rad * wob;
-          const py = Math.sin(angle) * rad * wob;
-          if (i === 0) ctx.moveTo(px, py);
-          else ctx.lineTo(px, py);
+    async function uploadToWall(canvas: HTMLCanvasElement, index: number) {
+      try {
+        if (!cardText(index).quote.trim()) {
+          showToast("Please enter a quote");
+          return;
         }
-        ctx.closePath();
-
-        ctx.globalAlpha *= 0.85;
-        ctx.fill();
-        ctx.globalAlpha *= 1.1;
-        ctx.lineWidth = Math.max(1.2, size * 0.12);
-        ctx.stroke();
-
-        ctx.restore();
-      };
-
-      for (let i = 0; i < n; i++) {
-        const x = seededRandom(seed + i * 11) * width;
-        const y = seededRandom(seed + i * 11 + 1) * height;
 
-        // tiny sizes
-        const size = 7 + seededRandom(seed + i * 11 + 2) * 12;
-
-        // keep center cleaner
-        const cx = width / 2,
-          cy = height / 2;
-        if (Math.hypot(x - cx, y - cy) < Math.min(width, height) * 0.26)
-          continue;
-
-        // random pick: 0 = heart, 1 = star
-        const kind = Math.floor(seededRandom(seed + i * 19) * 2);
+        // lands in the moderation queue, not straight on the wall
+        const wall = wallSelect.value || DEFAULT_WALL;
+        const id = await getCardRepository().submit(
+          wall,
+          buildCardData(canvas, index),
+        );
+        await recordUse(index, id, wall);
+        loadLibrary();
 
-        if (kind === 0) drawTinyHeart(x, y, size, seed + i * 101);
-        else drawTinyStar(x, y, size * 0.9, seed + i * 101);
+        showToast(`✨ Sent to ${wallTitle(wall)} for review`);
+      } catch (error) {
+        console.error("Upload error:", error);
+        showToast("Upload failed. Check the card store config.");
       }
-
-      ctx.restore();
     }
 
-    function computeSafeStartY(
-      contentY: number,
-      blockH: number,
-      safeTop: number,
-      safeBottom: number,
-    ) {
-      let y = contentY - blockH / 2;
-      if (y < safeTop) y = safeTop;
-      if (y + blockH > safeBottom) y = safeBottom - blockH;
-      if (y < safeTop) y = safeTop;
-      return y;
+    function updateRangeLabels() {
+      quoteSizeVal.textContent = `${quoteSize.value}%`;
+      authorSizeVal.textContent = `${authorSize.value}%`;
+
+      // quality only means something for JPEG/WebP
+      const lossy = EXPORT_TYPES[selectedExportType()].lossy;
+      exportQuality.disabled = !lossy;
+      exportQualityVal.textContent = lossy ? `${exportQuality.value}%` : "—";
     }
 
     // --- State ---
@@ -452,411 +320,189 @@ export default function PraiseGenerator() {
       wrapper: HTMLDivElement;
       canvas: HTMLCanvasElement;
       pill: HTMLDivElement;
+      zone: HTMLDivElement;
+      cleanupResize: () => void;
     }> = [];
 
-    function makeDesigns(count: number) {
-      const baseSeed = Date.now();
-      const designs: Design[] = [];
-      const used = new Set<string>();
+    // --- brand kit ---
+    let brandKit: BrandKit | null = null;
+    let brandImages: CardImages = {};
 
-      for (let i = 0; i < count; i++) {
-        let d: Design;
-        let tries = 0;
-        let hash = "";
-        do {
-          const seed = baseSeed + i * 1000 + tries * 111;
-          d = generateDesign(seed);
-          hash = `${d.bgType}-${d.layout}-${PALETTES.indexOf(d.palette)}-${
-            d.font.quote
-          }`;
-          tries++;
-        } while (used.has(hash) && tries < 60);
-        used.add(hash);
-        designs.push(d);
-      }
-      return designs;
-    }
+    // --- customer photo (single card only: batch rows are different people) ---
+    let avatarUrl: string | null = null;
+    let avatarImages: CardImages = {};
 
-    function hexToRgb(hex: string) {
-      const h = hex.replace("#", "").trim();
-      const full =
-        h.length === 3
-          ? h
-              .split("")
-              .map((c) => c + c)
-              .join("")
-          : h;
-      const n = parseInt(full, 16);
-      return { r: (n >> 16) & 255, g: (n >> 8) & 255, b: n & 255 };
+    function currentAvatar(): CardAvatar | undefined {
+      if (!avatarUrl || batchTable) return undefined;
+      const shape = avatarShape.value === "rounded" ? "rounded" : "circle";
+      return { url: avatarUrl, shape };
     }
 
-    function relLuma({ r, g, b }: { r: number; g: number; b: number }) {
-      // sRGB relative luminance
-      const srgb = [r, g, b].map((v) => {
-        v /= 255;
-        return v <= 0.03928 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
-      });
-      return 0.2126 * srgb[0] + 0.7152 * srgb[1] + 0.0722 * srgb[2];
+    async function setAvatar(file: File) {
+      try {
+        const url = await downscaleImage(file, AVATAR_SIDE, {
+          square: true,
+          type: "image/jpeg",
+        });
+        const image = await loadBrowserImage(url);
+        if (disposed) return;
+        avatarUrl = url;
+        avatarImages = { [url]: image };
+        avatarPreview.src = url;
+        avatarPreview.hidden = false;
+        avatarRemove.hidden = false;
+        renderAll({ newDesigns: false });
+      } catch (e) {
+        console.error("Avatar error", e);
+        showToast("Could not read that image");
+      }
     }
 
-    function mixRgb(
-      a: { r: number; g: number; b: number },
-      b: { r: number; g: number; b: number },
-      t: number,
-    ) {
-      return {
-        r: Math.round(a.r + (b.r - a.r) * t),
-        g: Math.round(a.g + (b.g - a.g) * t),
-        b: Math.round(a.b + (b.b - a.b) * t),
-      };
+    function clearAvatar() {
+      avatarUrl = null;
+      avatarImages = {};
+      avatarFile.value = "";
+      avatarPreview.removeAttribute("src");
+      avatarPreview.hidden = true;
+      avatarRemove.hidden = true;
+      renderAll({ newDesigns: false });
     }
 
-    function sampleAverageRgb(
-      ctx: CanvasRenderingContext2D,
-      x: number,
-      y: number,
-      w: number,
-      h: number,
-    ) {
-      const img = ctx.getImageData(
-        Math.max(0, Math.floor(x)),
-        Math.max(0, Math.floor(y)),
-        Math.max(1, Math.floor(w)),
-        Math.max(1, Math.floor(h)),
-      ).data;
-
-      let r = 0,
-        g = 0,
-        b = 0,
-        c = 0;
-      // sample every Nth pixel for speed
-      const step = 16;
-      for (let i = 0; i < img.length; i += 4 * step) {
-        r += img[i];
-        g += img[i + 1];
-        b += img[i + 2];
-        c++;
-      }
-      return { r: r / c, g: g / c, b: b / c };
+    function activeBrandKit() {
+      return useBrand.checked ? brandKit : null;
     }
 
-    // Returns best text + author colors for current drawn background
-    function chooseTextColors(
-      ctx: CanvasRenderingContext2D,
-      width: number,
-      height: number,
-      palette: Palette,
-    ) {
-      const sx = width * 0.22;
-      const sy = height * 0.3;
-      const sw = width * 0.56;
-      const sh = height * 0.4;
-
-      const avg = sampleAverageRgb(ctx, sx, sy, sw, sh);
-      const L = relLuma(avg);
-
-      const isLightBg = L > 0.55;
-
-      // Quote color
-      const quoteColor = isLightBg ? "#111827" : "#FFFFFF";
-
-      // Default author color = accent
-      let authorColor: string = palette.accent;
+    // designs only use brand colours while the kit is applied
+    function designsFor(count: number) {
+      const colors = activeBrandKit()?.colors ?? [];
+      return makeDesigns(count, stylePack.value, undefined, colors);
+    }
 
-      // --- FIX FOR DARK CARDS ---
-      if (!isLightBg) {
-        // Dark background: force author to be readable
-        authorColor = "rgba(255,255,255,0.85)";
-      } else {
-        // Light background: ensure accent has enough contrast
-        const acc = hexToRgb(palette.accent);
-        const quoteRgb = hexToRgb(quoteColor);
-
-        const accL = relLuma(acc);
-        const quoteL = relLuma(quoteRgb);
-        const contrast =
-          (Math.max(accL, quoteL) + 0.05) / (Math.min(accL, quoteL) + 0.05);
-
-        if (contrast < 2.2) {
-          const mixed = mixRgb(acc, quoteRgb, 0.55);
-          authorColor = `rgb(${mixed.r}, ${mixed.g}, ${mixed.b})`;
-        }
-      }
+    // --- batch (one card per file row) ---
+    let batchTable: TestimonialTable | null = null;
+    // null when the file isn't a known review export (pick columns instead)
+    let batchImporter: ReviewImporter | null = null;
+    let batchRows: BatchRow[] = [];
 
-      return { quoteColor, authorColor };
+    function cardText(index: number): BatchRow {
+      if (batchTable) return batchRows[index] ?? { quote: "", author: "" };
+      return { quote: quoteText.value, author: authorText.value };
     }
 
-    function renderCard(
-      canvas: HTMLCanvasElement,
-      quote: string,
-      author: string,
-      design: Design,
-      format: FormatKey,
-      radius: string,
-      sizeOverride?: CardState | null,
-    ) {
-      const base = FORMATS[format];
-
-      // export size (minimum + override)
-      let width = Math.max(base.minWidth, sizeOverride?.w ?? base.minWidth);
-      let height = Math.max(base.minHeight, sizeOverride?.h ?? base.minHeight);
-
-      const quoteMul = getQuoteMul();
-      const authorMul = getAuthorMul();
-
-      // measure needed height for full text (auto-grow)
-      const m = document.createElement("canvas");
-      m.width = width;
-      m.height = 10;
-      const ctxM = m.getContext("2d")!;
-
-      const padding = width * 0.1;
-      const maxWidth = width - padding * 2;
-
-      const qSize = Math.floor(width * 0.05 * quoteMul);
-      const qLine = qSize * 1.38;
-
-      ctxM.font = `${qSize}px ${design.font.quote}`;
-      const lines = wrapTextSmart(ctxM, quote, maxWidth);
-
-      const aSize = author.trim() ? Math.floor(width * 0.034 * authorMul) : 0;
-      const aGap = author.trim() ? aSize * 0.6 : 0;
-      const blockH =
-        lines.length * qLine + aGap + (author.trim() ? aSize * 1.6 : 0);
-
-      const needed = Math.ceil(blockH + padding * 2.6);
-
-      // IMPORTANT: if user is resizing smaller and we are clamped,
-      // do not keep increasing due to text calculation beyond current height cap.
-      // We only auto-grow when needed exceeds current height.
-      height = Math.max(height, needed);
-
-      canvas.width = width;
-      canvas.height = height;
-
-      const ctx = canvas.getContext("2d")!;
-      const { palette, gradient, font, bgType, layout, seed } = design;
-
-      // clip
-      ctx.save();
-      roundedRectPath(ctx, 0, 0, width, height, Number(radius));
-      ctx.clip();
-
-      // --- Background ---
-      const isDark = bgType === "dark";
-      if (bgType === "gradient" || bgType === "glass") {
-        const grd = ctx.createLinearGradient(0, 0, width, height);
-        grd.addColorStop(0, gradient[0]);
-        grd.addColorStop(1, gradient[1]);
-        ctx.fillStyle = grd;
-        ctx.fillRect(0, 0, width, height);
-        if (bgType === "glass") {
-          ctx.fillStyle = "rgba(255,255,255,0.16)";
-          ctx.fillRect(0, 0, width, height);
-        }
-      } else if (bgType === "dark") {
-        ctx.fillStyle = palette.bg;
-        ctx.fillRect(0, 0, width, height);
-        ctx.fillStyle = "rgba(255,255,255,0.04)";
-        ctx.fillRect(0, 0, width, height);
-      } else if (bgType === "paper") {
-        ctx.fillStyle = "#ffffff";
-        ctx.fillRect(0, 0, width, height);
-        ctx.globalAlpha = 0.06;
-        ctx.fillStyle = palette.accent;
-        for (let i = 0; i < 90; i++) {
-          const x = seededRandom(seed + i) * width;
-          const y = seededRandom(seed + i + 100) * height;
-          ctx.fillRect(x, y, 2, 2);
-        }
-        ctx.globalAlpha = 1;
-      } else if (bgType === "noise") {
-        ctx.fillStyle = palette.bg;
-        ctx.fillRect(0, 0, width, height);
-        addGrain(ctx, width, height, 0.08, seed);
-      } else if (bgType === "stripes") {
-        ctx.fillStyle = palette.bg;
-        ctx.fillRect(0, 0, width, height);
-        ctx.strokeStyle = "rgba(0,0,0,0.05)";
-        ctx.lineWidth = 14;
-        for (let i = -height; i < width + height; i += 60) {
-          ctx.beginPath();
-          ctx.moveTo(i, 0);
-          ctx.lineTo(i + height, height);
-          ctx.stroke();
-        }
-      } else if (bgType === "halftone") {
-        ctx.fillStyle = palette.bg;
-        ctx.fillRect(0, 0, width, height);
-        ctx.fillStyle = "rgba(0,0,0,0.05)";
-        const step = 26;
-        for (let y = 0; y < height; y += step) {
-          for (let x = 0; x < width; x += step) {
-            const r = 2 + seededRandom(seed + x * 7 + y * 11) * 3;
-            ctx.beginPath();
-            ctx.arc(x, y, r, 0, Math.PI * 2);
-            ctx.fill();
-          }
-        }
-      } else if (bgType === "blobs") {
-        ctx.fillStyle = palette.bg;
-        ctx.fillRect(0, 0, width, height);
-        ctx.globalAlpha = 0.22;
-        ctx.fillStyle = palette.accent;
-        for (let i = 0; i < 3; i++) {
-          const x = seededRandom(seed + i * 10) * width;
-          const y = seededRandom(seed + i * 10 + 1) * height;
-          const r = 120 + seededRandom(seed + i * 10 + 2) * 260;
-          ctx.beginPath();
-          ctx.arc(x, y, r, 0, Math.PI * 2);
-          ctx.fill();
-        }
-        ctx.globalAlpha = 1;
-      } else {
-        ctx.fillStyle = palette.bg;
-        ctx.fillRect(0, 0, width, height);
-      }
+    // imported reviews bring their own rating and source; the pickers fill gaps
+    function cardRating(index: number) {
+      return cardText(index).rating ?? currentRating();
+    }
 
-      // doodles (except minimal pack)
-      const pack = stylePack.value;
-      if (pack !== "minimal") {
-        const doodleColor = isDark ? "rgba(255,255,255,1)" : palette.accent;
-        drawDoodles(ctx, width, height, doodleColor, seed + 999);
-      }
+    function cardSource(index: number) {
+      return cardText(index).source ?? currentSource();
+    }
 
-      // --- Layout elements ---
-      let contentY = height * 0.52;
-      let contentX = width * 0.5;
-      let align: CanvasTextAlign = "center";
-      let innerMax = width - padding * 2;
-
-      if (layout === "left") {
-        align = "left";
-        contentX = padding;
-        contentY = height * 0.46;
-      } else if (layout === "icon-top") {
-        contentY = height * 0.56;
-        ctx.globalAlpha = 0.25;
-        ctx.fillStyle = palette.accent;
-        ctx.beginPath();
-        ctx.arc(width * 0.5, height * 0.22, 54, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.globalAlpha = 1;
-      } else if (layout === "bordered") {
-        ctx.strokeStyle = palette.accent;
-        ctx.lineWidth = 7;
-        ctx.strokeRect(
-          padding / 2,
-          padding / 2,
-          width - padding,
-          height - padding,
-        );
-        innerMax = width - padding * 3;
-      } else if (layout === "split") {
-        ctx.globalAlpha = 0.18;
-        ctx.fillStyle = palette.accent;
-        if (height >= width) {
-          ctx.fillRect(0, 0, width, height * 0.32);
-          contentY = height * 0.58;
-        } else {
-          ctx.fillRect(0, 0, width * 0.32, height);
-          align = "left";
-          contentX = width * 0.38;
-          innerMax = width * 0.55;
-        }
-        ctx.globalAlpha = 1;
-      } else if (layout === "underline") {
-        ctx.globalAlpha = 0.22;
-        ctx.fillStyle = palette.accent;
-        ctx.fillRect(padding, height * 0.72, width - padding * 2, 10);
-        ctx.globalAlpha = 1;
-      } else if (layout === "footer") {
-        ctx.globalAlpha = 0.18;
-        ctx.fillStyle = palette.accent;
-        ctx.fillRect(0, height * 0.82, width, height * 0.18);
-        ctx.globalAlpha = 1;
-        contentY = height * 0.48;
-      } else if (layout === "corner-frame") {
-        ctx.strokeStyle = palette.accent;
-        ctx.lineWidth = 8;
-        const s = padding * 0.9;
-        ctx.beginPath();
-        ctx.moveTo(padding * 0.6, padding * 0.6 + s);
-        ctx.lineTo(padding * 0.6, padding * 0.6);
-        ctx.lineTo(padding * 0.6 + s, padding * 0.6);
-        ctx.moveTo(width - padding * 0.6 - s, padding * 0.6);
-        ctx.lineTo(width - padding * 0.6, padding * 0.6);
-        ctx.lineTo(width - padding * 0.6, padding * 0.6 + s);
-        ctx.moveTo(padding * 0.6, height - padding * 0.6 - s);
-        ctx.lineTo(padding * 0.6, height - padding * 0.6);
-        ctx.lineTo(padding * 0.6 + s, height - padding * 0.6);
-        ctx.moveTo(width - padding * 0.6 - s, height - padding * 0.6);
-        ctx.lineTo(width - padding * 0.6, height - padding * 0.6);
-        ctx.lineTo(width - padding * 0.6, height - padding * 0.6 - s);
-        ctx.stroke();
-        innerMax = width - padding * 2.4;
-      } else if (layout === "diagonal") {
-        ctx.globalAlpha = 0.18;
-        ctx.fillStyle = palette.accent;
-        ctx.beginPath();
-        ctx.moveTo(0, 0);
-        ctx.lineTo(width, 0);
-        ctx.lineTo(width, height * 0.45);
-        ctx.closePath();
-        ctx.fill();
-        ctx.globalAlpha = 1;
-        contentY = height * 0.58;
-      }
+    function cardTestimonialId(index: number) {
+      return batchTable ? batchRows[index]?.testimonialId : libraryEntry?.id;
+    }
 
-      const { quoteColor, authorColor } = chooseTextColors(
-        ctx,
-        width,
-        height,
-        palette,
-      );
+    function cardCount() {
+      return batchTable ? batchRows.length : Number(countSelect.value);
+    }
 
-      // --- Text render ---
-      ctx.textAlign = align;
-      ctx.textBaseline = "top";
+    function currentContent(index: number): CardContent {
+      const design = designsCache[index];
+      return {
+        ...cardText(index),
+        design,
+        radius: radiusSelect.value,
+        stylePack: stylePack.value,
+        quoteSizeMultiplier: Number(quoteSize.value),
+        authorSizeMultiplier: Number(authorSize.value),
+        safeZone: currentSafeZone(),
+        fitText: fitText.checked,
+        rating: cardRating(index),
+        avatar: currentAvatar(),
+        source: cardSource(index),
+        brand: cardBrand(activeBrandKit()),
+        images: { ...brandImages, ...avatarImages },
+      };
+    }
 
-      ctx.font = `${qSize}px ${font.quote}`;
-      ctx.fillStyle = quoteColor;
+    // undefined for "No rating"
+    function currentRating() {
+      return ratingSelect.value === "" ? undefined : Number(ratingSelect.value);
+    }
 
-      const safeTop = padding * 0.9;
-      const safeBottom = height - padding * 0.9;
+    // date and verified only mean something with a source picked
+    function updateSourceInputs() {
+      const none = !sourceSelect.value;
+      sourceDate.disabled = none;
+      sourceVerified.disabled = none;
+    }
 
-      const textLines = wrapTextSmart(ctx, quote, innerMax);
-      const quoteH = textLines.length * qLine;
+    // undefined for "None"; date and verified only when set
+    function currentSource(): CardSource | undefined {
+      const kind = sourceSelect.value;
+      if (!isSourceKind(kind)) return undefined;
+      return dropUndefined<CardSource>({
+        kind,
+        date: sourceDate.value || undefined,
+        verified: sourceVerified.checked || undefined,
+      });
+    }
 
-      const aBlock = author.trim() ? aSize * 1.6 : 0;
-      const totalH = quoteH + aGap + aBlock;
+    function currentSafeZone() {
+      return findPreset(presetSelect.value)?.safeZone;
+    }
 
-      let y = computeSafeStartY(contentY, totalH, safeTop, safeBottom);
-      const x = align === "left" ? contentX : width / 2;
+    // Shades what the platform UI covers (shown via the "Safe zones" toggle)
+    function placeSafeZone(el: HTMLDivElement, canvas: HTMLCanvasElement) {
+      const zone = currentSafeZone();
+      el.hidden = !zone;
+      if (!zone) return;
+      el.style.top = `${(zone.top / canvas.height) * 100}%`;
+      el.style.right = `${(zone.right / canvas.width) * 100}%`;
+      el.style.bottom = `${(zone.bottom / canvas.height) * 100}%`;
+      el.style.left = `${(zone.left / canvas.width) * 100}%`;
+    }
 
-      for (const line of textLines) {
-        ctx.fillText(line, x, y);
-        y += qLine;
+    // Custom sizes are exact, like the platform presets
+    function currentSizeSpec(): SizeSpec {
+      if (presetSelect.value === CUSTOM_PRESET) {
+        return {
+          width: clampSide(customWidth.value, 1080),
+          height: clampSide(customHeight.value, 1080),
+          fixed: true,
+        };
       }
+      return findPreset(presetSelect.value) ?? findPreset(DEFAULT_PRESET)!;
+    }
 
-      if (author.trim()) {
-        y += aGap;
-        ctx.font = `800 ${aSize}px ${font.author}`;
-        ctx.fillStyle = authorColor;
-        ctx.fillText(author, x, y);
-      }
+    function paintCard(
+      canvas: HTMLCanvasElement,
+      index: number,
+      spec: SizeSpec,
+      sizeOverride?: CardState | null,
+    ) {
+      const content = currentContent(index);
+      const size = measureCardSize(canvas, content, spec, sizeOverride);
+      return renderCard(canvas, content, size);
+    }
 
-      ctx.restore();
+    // Size pill, flagged when the text overflows the card
+    function updatePill(
+      pill: HTMLDivElement,
+      canvas: HTMLCanvasElement,
+      fits: boolean,
+    ) {
+      const size = `${canvas.width}×${canvas.height}`;
+      pill.textContent = fits ? size : `${size} · text too long`;
+      pill.classList.toggle("warn", !fits);
     }
 
     function attachResize(
       handle: HTMLDivElement,
       canvas: HTMLCanvasElement,
       index: number,
-      wrapperEl: HTMLDivElement,
     ) {
-      let startX = 0,
-        startY = 0;
+      let startX = 0;
       let startW = 0,
         startH = 0;
       let scale = 1;
@@ -870,8 +516,7 @@ export default function PraiseGenerator() {
 
         const dx = (e.clientX - startX) * scale;
 
-        const format = formatSelect.value as FormatKey;
-        const base = FORMATS[format];
+        const base = currentSizeSpec();
 
         const rightPanel = rootRef.current!.querySelector(
           ".right-panel",
@@ -882,8 +527,8 @@ export default function PraiseGenerator() {
 
         const maxExportW = Math.floor(maxPreview / PREVIEW_SCALE);
 
-        let newW = Math.max(base.minWidth, Math.round(startW + dx));
-        let newH = startH; // Keep height fixed, only width changes
+        let newW = Math.max(base.width, Math.round(startW + dx));
+        const newH = startH; // Keep height fixed, only width changes
 
         // cap export width so preview doesn’t go infinite / text doesn’t keep growing visually
         newW = Math.min(newW, maxExportW);
@@ -922,7 +567,6 @@ export default function PraiseGenerator() {
 
         dragging = true;
         startX = e.clientX;
-        startY = e.clientY;
 
         startW = canvas.width;
         startH = canvas.height;
@@ -963,9 +607,26 @@ export default function PraiseGenerator() {
       pill.className = "size-pill";
       pill.textContent = "—";
 
+      const zone = document.createElement("div");
+      zone.className = "safe-zone";
+
+      // picks a subset for "Download All"
+      const select = document.createElement("input");
+      select.type = "checkbox";
+      select.className = "card-select";
+      select.title = "Include in Download All";
+      select.checked = selected.has(index);
+      select.onchange = () => {
+        if (select.checked) selected.add(index);
+        else selected.delete(index);
+        updateDownloadAllLabel();
+      };
+
       container.appendChild(canvas);
+      container.appendChild(zone);
       container.appendChild(handle);
       container.appendChild(pill);
+      container.appendChild(select);
       wrapper.appendChild(container);
 
       const actions = document.createElement("div");
@@ -991,32 +652,34 @@ export default function PraiseGenerator() {
       actions.appendChild(uploadBtn);
       wrapper.appendChild(actions);
 
-      const cleanupResize = attachResize(handle, canvas, index, wrapper);
+      const cleanupResize = attachResize(handle, canvas, index);
 
-      return { wrapper, canvas, pill, cleanupResize };
+      return { wrapper, canvas, pill, zone, cleanupResize };
     }
 
     function renderAll({
       newDesigns = false,
       rerenderOnlyIndex = null,
+      fontsLoaded = false,
     }: {
       newDesigns?: boolean;
       rerenderOnlyIndex?: number | null;
+      // set on the repaint after waiting for fonts, so a font that fails
+      // to load can't loop
+      fontsLoaded?: boolean;
     } = {}) {
       const quote = quoteText.value;
-      const author = authorText.value;
-      const format = formatSelect.value as FormatKey;
-      const radius = radiusSelect.value;
-      const count = Number(countSelect.value);
+      const spec = currentSizeSpec();
+      const count = cardCount();
 
-      if (!quote.trim()) {
+      if (!batchTable && !quote.trim()) {
         showToast("Please enter a quote");
         return;
       }
 
       // designs
       if (newDesigns || designsCache.length !== count) {
-        designsCache = makeDesigns(count);
+        designsCache = designsFor(count);
         cardState = Array.from({ length: count }, () => ({
           w: null,
           h: null,
@@ -1024,7 +687,26 @@ export default function PraiseGenerator() {
         }));
       }
 
-      infoText.textContent = `Format min ${FORMATS[format].minWidth}×${FORMATS[format].minHeight}. Drag bottom-right handle to resize export.`;
+      // canvases don't repaint when a font arrives, so wait for them first
+      const fonts = designsCache.map((d) => d.font);
+      const text = Array.from({ length: count }, (_, i) => {
+        const { quote, author } = cardText(i);
+        return `${quote} ${author}`;
+      }).join(" ");
+      if (!fontsLoaded && !fontsReady(fonts, text)) {
+        loadFonts(fonts, text).then(() => {
+          if (!disposed) {
+            renderAll({ rerenderOnlyIndex, fontsLoaded: true });
+          }
+        });
+        return;
+      }
+
+      // fixed sizes can't be dragged
+      cardsGrid.classList.toggle("fixed-size", spec.fixed);
+      infoText.textContent = spec.fixed
+        ? `Exactly ${spec.width}×${spec.height}.`
+        : `Format min ${spec.width}×${spec.height}. Drag bottom-right handle to resize export.`;
 
       // --- RERENDER ONLY ONE CARD ---
       if (rerenderOnlyIndex !== null) {
@@ -1033,17 +715,14 @@ export default function PraiseGenerator() {
 
         const st = cardState[rerenderOnlyIndex];
 
-        renderCard(
+        const { textFits } = paintCard(
           item.canvas,
-          quote,
-          author,
-          designsCache[rerenderOnlyIndex],
-          format,
-          radius,
+          rerenderOnlyIndex,
+          spec,
           st,
         );
-
-        item.pill.textContent = `${item.canvas.width}×${item.canvas.height}`;
+        updatePill(item.pill, item.canvas, textFits);
+        placeSafeZone(item.zone, item.canvas);
 
         // Apply preview width (persisted)
         if (st?.previewW) {
@@ -1060,32 +739,20 @@ export default function PraiseGenerator() {
       }
 
       // --- FULL REBUILD ---
-      cardsGrid.innerHTML = "";
-      // cleanup old resize listeners
-      for (const c of domCards as any[]) {
-        try {
-          c.cleanupResize?.();
-        } catch {}
-      }
-      domCards = [];
+      clearCards();
+      let overflowing = 0;
 
       for (let i = 0; i < count; i++) {
         const card = buildCard(i);
         cardsGrid.appendChild(card.wrapper);
-        domCards.push(card as any);
+        domCards.push(card);
 
         const st = cardState[i];
 
-        renderCard(
-          card.canvas,
-          quote,
-          author,
-          designsCache[i],
-          format,
-          radius,
-          st,
-        );
-        card.pill.textContent = `${card.canvas.width}×${card.canvas.height}`;
+        const { textFits } = paintCard(card.canvas, i, spec, st);
+        updatePill(card.pill, card.canvas, textFits);
+        if (!textFits) overflowing++;
+        placeSafeZone(card.zone, card.canvas);
 
         // Apply preview width (persisted)
         if (st?.previewW) {
@@ -1099,6 +766,12 @@ export default function PraiseGenerator() {
         }
       }
 
+      if (overflowing) {
+        infoText.textContent += fitText.checked
+          ? ` ${overflowing} card(s) don't fit even at the minimum type size (${FIT_MIN_SCALE * 100}%), so their quotes are cut short. Shorten the text or pick a bigger size.`
+          : ` ${overflowing} card(s) overflow. Turn on "Fixed size, fit text" or pick a bigger size.`;
+      }
+
       showToast(newDesigns ? "Generated new styles" : "Updated");
     }
 
@@ -1108,41 +781,604 @@ export default function PraiseGenerator() {
       }
     }
 
+    // --- walls ---
+    let walls: WallSettings[] = [];
+    let disposed = false;
+
+    function loadWalls() {
+      getCardRepository()
+        .listWalls()
+        .then((list) => {
+          if (disposed) return;
+          walls = list;
+          const current = wallSelect.value;
+          wallSelect.innerHTML = "";
+          for (const w of list) {
+            const opt = document.createElement("option");
+            opt.value = w.slug;
+            opt.textContent = w.title;
+            wallSelect.appendChild(opt);
+          }
+          wallSelect.value = list.some((w) => w.slug === current)
+            ? current
+            : DEFAULT_WALL;
+        })
+        .catch((e) => console.error("listWalls error", e));
+    }
+
+    // --- testimonial library ---
+    let library: Testimonial[] = [];
+    // entry the form was filled from; cards uploaded from it are linked to it
+    let libraryEntry: Testimonial | null = null;
+
+    function libraryLabel(entry: Testimonial) {
+      const quote =
+        entry.quote.length > 60 ? `${entry.quote.slice(0, 57)}…` : entry.quote;
+      return entry.author ? `${quote} — ${entry.author}` : quote;
+    }
+
+    // Unused entries first; archived ones stay on the library page
+    function fillLibrarySelect() {
+      librarySelect.innerHTML = "";
+      const none = document.createElement("option");
+      none.value = "";
+      none.textContent = library.length
+        ? "Pick a saved testimonial…"
+        : "The library is empty";
+      librarySelect.appendChild(none);
+
+      const live = library.filter((e) => e.status !== "archived");
+      const groups = [
+        ["Not used yet", live.filter((e) => !testimonialUses(e).length)],
+        ["Already used", live.filter((e) => testimonialUses(e).length)],
+      ] as const;
+      for (const [label, entries] of groups) {
+        if (!entries.length) continue;
+        const group = document.createElement("optgroup");
+        group.label = label;
+        for (const e of entries) {
+          const opt = document.createElement("option");
+          opt.value = e.id;
+          opt.textContent = libraryLabel(e);
+          group.appendChild(opt);
+        }
+        librarySelect.appendChild(group);
+      }
+      librarySelect.value = libraryEntry?.id ?? "";
+    }
+
+    async function loadLibrary() {
+      try {
+        library = await getCardRepository().listTestimonials();
+      } catch (e) {
+        console.error("listTestimonials error", e);
+        return;
+      }
+      if (disposed) return;
+      if (libraryEntry) {
+        libraryEntry = library.find((e) => e.id === libraryEntry!.id) ?? null;
+      }
+      fillLibrarySelect();
+
+      // "Use in generator" on the library page links here with ?testimonial=
+      const params = new URLSearchParams(window.location.search);
+      const wanted = library.find((e) => e.id === params.get("testimonial"));
+      if (wanted) {
+        window.history.replaceState(null, "", window.location.pathname);
+        pickTestimonial(wanted);
+      }
+    }
+
+    // Fills the form; the text can still be edited before uploading
+    function pickTestimonial(entry: Testimonial | null) {
+      libraryEntry = entry;
+      librarySelect.value = entry?.id ?? "";
+      if (!entry) return;
+      quoteText.value = entry.quote;
+      authorText.value = entry.author;
+      ratingSelect.value =
+        entry.rating === undefined ? "" : String(entry.rating);
+      sourceSelect.value = entry.source?.kind ?? "";
+      sourceDate.value = entry.source?.date ?? "";
+      sourceVerified.checked = !!entry.source?.verified;
+      tagsText.value = entry.tags.join(", ");
+      updateSourceInputs();
+      renderAll({ newDesigns: false });
+    }
+
+    async function recordUse(index: number, cardId: string, wall: string) {
+      const id = cardTestimonialId(index);
+      if (!id) return;
+      try {
+        await getCardRepository().recordTestimonialUse(id, cardId, {
+          wall,
+          usedAt: new Date().toISOString(),
+        });
+      } catch (e) {
+        console.error("recordTestimonialUse error", e);
+      }
+    }
+
+    // Keeps imported reviews; rows already in the library are linked, not added
+    async function saveBatchToLibrary() {
+      const repo = getCardRepository();
+      const known = new Map(library.map((e) => [quoteKey(e.quote), e.id]));
+      let added = 0;
+      batchSaveBtn.disabled = true;
+      try {
+        for (const row of batchRows) {
+          if (disposed) return;
+          const key = quoteKey(row.quote);
+          let id = known.get(key);
+          if (!id) {
+            const entry = dropUndefined<NewTestimonial>({
+              quote: row.quote.trim(),
+              author: row.author.trim(),
+              tags: [],
+              status: "new",
+              createdAt: new Date().toISOString(),
+              rating: row.rating,
+              source: row.source,
+            });
+            id = await repo.addTestimonial(entry);
+            known.set(key, id);
+            added++;
+          }
+          row.testimonialId = id;
+        }
+      } catch (e) {
+        console.error("addTestimonial error", e);
+        showToast("Could not save to the library");
+        return;
+      } finally {
+        batchSaveBtn.disabled = false;
+      }
+      const existing = batchRows.length - added;
+      showToast(
+        existing
+          ? `Saved ${added} to the library (${existing} already there)`
+          : `Saved ${added} to the library`,
+      );
+      loadLibrary();
+    }
+
+    // An enabled kit is applied straight away; the toggle turns it off
+    async function loadBrandKit() {
+      try {
+        const kit = await getCardRepository().getBrandKit();
+        if (disposed || !kit?.enabled) return;
+        const images = await loadCardImages(
+          { brand: cardBrand(kit) },
+          loadBrowserImage,
+        );
+        if (disposed) return;
+        brandKit = kit;
+        brandImages = images;
+        useBrand.disabled = false;
+        useBrand.checked = true;
+        renderAll({ newDesigns: true });
+      } catch (e) {
+        console.error("getBrandKit error", e);
+      }
+    }
+
+    function fillColumnSelect(
+      select: HTMLSelectElement,
+      columns: string[],
+      value: string,
+      allowNone: boolean,
+    ) {
+      select.innerHTML = "";
+      const options = allowNone ? ["", ...columns] : columns;
+      for (const c of options) {
+        const opt = document.createElement("option");
+        opt.value = c;
+        opt.textContent = c || "(none)";
+        select.appendChild(opt);
+      }
+      select.value = value;
+    }
+
+    function batchReviews(): Review[] {
+      if (!batchTable) return [];
+      const importer =
+        batchImporter ??
+        genericImporter(batchTable, batchQuoteCol.value, batchAuthorCol.value);
+      return batchTable.rows.flatMap((r) => importer.read(r) ?? []);
+    }
+
+    function applyBatch() {
+      if (!batchTable) return;
+      const reviews = batchReviews();
+      const unique = dedupeReviews(reviews);
+      const rows = filterReviews(unique, {
+        minRating: batchMinRating.value
+          ? Number(batchMinRating.value)
+          : undefined,
+        language: batchLanguage.value,
+        keywords: batchKeywords.value,
+      });
+      batchRows = rows.slice(0, MAX_BATCH_ROWS);
+
+      const skipped = batchTable.rows.length - reviews.length;
+      const duplicates = reviews.length - unique.length;
+      const filtered = unique.length - rows.length;
+      const parts = [`${batchRows.length} cards`];
+      if (batchImporter) parts.unshift(batchImporter.label);
+      if (skipped > 0) parts.push(`${skipped} rows without a quote skipped`);
+      if (duplicates > 0) parts.push(`${duplicates} duplicates removed`);
+      if (filtered > 0) parts.push(`${filtered} filtered out`);
+      if (rows.length > MAX_BATCH_ROWS) {
+        parts.push(`only the first ${MAX_BATCH_ROWS} are used`);
+      }
+      batchInfo.textContent = parts.join(" · ");
+
+      if (!batchRows.length) {
+        clearCards();
+        showToast(
+          filtered
+            ? "No reviews match the filters"
+            : "No quotes in that column",
+        );
+        return;
+      }
+      renderAll({ newDesigns: true });
+    }
+
+    // languages depend on the quote column for spreadsheets, so refill on change
+    function fillLanguageSelect() {
+      const languages = reviewLanguages(batchReviews());
+      const keep = languages.includes(batchLanguage.value)
+        ? batchLanguage.value
+        : "";
+      batchLanguage.innerHTML = "";
+      for (const value of ["", ...languages]) {
+        const opt = document.createElement("option");
+        opt.value = value;
+        opt.textContent = value || "Any language";
+        batchLanguage.appendChild(opt);
+      }
+      batchLanguage.value = keep;
+      batchLanguageGroup.hidden = !languages.length;
+    }
+
+    function setBatchMode(on: boolean) {
+      batchOptions.hidden = !on;
+      quoteText.disabled = on;
+      authorText.disabled = on;
+      avatarFile.disabled = on;
+      avatarShape.disabled = on;
+      countSelect.disabled = on;
+      librarySelect.disabled = on;
+    }
+
+    async function loadBatchFile(file: File) {
+      let table: TestimonialTable;
+      try {
+        const text = decodeText(await file.arrayBuffer());
+        table = parseTestimonialFile(file.name, text);
+      } catch (e) {
+        console.error("Batch parse error", e);
+        showToast("Could not read that file");
+        return;
+      }
+      if (disposed) return;
+      loadBatchTable(table, "No rows found in that file");
+    }
+
+    async function importFromUrl() {
+      const url = importUrl.value.trim();
+      if (!url) return;
+      importFetchBtn.disabled = true;
+      let table: TestimonialTable;
+      try {
+        table = await fetchReviewTable({
+          url,
+          token: importToken.value.trim() || undefined,
+        });
+      } catch (e) {
+        console.error("Review import error", e);
+        if (!disposed) showToast("Could not fetch reviews from that URL");
+        return;
+      } finally {
+        importFetchBtn.disabled = false;
+      }
+      if (disposed) return;
+      loadBatchTable(table, "No reviews found at that URL");
+    }
+
+    function loadBatchTable(table: TestimonialTable, emptyMessage: string) {
+      if (!table.columns.length || !table.rows.length) {
+        showToast(table.error ?? emptyMessage);
+        return;
+      }
+
+      batchTable = table;
+      batchImporter = detectImporter(table);
+      batchColumns.hidden = !!batchImporter;
+      const guess = guessColumns(table);
+      fillColumnSelect(batchQuoteCol, table.columns, guess.quote, false);
+      fillColumnSelect(batchAuthorCol, table.columns, guess.author, true);
+      fillLanguageSelect();
+      setBatchMode(true);
+      applyBatch();
+    }
+
+    function clearBatch() {
+      batchTable = null;
+      batchImporter = null;
+      batchRows = [];
+      batchFile.value = "";
+      batchMinRating.value = "";
+      batchKeywords.value = "";
+      setBatchMode(false);
+      renderAll({ newDesigns: true });
+    }
+
+    // --- download all (ZIP with a manifest) ---
+    const selected = new Set<number>();
+
+    function updateDownloadAllLabel() {
+      downloadAllBtn.textContent = selected.size
+        ? `Download Selected (${selected.size})`
+        : "Download All";
+    }
+
+    // Empties the grid; selections point at card indices, so they go too
+    function clearCards() {
+      cardsGrid.innerHTML = "";
+      // cleanup old resize listeners
+      for (const c of domCards) {
+        try {
+          c.cleanupResize();
+        } catch {}
+      }
+      domCards = [];
+      selected.clear();
+      updateDownloadAllLabel();
+    }
+
+    async function downloadAll() {
+      const indices = selected.size
+        ? [...selected].sort((a, b) => a - b)
+        : domCards.map((_, i) => i);
+      if (!indices.length) return;
+
+      const type = selectedExportType();
+      const story = isStoryType(type);
+      if (story) showToast(`Rendering ${indices.length} Stories…`);
+
+      downloadAllBtn.disabled = true;
+      try {
+        const entries: ZipEntry[] = [];
+        const manifest = [];
+
+        for (const i of indices) {
+          const { canvas } = domCards[i];
+          const blob = await exportBlob(canvas, i);
+          if (!blob) continue;
+
+          const file = exportFileName(`quote-card-${i + 1}`, type);
+          entries.push({
+            name: file,
+            data: new Uint8Array(await blob.arrayBuffer()),
+          });
+
+          const { quote, author } = cardText(i);
+          manifest.push({
+            file,
+            quote: quote.trim(),
+            author: author.trim(),
+            width: story ? STORY_SIZE.width : canvas.width,
+            height: story ? STORY_SIZE.height : canvas.height,
+            preset: presetSelect.value,
+            radius: radiusSelect.value,
+            stylePack: stylePack.value,
+            quoteSizeMultiplier: Number(quoteSize.value),
+            authorSizeMultiplier: Number(authorSize.value),
+            rating: cardRating(i),
+            source: cardSource(i),
+            design: designsCache[i],
+          });
+        }
+
+        entries.push({
+          name: "manifest.json",
+          data: new TextEncoder().encode(
+            JSON.stringify(
+              { createdAt: new Date().toISOString(), cards: manifest },
+              null,
+              2,
+            ),
+          ),
+        });
+
+        saveBlob(createZip(entries), "quote-cards.zip");
+        showToast(`Downloaded ${manifest.length} cards`);
+      } catch (error) {
+        console.error("Zip error:", error);
+        showToast("Could not build the ZIP");
+      } finally {
+        downloadAllBtn.disabled = false;
+      }
+    }
+
+    async function uploadAll() {
+      const wall = wallSelect.value || DEFAULT_WALL;
+      const repo = getCardRepository();
+      let sent = 0;
+      batchUploadBtn.disabled = true;
+      try {
+        for (const [i, card] of domCards.entries()) {
+          if (disposed) return;
+          try {
+            const id = await repo.submit(wall, buildCardData(card.canvas, i));
+            await recordUse(i, id, wall);
+            sent++;
+            batchInfo.textContent = `Uploading… ${sent}/${domCards.length}`;
+          } catch (error) {
+            console.error("Upload error:", error);
+          }
+        }
+      } finally {
+        batchUploadBtn.disabled = false;
+      }
+      loadLibrary();
+      const failed = domCards.length - sent;
+      showToast(
+        failed
+          ? `Sent ${sent} cards, ${failed} failed`
+          : `✨ Sent ${sent} cards to ${wallTitle(wall)} for review`,
+      );
+      batchInfo.textContent = `${batchRows.length} cards`;
+    }
+
     // --- wire UI listeners (store refs for cleanup) ---
     const onGenerate = () => renderAll({ newDesigns: true });
-    const onFormatChange = () => renderAll({ newDesigns: false });
+    const onDownloadAll = () => downloadAll();
+    // a drag-resize from one preset means nothing in another
+    const onPresetChange = () => {
+      customSize.hidden = presetSelect.value !== CUSTOM_PRESET;
+      cardState = cardState.map(() => ({ w: null, h: null, previewW: null }));
+      renderAll({ newDesigns: false });
+    };
+    const onCustomSizeChange = () => {
+      customWidth.value = String(clampSide(customWidth.value, 1080));
+      customHeight.value = String(clampSide(customHeight.value, 1080));
+      renderAll({ newDesigns: false });
+    };
     const onCountChange = () => renderAll({ newDesigns: true });
     const onRadiusChange = () => maybeLiveRender();
+    const onSafeZonesToggle = () =>
+      cardsGrid.classList.toggle("show-safe-zones", showSafeZones.checked);
     const onStylePackChange = () => renderAll({ newDesigns: true });
+    const onUseBrandChange = () => renderAll({ newDesigns: true });
+    const onFitTextChange = () => renderAll({ newDesigns: false });
+    const onRatingChange = () => renderAll({ newDesigns: false });
+    const onSourceChange = () => {
+      updateSourceInputs();
+      renderAll({ newDesigns: false });
+    };
+    const onLibraryPick = () =>
+      pickTestimonial(
+        library.find((e) => e.id === librarySelect.value) ?? null,
+      );
+    const onBatchSave = () => saveBatchToLibrary();
+    // each wall can start from its own style pack
+    const onWallChange = () => {
+      const wall = walls.find((w) => w.slug === wallSelect.value);
+      if (wall?.stylePack && wall.stylePack !== stylePack.value) {
+        stylePack.value = wall.stylePack;
+        renderAll({ newDesigns: true });
+      }
+    };
     const onQuoteInput = () => maybeLiveRender();
     const onAuthorInput = () => maybeLiveRender();
     const onQuoteSizeInput = () => {
       updateRangeLabels();
       maybeLiveRender();
     };
+    const onExportOptionInput = () => updateRangeLabels();
     const onAuthorSizeInput = () => {
       updateRangeLabels();
       maybeLiveRender();
     };
 
-    generateBtn.addEventListener("click", onGenerate);
+    const onBatchPick = () => batchFile.click();
+    const onBatchFile = () => {
+      const file = batchFile.files?.[0];
+      if (file) loadBatchFile(file);
+    };
+    const onAvatarFile = () => {
+      const file = avatarFile.files?.[0];
+      if (file) setAvatar(file);
+    };
+    const onAvatarShapeChange = () => renderAll({ newDesigns: false });
+    const onAvatarRemove = () => clearAvatar();
+    // the whole left panel accepts a dropped file: images become the photo
+    const onDragOver = (e: DragEvent) => {
+      if (!e.dataTransfer?.types.includes("Files")) return;
+      e.preventDefault();
+      leftPanel.classList.add("dragging");
+    };
+    const onDragLeave = (e: DragEvent) => {
+      if (!leftPanel.contains(e.relatedTarget as Node | null)) {
+        leftPanel.classList.remove("dragging");
+      }
+    };
+    const onDrop = (e: DragEvent) => {
+      leftPanel.classList.remove("dragging");
+      const file = e.dataTransfer?.files[0];
+      if (!file) return;
+      e.preventDefault();
+      if (file.type.startsWith("image/")) {
+        if (!batchTable) setAvatar(file);
+      } else {
+        loadBatchFile(file);
+      }
+    };
+    const onBatchColumnChange = () => {
+      fillLanguageSelect();
+      applyBatch();
+    };
+    const onBatchFilterChange = () => applyBatch();
+    const onImportFetch = () => importFromUrl();
+    const onBatchUpload = () => uploadAll();
+    const onBatchClear = () => clearBatch();
 
-    formatSelect.addEventListener("change", onFormatChange);
+    generateBtn.addEventListener("click", onGenerate);
+    downloadAllBtn.addEventListener("click", onDownloadAll);
+
+    batchPick.addEventListener("click", onBatchPick);
+    batchFile.addEventListener("change", onBatchFile);
+    leftPanel.addEventListener("dragover", onDragOver);
+    leftPanel.addEventListener("dragleave", onDragLeave);
+    leftPanel.addEventListener("drop", onDrop);
+    batchQuoteCol.addEventListener("change", onBatchColumnChange);
+    batchAuthorCol.addEventListener("change", onBatchColumnChange);
+    batchMinRating.addEventListener("change", onBatchFilterChange);
+    batchLanguage.addEventListener("change", onBatchFilterChange);
+    batchKeywords.addEventListener("change", onBatchFilterChange);
+    importFetchBtn.addEventListener("click", onImportFetch);
+    batchUploadBtn.addEventListener("click", onBatchUpload);
+    batchClearBtn.addEventListener("click", onBatchClear);
+
+    presetSelect.addEventListener("change", onPresetChange);
+    customWidth.addEventListener("change", onCustomSizeChange);
+    customHeight.addEventListener("change", onCustomSizeChange);
     countSelect.addEventListener("change", onCountChange);
     radiusSelect.addEventListener("change", onRadiusChange);
+    showSafeZones.addEventListener("change", onSafeZonesToggle);
     stylePack.addEventListener("change", onStylePackChange);
+    useBrand.addEventListener("change", onUseBrandChange);
+    fitText.addEventListener("change", onFitTextChange);
+    ratingSelect.addEventListener("change", onRatingChange);
+    sourceSelect.addEventListener("change", onSourceChange);
+    sourceDate.addEventListener("change", onSourceChange);
+    sourceVerified.addEventListener("change", onSourceChange);
+    librarySelect.addEventListener("change", onLibraryPick);
+    batchSaveBtn.addEventListener("click", onBatchSave);
+    avatarFile.addEventListener("change", onAvatarFile);
+    avatarShape.addEventListener("change", onAvatarShapeChange);
+    avatarRemove.addEventListener("click", onAvatarRemove);
+    wallSelect.addEventListener("change", onWallChange);
 
     quoteText.addEventListener("input", onQuoteInput);
     authorText.addEventListener("input", onAuthorInput);
 
     quoteSize.addEventListener("input", onQuoteSizeInput);
+    exportType.addEventListener("change", onExportOptionInput);
+    exportQuality.addEventListener("input", onExportOptionInput);
     authorSize.addEventListener("input", onAuthorSizeInput);
 
     // init
     updateRangeLabels();
+    loadWalls();
+    loadBrandKit();
+    loadLibrary();
 
     const initialCount = Number(countSelect.value);
-    designsCache = makeDesigns(initialCount);
+    designsCache = designsFor(initialCount);
     cardState = Array.from({ length: initialCount }, () => ({
       w: null,
       h: null,
@@ -1153,23 +1389,56 @@ export default function PraiseGenerator() {
 
     // Cleanup
     return () => {
+      disposed = true;
       generateBtn.removeEventListener("click", onGenerate);
-
-      formatSelect.removeEventListener("change", onFormatChange);
+      downloadAllBtn.removeEventListener("click", onDownloadAll);
+
+      batchPick.removeEventListener("click", onBatchPick);
+      batchFile.removeEventListener("change", onBatchFile);
+      leftPanel.removeEventListener("dragover", onDragOver);
+      leftPanel.removeEventListener("dragleave", onDragLeave);
+      leftPanel.removeEventListener("drop", onDrop);
+      batchQuoteCol.removeEventListener("change", onBatchColumnChange);
+      batchAuthorCol.removeEventListener("change", onBatchColumnChange);
+      batchMinRating.removeEventListener("change", onBatchFilterChange);
+      batchLanguage.removeEventListener("change", onBatchFilterChange);
+      batchKeywords.removeEventListener("change", onBatchFilterChange);
+      importFetchBtn.removeEventListener("click", onImportFetch);
+      batchUploadBtn.removeEventListener("click", onBatchUpload);
+      batchClearBtn.removeEventListener("click", onBatchClear);
+
+      presetSelect.removeEventListener("change", onPresetChange);
+      customWidth.removeEventListener("change", onCustomSizeChange);
+      customHeight.removeEventListener("change", onCustomSizeChange);
       countSelect.removeEventListener("change", onCountChange);
       radiusSelect.removeEventListener("change", onRadiusChange);
+      showSafeZones.removeEventListener("change", onSafeZonesToggle);
       stylePack.removeEventListener("change", onStylePackChange);
+      useBrand.removeEventListener("change", onUseBrandChange);
+      fitText.removeEventListener("change", onFitTextChange);
+      ratingSelect.removeEventListener("change", onRatingChange);
+      sourceSelect.removeEventListener("change", onSourceChange);
+      sourceDate.removeEventListener("change", onSourceChange);
+      sourceVerified.removeEventListener("change", onSourceChange);
+      librarySelect.removeEventListener("change", onLibraryPick);
+      batchSaveBtn.removeEventListener("click", onBatchSave);
+      avatarFile.removeEventListener("change", onAvatarFile);
+      avatarShape.removeEventListener("change", onAvatarShapeChange);
+      avatarRemove.removeEventListener("click", onAvatarRemove);
+      wallSelect.removeEventListener("change", onWallChange);
 
       quoteText.removeEventListener("input", onQuoteInput);
       authorText.removeEventListener("input", onAuthorInput);
 
       quoteSize.removeEventListener("input", onQuoteSizeInput);
+      exportType.removeEventListener("change", onExportOptionInput);
+      exportQuality.removeEventListener("input", onExportOptionInput);
       authorSize.removeEventListener("input", onAuthorSizeInput);
 
       // cleanup card resizers
-      for (const c of domCards as any[]) {
+      for (const c of domCards) {
         try {
-          c.cleanupResize?.();
+          c.cleanupResize();
         } catch {}
       }
     };
@@ -1185,28 +1454,156 @@ export default function PraiseGenerator() {
             </div>
           </div>
 
+          <div className="form-group">
+            <label>
+              From Library (<Link href="/admin/library">manage</Link>)
+            </label>
+            <select id="librarySelect" defaultValue="">
+              <option value="">Pick a saved testimonial…</option>
+            </select>
+          </div>
+
           <div className="form-group">
             <label>Praise Message</label>
             <textarea
               id="quoteText"
+              dir="auto"
               placeholder="For me, gratitude is an amazing app. I'm a paper and pen girlie but with Gratitude I don't even feel the difference.... a 9.5 out of 10 for me."
             />
+            <div className="field-note">
+              **bold** for accent words, ==text== to highlight.
+            </div>
           </div>
 
           <div className="form-group">
             <label>User Name</label>
-            <input id="authorText" type="text" placeholder="Faith Anazodo" />
+            <input
+              id="authorText"
+              type="text"
+              dir="auto"
+              placeholder="Faith Anazodo"
+            />
           </div>
 
-          <div className="row">
+          <div className="form-group">
+            <label>Rating</label>
+            <select id="ratingSelect" defaultValue="">
+              <option value="">No rating</option>
+              {RATING_OPTIONS.map((r) => (
+                <option key={r} value={r}>
+                  {ratingLabel(r)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label>Source</label>
+            <select id="sourceSelect" defaultValue="">
+              <option value="">None</option>
+              {SOURCES.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+            <div className="row">
+              <input id="sourceDate" type="date" disabled />
+              <div className="toggles">
+                <input id="sourceVerified" type="checkbox" disabled />
+                <label
+                  htmlFor="sourceVerified"
+                  style={{
+                    textTransform: "none",
+                    letterSpacing: 0,
+                    fontWeight: 800,
+                    color: "#1d1d1f",
+                  }}
+                >
+                  Verified
+                </label>
+              </div>
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>Tags</label>
+            <input
+              id="tagsText"
+              type="text"
+              placeholder="onboarding, support"
+            />
+            <div className="field-note">
+              Comma-separated; the wall can filter by tag.
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>Customer Photo</label>
+            <div className="avatar-row">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                id="avatarPreview"
+                className="avatar-preview"
+                alt=""
+                hidden
+              />
+              <input id="avatarFile" type="file" accept="image/*" />
+              <button
+                id="avatarRemove"
+                type="button"
+                className="link-btn"
+                hidden
+              >
+                Remove
+              </button>
+            </div>
+            <select id="avatarShape" defaultValue="circle">
+              <option value="circle">Circle</option>
+              <option value="rounded">Rounded square</option>
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label>Size</label>
+            <select id="presetSelect" defaultValue={DEFAULT_PRESET}>
+              {[...new Set(SIZE_PRESETS.map((p) => p.group))].map((group) => (
+                <optgroup key={group} label={group}>
+                  {SIZE_PRESETS.filter((p) => p.group === group).map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {presetLabel(p)}
+                    </option>
+                  ))}
+                </optgroup>
+              ))}
+              <option value={CUSTOM_PRESET}>Custom size…</option>
+            </select>
+          </div>
+
+          <div className="row custom-size" id="customSize" hidden>
             <div className="form-group">
-              <label>Format</label>
-              <select id="formatSelect" defaultValue="square">
-                <option value="square">Square (min 1080×1080)</option>
-                <option value="portrait">Portrait (min 1080×1350)</option>
-                <option value="landscape">Landscape (min 1600×900)</option>
-              </select>
+              <label>Width</label>
+              <input
+                id="customWidth"
+                type="number"
+                min={MIN_SIDE}
+                max={MAX_SIDE}
+                defaultValue="1080"
+              />
             </div>
+            <div className="form-group">
+              <label>Height</label>
+              <input
+                id="customHeight"
+                type="number"
+                min={MIN_SIDE}
+                max={MAX_SIDE}
+                defaultValue="1080"
+              />
+            </div>
+          </div>
+
+          <div className="row">
             <div className="form-group">
               <label>Cards</label>
               <select id="countSelect" defaultValue="6">
@@ -1215,9 +1612,6 @@ export default function PraiseGenerator() {
                 <option value="12">12</option>
               </select>
             </div>
-          </div>
-
-          <div className="row">
             <div className="form-group">
               <label>Corner Radius</label>
               <select id="radiusSelect" defaultValue="26">
@@ -1226,6 +1620,9 @@ export default function PraiseGenerator() {
                 <option value="34">34px</option>
               </select>
             </div>
+          </div>
+
+          <div className="row">
             <div className="form-group">
               <label>Style Pack</label>
               <select id="stylePack" defaultValue="balanced">
@@ -1269,6 +1666,34 @@ export default function PraiseGenerator() {
             </div>
           </div>
 
+          <div className="row">
+            <div className="form-group">
+              <label>Export As</label>
+              <select id="exportType" defaultValue="png">
+                {Object.entries(EXPORT_TYPES).map(([type, { label }]) => (
+                  <option key={type} value={type}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label>Quality</label>
+              <div className="range-row">
+                <input
+                  id="exportQuality"
+                  type="range"
+                  min="40"
+                  max="100"
+                  defaultValue={DEFAULT_QUALITY}
+                />
+                <div className="range-value" id="exportQualityVal">
+                  —
+                </div>
+              </div>
+            </div>
+          </div>
+
           <div className="toggles">
             <input id="liveUpdate" type="checkbox" defaultChecked />
             <label
@@ -1284,10 +1709,156 @@ export default function PraiseGenerator() {
             </label>
           </div>
 
+          <div className="toggles">
+            <input id="fitText" type="checkbox" />
+            <label
+              htmlFor="fitText"
+              style={{
+                textTransform: "none",
+                letterSpacing: 0,
+                fontWeight: 800,
+                color: "#1d1d1f",
+              }}
+            >
+              Fixed size, fit text (shrink type instead of growing the card)
+            </label>
+          </div>
+
+          <div className="toggles">
+            <input id="showSafeZones" type="checkbox" />
+            <label
+              htmlFor="showSafeZones"
+              style={{
+                textTransform: "none",
+                letterSpacing: 0,
+                fontWeight: 800,
+                color: "#1d1d1f",
+              }}
+            >
+              Show safe zones (Stories, Reels, TikTok)
+            </label>
+          </div>
+
+          <div className="toggles">
+            <input id="useBrand" type="checkbox" disabled />
+            <label
+              htmlFor="useBrand"
+              style={{
+                textTransform: "none",
+                letterSpacing: 0,
+                fontWeight: 800,
+                color: "#1d1d1f",
+              }}
+            >
+              Apply brand kit (<Link href="/admin/brand">edit</Link>)
+            </label>
+          </div>
+
+          <div className="form-group">
+            <label>Upload To Wall</label>
+            <select id="wallSelect" defaultValue={DEFAULT_WALL}>
+              <option value={DEFAULT_WALL}>❤️ Praise Wall</option>
+            </select>
+          </div>
+
           <div className="btn-row">
             <button className="btn primary" id="generateBtn">
               Generate
             </button>
+            <button className="btn" id="downloadAllBtn">
+              Download All
+            </button>
+          </div>
+
+          <div className="form-group">
+            <label>Batch From File</label>
+            <div className="drop-zone">
+              Drop a CSV or JSON file of testimonials, an App Store Connect,
+              Google Play or Trustpilot export (or a customer photo) here, or{" "}
+              <button type="button" id="batchPick">
+                browse
+              </button>
+            </div>
+            <input
+              id="batchFile"
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              hidden
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Batch From API</label>
+            <div className="import-row">
+              <input
+                id="importUrl"
+                type="text"
+                placeholder="https://api.example.com/reviews"
+              />
+              <button className="btn" id="importFetchBtn">
+                Fetch
+              </button>
+            </div>
+            <input
+              id="importToken"
+              type="password"
+              placeholder="API token (optional)"
+              autoComplete="off"
+            />
+          </div>
+
+          <div className="batch-options" id="batchOptions" hidden>
+            <div className="row" id="batchColumns">
+              <div className="form-group">
+                <label>Quote Column</label>
+                <select id="batchQuoteCol"></select>
+              </div>
+              <div className="form-group">
+                <label>Author Column</label>
+                <select id="batchAuthorCol"></select>
+              </div>
+            </div>
+            <div className="row">
+              <div className="form-group">
+                <label>Min Rating</label>
+                <select id="batchMinRating" defaultValue="">
+                  <option value="">Any rating</option>
+                  {RATING_FILTERS.map((r) => (
+                    <option key={r} value={r}>
+                      {minRatingLabel(r)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group" id="batchLanguageGroup" hidden>
+                <label>Language</label>
+                <select id="batchLanguage"></select>
+              </div>
+            </div>
+            <div className="form-group">
+              <label>Keywords</label>
+              <input
+                id="batchKeywords"
+                type="text"
+                placeholder="fast, support, easy"
+              />
+            </div>
+            <div className="batch-info" id="batchInfo"></div>
+            <div className="btn-row">
+              <button className="btn" id="batchUploadBtn">
+                Upload All
+              </button>
+            </div>
+            <div className="btn-row">
+              <button className="btn" id="batchSaveBtn">
+                Save to Library
+              </button>
+            </div>
+            <div className="btn-row">
+              <button className="btn" id="batchClearBtn">
+                Clear Batch
+              </button>
+            </div>
           </div>
         </div>
 
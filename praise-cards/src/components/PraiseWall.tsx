@@ -0,0 +1,706 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { BG_TYPES, LAYOUTS } from "@/lib/cards/design";
+import { paintWhenReady } from "@/lib/cards/images";
+import { CUSTOM_PRESET, SIZE_PRESETS } from "@/lib/cards/presets";
+import { RATING_FILTERS, minRatingLabel } from "@/lib/cards/rating";
+import { renderStoredCard } from "@/lib/cards/renderer";
+import type { CardData } from "@/lib/cards/types";
+import {
+  getCardRepository,
+  type CardChange,
+  type PageCursor,
+  type WallSettings,
+} from "@/lib/storage";
+import {
+  filtersFromParams,
+  filtersToParams,
+  isFiltering,
+  matchesFilters,
+  NO_FILTERS,
+  type WallFilters,
+} from "@/lib/storage/filters";
+import { compareNewestFirst } from "@/lib/storage/paging";
+import { cardPath, kioskPath } from "@/lib/storage/walls";
+
+// With a filter on, infinite scroll pauses after this many loaded cards in a
+// row don't match, instead of paging through the whole wall
+const SCAN_LIMIT = 100;
+
+// "corner-frame" -> "Corner frame"
+function optionLabel(id: string) {
+  const text = id.replace(/-/g, " ");
+  return text[0].toUpperCase() + text.slice(1);
+}
+
+export default function PraiseWall({ wall }: { wall: WallSettings }) {
+  const [cards, setCards] = useState<CardData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [pageSize] = useState(15);
+  const [hasMore, setHasMore] = useState(true);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  const [toast, setToast] = useState<string | null>(null);
+  const searchParams = useSearchParams();
+  const [filters, setFilters] = useState<WallFilters>(() =>
+    filtersFromParams(new URLSearchParams(searchParams.toString())),
+  );
+
+  // live arrivals waiting behind the "N new cards" banner
+  const [incoming, setIncoming] = useState<CardData[]>([]);
+  const cardsRef = useRef<CardData[]>([]);
+
+  const canvasRefs = useRef<Map<string, HTMLCanvasElement>>(new Map());
+
+  useEffect(() => {
+    if (!toast) return;
+    const t = window.setTimeout(() => setToast(null), 2200);
+    return () => window.clearTimeout(t);
+  }, [toast]);
+
+  async function copyCanvasImage(canvas: HTMLCanvasElement) {
+    try {
+      const blob = await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(
+          (b) => (b ? resolve(b) : reject(new Error("toBlob failed"))),
+          "image/png",
+        );
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const ClipboardItemAny = (window as any).ClipboardItem;
+      if (!ClipboardItemAny) throw new Error("ClipboardItem missing");
+
+      await navigator.clipboard.write([
+        new ClipboardItemAny({ "image/png": blob }),
+      ]);
+      setToast("Copied image");
+    } catch (e) {
+      console.error(e);
+      // Fallback: download the image if copy fails
+      try {
+        const blob = await new Promise<Blob>((resolve, reject) => {
+          canvas.toBlob(
+            (b) => (b ? resolve(b) : reject(new Error("toBlob failed"))),
+            "image/png",
+          );
+        });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = `praise-card-${Date.now()}.png`;
+        a.click();
+        URL.revokeObjectURL(url);
+        setToast("Downloaded image (copy requires HTTPS)");
+      } catch {
+        setToast("Use HTTPS or allow clipboard permission");
+      }
+    }
+  }
+
+  // ---------- paginated fetch cards ----------
+  async function fetchPage(before?: PageCursor) {
+    try {
+      if (before) setLoadingMore(true);
+      else setLoading(true);
+
+      // repository only ever returns approved cards, newest first
+      const page = await getCardRepository().listApproved(wall.slug, {
+        before,
+        limit: pageSize,
+      });
+
+      // append older items after existing cards
+      setCards((prev) => (before ? [...prev, ...page.cards] : page.cards));
+      setHasMore(page.hasMore);
+    } catch (e) {
+      console.error("fetchPage error", e);
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchPage();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    cardsRef.current = cards;
+  }, [cards]);
+
+  // ---------- live updates ----------
+  // Covers the oldest loaded card up to the newest, so the range grows as
+  // infinite scroll loads older pages; older cards are left to the cursor.
+  const oldest = cards[cards.length - 1];
+  const ready = !loading && (oldest !== undefined || !hasMore);
+  const sinceKey = oldest ? `${oldest.createdAt}|${oldest.id}` : "";
+
+  useEffect(() => {
+    if (!ready) return;
+    const since = cardsRef.current[cardsRef.current.length - 1];
+
+    function onChange(change: CardChange) {
+      if (change.type === "removed") {
+        setCards((prev) => prev.filter((c) => c.id !== change.id));
+        setIncoming((prev) => prev.filter((c) => c.id !== change.id));
+        return;
+      }
+      const { card } = change;
+      const same = (c: CardData) => JSON.stringify(c) === JSON.stringify(card);
+      if (cardsRef.current.some((c) => c.id === card.id)) {
+        // already shown: edits apply in place
+        setCards((prev) => {
+          const i = prev.findIndex((c) => c.id === card.id);
+          if (i < 0 || same(prev[i])) return prev;
+          return prev.map((c) => (c.id === card.id ? card : c));
+        });
+      } else {
+        setIncoming((prev) => [...prev.filter((c) => c.id !== card.id), card]);
+      }
+    }
+
+    return getCardRepository().watchApproved(
+      wall.slug,
+      since ? { createdAt: since.createdAt, id: since.id } : undefined,
+      onChange,
+    );
+  }, [wall.slug, ready, sinceKey]);
+
+  function showIncoming() {
+    setCards((prev) => {
+      const ids = new Set(incoming.map((c) => c.id));
+      return [...incoming, ...prev.filter((c) => !ids.has(c.id))].sort(
+        compareNewestFirst,
+      );
+    });
+    setIncoming([]);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
+  // Filtered on the loaded pages; infinite scroll keeps fetching older ones
+  const visible = useMemo(
+    () => cards.filter((c) => matchesFilters(c, filters)),
+    [cards, filters],
+  );
+  const filtering = isFiltering(filters);
+
+  // loaded cards older than the last match, or than where "Keep looking"
+  // was pressed
+  const [scanFrom, setScanFrom] = useState(0);
+  const lastMatch = visible.length
+    ? cards.indexOf(visible[visible.length - 1])
+    : -1;
+  const unmatched = cards.length - Math.max(lastMatch + 1, scanFrom);
+  const paused = filtering && hasMore && unmatched >= SCAN_LIMIT;
+
+  // live arrivals that pass the filters (the rest wait unseen)
+  const incomingVisible = useMemo(
+    () => incoming.filter((c) => matchesFilters(c, filters)),
+    [incoming, filters],
+  );
+
+  // IntersectionObserver for infinite scroll: when sentinel is visible, load next page
+  useEffect(() => {
+    const el = sentinelRef.current;
+    if (!el) return;
+    const io = new IntersectionObserver(
+      (entries) => {
+        for (const e of entries) {
+          if (
+            e.isIntersecting &&
+            hasMore &&
+            !paused &&
+            !loadingMore &&
+            cards.length > 0
+          ) {
+            const oldest = cards[cards.length - 1];
+            if (oldest) fetchPage(oldest);
+          }
+        }
+      },
+      { root: null, rootMargin: "400px", threshold: 0.1 },
+    );
+    io.observe(el);
+    return () => io.disconnect();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cards, hasMore, loadingMore, paused]);
+
+  // tags seen so far, plus one from a shared link that hasn't loaded yet
+  const tags = useMemo(() => {
+    const seen = new Set(cards.flatMap((c) => c.tags ?? []));
+    if (filters.tag) seen.add(filters.tag);
+    return [...seen].sort();
+  }, [cards, filters.tag]);
+
+  // Keeps the URL in step (replace, so the back button leaves the wall)
+  function setFilter(patch: Partial<WallFilters>) {
+    const next = { ...filters, ...patch };
+    setFilters(next);
+    const query = filtersToParams(next).toString();
+    window.history.replaceState(
+      null,
+      "",
+      query ? `${window.location.pathname}?${query}` : window.location.pathname,
+    );
+  }
+
+  async function copyViewLink() {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setToast("Link to this view copied");
+    } catch {
+      setToast("Copy the link from the address bar");
+    }
+  }
+
+  // ---------- render to canvases ----------
+  useEffect(() => {
+    const cancels: (() => void)[] = [];
+    for (const c of visible) {
+      const canvas = canvasRefs.current.get(c.id);
+      if (!canvas) continue;
+      cancels.push(
+        paintWhenReady(c, (images) => renderStoredCard(canvas, c, images)),
+      );
+    }
+    return () => cancels.forEach((cancel) => cancel());
+  }, [visible]);
+
+  return (
+    <div
+      className="page"
+      style={wall.background ? { background: wall.background } : undefined}
+    >
+      <header className="wallHeader">
+        {wall.logoUrl ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={wall.logoUrl} alt="" className="logo" />
+        ) : null}
+        <h1>{wall.title}</h1>
+      </header>
+
+      <div className="filters">
+        <input
+          type="search"
+          className="search"
+          aria-label="Search quotes and names"
+          placeholder="Search quotes and names"
+          value={filters.q}
+          onChange={(e) => setFilter({ q: e.target.value })}
+        />
+        <input
+          type="date"
+          aria-label="From date"
+          value={filters.from}
+          max={filters.to || undefined}
+          onChange={(e) => setFilter({ from: e.target.value })}
+        />
+        <input
+          type="date"
+          aria-label="To date"
+          value={filters.to}
+          min={filters.from || undefined}
+          onChange={(e) => setFilter({ to: e.target.value })}
+        />
+        <select
+          aria-label="Filter by layout"
+          value={filters.layout}
+          onChange={(e) => setFilter({ layout: e.target.value })}
+        >
+          <option value="">All layouts</option>
+          {LAYOUTS.map((l) => (
+            <option key={l} value={l}>
+              {optionLabel(l)}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Filter by background"
+          value={filters.bg}
+          onChange={(e) => setFilter({ bg: e.target.value })}
+        >
+          <option value="">All backgrounds</option>
+          {BG_TYPES.map((b) => (
+            <option key={b} value={b}>
+              {optionLabel(b)}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Filter by format"
+          value={filters.format}
+          onChange={(e) => setFilter({ format: e.target.value })}
+        >
+          <option value="">All formats</option>
+          {SIZE_PRESETS.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.label}
+            </option>
+          ))}
+          <option value={CUSTOM_PRESET}>Custom size</option>
+        </select>
+        <select
+          aria-label="Filter by tag"
+          value={filters.tag}
+          onChange={(e) => setFilter({ tag: e.target.value })}
+        >
+          <option value="">All tags</option>
+          {tags.map((t) => (
+            <option key={t} value={t}>
+              {t}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Filter by rating"
+          value={filters.rating ?? ""}
+          onChange={(e) =>
+            setFilter({
+              rating: e.target.value === "" ? null : Number(e.target.value),
+            })
+          }
+        >
+          <option value="">All ratings</option>
+          {RATING_FILTERS.map((r) => (
+            <option key={r} value={r}>
+              {minRatingLabel(r)}
+            </option>
+          ))}
+        </select>
+        {filtering ? (
+          <>
+            <button className="filterBtn" onClick={() => setFilter(NO_FILTERS)}>
+              Clear
+            </button>
+            <button className="filterBtn" onClick={copyViewLink}>
+              Copy link
+            </button>
+          </>
+        ) : null}
+        <Link
+          href={kioskPath(wall.slug, filtersToParams(filters))}
+          className="filterBtn"
+          title="Fullscreen slideshow of these cards"
+        >
+          ▶ TV mode
+        </Link>
+      </div>
+
+      {incomingVisible.length > 0 ? (
+        <button className="newCards" onClick={showIncoming}>
+          ↑ {incomingVisible.length} new{" "}
+          {incomingVisible.length === 1 ? "card" : "cards"}
+        </button>
+      ) : null}
+
+      {!loading && visible.length === 0 ? (
+        <div className="empty">
+          {cards.length === 0
+            ? "No praise yet."
+            : paused
+              ? `No matches in the last ${unmatched} cards.`
+              : hasMore
+                ? "Looking for matching cards…"
+                : "No cards match these filters."}
+        </div>
+      ) : (
+        <div className="masonry">
+          {visible.map((card) => (
+            <div key={card.id} className="item">
+              <div
+                className="card"
+                onClick={() => {
+                  const canvas = canvasRefs.current.get(card.id);
+                  if (canvas) copyCanvasImage(canvas);
+                }}
+              >
+                <canvas
+                  ref={(el) => {
+                    if (el) canvasRefs.current.set(card.id, el);
+                    else canvasRefs.current.delete(card.id);
+                  }}
+                  className="canvas"
+                />
+                <Link
+                  href={cardPath(card.id, wall.slug)}
+                  className="permalink"
+                  title="Open shareable page"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  ↗
+                </Link>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {paused ? (
+        <button
+          className="keepLooking"
+          onClick={() => setScanFrom(cards.length)}
+        >
+          Keep looking in older cards
+        </button>
+      ) : null}
+
+      <div ref={sentinelRef} style={{ height: 1 }} />
+      {loadingMore ? (
+        <div className="spinnerWrap" aria-hidden="true">
+          <div className="spinner" />
+        </div>
+      ) : null}
+
+      {toast ? <div className="toast show">{toast}</div> : null}
+
+      <style jsx>{`
+        .page {
+          min-height: 100vh;
+          margin: 0 auto;
+          padding: 36px 18px 90px;
+          font-family:
+            -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+        }
+
+        .wallHeader {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          gap: 14px;
+          margin-bottom: 26px;
+        }
+
+        .wallHeader .logo {
+          height: 44px;
+          width: auto;
+          object-fit: contain;
+        }
+
+        .wallHeader h1 {
+          font-size: 28px;
+        }
+
+        .filters {
+          display: flex;
+          flex-wrap: wrap;
+          justify-content: flex-end;
+          gap: 8px;
+          margin-bottom: 14px;
+        }
+
+        .filters select,
+        .filters input,
+        .filters :global(.filterBtn) {
+          padding: 8px 12px;
+          border: 1px solid rgba(0, 0, 0, 0.12);
+          border-radius: 10px;
+          background: rgba(255, 255, 255, 0.92);
+          font-size: 13px;
+          font-weight: 700;
+          font-family: inherit;
+          color: #1d1d1f;
+        }
+
+        .filters .search {
+          flex: 1;
+          min-width: 200px;
+          max-width: 340px;
+        }
+
+        .filters :global(.filterBtn) {
+          cursor: pointer;
+          text-decoration: none;
+        }
+
+        .newCards {
+          position: sticky;
+          top: 14px;
+          z-index: 5;
+          display: block;
+          margin: 0 auto 14px;
+          padding: 9px 16px;
+          border: 0;
+          border-radius: 999px;
+          background: rgba(17, 24, 39, 0.92);
+          color: #fff;
+          font-family: inherit;
+          font-size: 13px;
+          font-weight: 700;
+          cursor: pointer;
+          box-shadow: 0 8px 24px rgba(0, 0, 0, 0.18);
+        }
+
+        .empty {
+          text-align: center;
+          padding: 70px 10px;
+          color: #6b7280;
+        }
+
+        .keepLooking {
+          display: block;
+          margin: 18px auto 0;
+          padding: 9px 16px;
+          border: 1px solid rgba(0, 0, 0, 0.12);
+          border-radius: 999px;
+          background: #fff;
+          font-family: inherit;
+          font-size: 13px;
+          font-weight: 600;
+          cursor: pointer;
+        }
+
+        /* Dense grid like Instagram Explore: fill the row with as many items as fit */
+        .masonry {
+          display: grid;
+          grid-template-columns: repeat(auto-fill, minmax(360px, 1fr));
+          gap: 10px;
+          width: 100%;
+        }
+
+        .item {
+          display: block;
+          width: 100%;
+        }
+
+        /* ---------------- Card ---------------- */
+        .card {
+          position: relative;
+          border-radius: 14px;
+          overflow: hidden;
+          box-shadow: 0 10px 22px rgba(0, 0, 0, 0.08);
+          transition:
+            transform 0.18s ease,
+            box-shadow 0.18s ease,
+            border-color 0.18s ease;
+          cursor: pointer;
+        }
+
+        .card::before {
+          content: "";
+          position: absolute;
+          inset: 0;
+          border-radius: 14px;
+          pointer-events: none;
+          opacity: 0;
+          transition: opacity 0.18s ease;
+          box-shadow:
+            0 0 0 1px rgba(236, 72, 153, 0.38),
+            0 0 26px rgba(236, 72, 153, 0.22);
+        }
+
+        .card:hover {
+          transform: translateY(-3px);
+          box-shadow: 0 18px 36px rgba(0, 0, 0, 0.12);
+        }
+
+        .card:hover::before {
+          opacity: 1;
+        }
+
+        .card :global(.permalink) {
+          position: absolute;
+          top: 10px;
+          right: 10px;
+          width: 30px;
+          height: 30px;
+          display: grid;
+          place-items: center;
+          border-radius: 999px;
+          background: rgba(17, 24, 39, 0.55);
+          color: #fff;
+          font-size: 14px;
+          font-weight: 800;
+          text-decoration: none;
+          opacity: 0;
+          transition: opacity 0.18s ease;
+        }
+
+        .card:hover :global(.permalink) {
+          opacity: 1;
+        }
+
+        /* Canvas is huge (1080px+), so we scale it to fit the visual width */
+        .canvas {
+          display: block;
+          width: 100%;
+          height: auto;
+          background: #f3f4f6;
+        }
+
+        /* Toast */
+        .toast {
+          position: fixed;
+          bottom: 22px;
+          left: 50%;
+          transform: translateX(-50%) translateY(16px);
+          background: rgba(17, 24, 39, 0.92);
+          color: #fff;
+          padding: 10px 14px;
+          border-radius: 999px;
+          font-size: 13px;
+          font-weight: 700;
+          opacity: 0;
+          transition:
+            opacity 0.18s ease,
+            transform 0.18s ease;
+          z-index: 1000;
+        }
+
+        /* load-more button removed in favor of infinite scroll */
+
+        .spinnerWrap {
+          text-align: center;
+          margin-top: 12px;
+          color: #374151;
+        }
+
+        .spinner {
+          width: 28px;
+          height: 28px;
+          border-radius: 50%;
+          border: 3px solid rgba(55, 65, 81, 0.15);
+          border-top-color: #111827;
+          display: inline-block;
+          animation: spin 0.9s linear infinite;
+        }
+
+        @keyframes spin {
+          to {
+            transform: rotate(360deg);
+          }
+        }
+
+        .toast.show {
+          opacity: 1;
+          transform: translateX(-50%) translateY(0);
+        }
+
+        /* keep compact on small screens */
+        @media (max-width: 1080px) {
+          .masonry {
+            gap: 10px;
+            grid-template-columns: repeat(auto-fill, minmax(200px, 1fr));
+          }
+        }
+
+        @media (max-width: 520px) {
+          .page {
+            padding: 26px 14px 80px;
+          }
+          .masonry {
+            gap: 8px;
+            grid-template-columns: repeat(auto-fill, minmax(160px, 1fr));
+          }
+          .item {
+            width: 100%;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
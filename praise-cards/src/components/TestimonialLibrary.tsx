@@ -0,0 +1,606 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { RATING_OPTIONS, ratingLabel } from "@/lib/cards/rating";
+import { SOURCES, badgeText, isSourceKind } from "@/lib/cards/sources";
+import type { CardSource } from "@/lib/cards/types";
+import {
+  getCardRepository,
+  type NewTestimonial,
+  type Testimonial,
+  type TestimonialStatus,
+} from "@/lib/storage";
+import {
+  entryFields,
+  parseTags,
+  TESTIMONIAL_STATUSES,
+  testimonialUses,
+} from "@/lib/storage/library";
+import { dropUndefined } from "@/lib/storage/records";
+import { cardPath } from "@/lib/storage/walls";
+
+type Form = {
+  quote: string;
+  author: string;
+  // "" = no rating / no source
+  rating: string;
+  sourceKind: string;
+  sourceDate: string;
+  sourceVerified: boolean;
+  // comma-separated
+  tags: string;
+  status: TestimonialStatus;
+};
+
+const EMPTY: Form = {
+  quote: "",
+  author: "",
+  rating: "",
+  sourceKind: "",
+  sourceDate: "",
+  sourceVerified: false,
+  tags: "",
+  status: "new",
+};
+
+function formOf(entry: Testimonial): Form {
+  return {
+    quote: entry.quote,
+    author: entry.author,
+    rating: entry.rating === undefined ? "" : String(entry.rating),
+    sourceKind: entry.source?.kind ?? "",
+    sourceDate: entry.source?.date ?? "",
+    sourceVerified: !!entry.source?.verified,
+    tags: entry.tags.join(", "),
+    status: entry.status,
+  };
+}
+
+function entryOf(form: Form, createdAt: string): NewTestimonial {
+  const source = isSourceKind(form.sourceKind)
+    ? dropUndefined<CardSource>({
+        kind: form.sourceKind,
+        date: form.sourceDate || undefined,
+        verified: form.sourceVerified || undefined,
+      })
+    : undefined;
+  return dropUndefined<NewTestimonial>({
+    quote: form.quote.trim(),
+    author: form.author.trim(),
+    tags: parseTags(form.tags),
+    status: form.status,
+    createdAt,
+    rating: form.rating ? Number(form.rating) : undefined,
+    source,
+  });
+}
+
+export default function TestimonialLibrary() {
+  const [entries, setEntries] = useState<Testimonial[]>([]);
+  const [loading, setLoading] = useState(true);
+  // id being edited; null = adding a new entry
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<Form>(EMPTY);
+  const [busy, setBusy] = useState(false);
+  const [toast, setToast] = useState<string | null>(null);
+  // list filters; "" = all
+  const [status, setStatus] = useState("");
+  const [tag, setTag] = useState("");
+  const [unusedOnly, setUnusedOnly] = useState(false);
+
+  useEffect(() => {
+    if (!toast) return;
+    const t = window.setTimeout(() => setToast(null), 2200);
+    return () => window.clearTimeout(t);
+  }, [toast]);
+
+  async function load() {
+    try {
+      setEntries(await getCardRepository().listTestimonials());
+    } catch (e) {
+      console.error("listTestimonials error", e);
+      setToast("Could not load the library");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const tags = useMemo(
+    () => [...new Set(entries.flatMap((e) => e.tags))].sort(),
+    [entries],
+  );
+
+  const visible = entries.filter(
+    (e) =>
+      (!status || e.status === status) &&
+      (!tag || e.tags.includes(tag)) &&
+      (!unusedOnly || !testimonialUses(e).length),
+  );
+  const unusedCount = entries.filter(
+    (e) => e.status !== "archived" && !testimonialUses(e).length,
+  ).length;
+
+  function edit(entry: Testimonial | null) {
+    setEditing(entry?.id ?? null);
+    setForm(entry ? formOf(entry) : EMPTY);
+  }
+
+  const set = (patch: Partial<Form>) =>
+    setForm((prev) => ({ ...prev, ...patch }));
+
+  async function run(action: () => Promise<void>, msg: string) {
+    setBusy(true);
+    try {
+      await action();
+      setToast(msg);
+      await load();
+    } catch (e) {
+      console.error("Library error", e);
+      setToast("Save failed. Check the card store config.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function save() {
+    const repo = getCardRepository();
+    const current = entries.find((e) => e.id === editing);
+    if (current) {
+      return run(
+        () =>
+          repo.saveTestimonial(current.id, entryOf(form, current.createdAt)),
+        "Testimonial saved",
+      );
+    }
+    return run(async () => {
+      const id = await repo.addTestimonial(
+        entryOf(form, new Date().toISOString()),
+      );
+      setEditing(id);
+    }, "Added to the library");
+  }
+
+  function setEntryStatus(entry: Testimonial, next: TestimonialStatus) {
+    return run(
+      () =>
+        getCardRepository().saveTestimonial(entry.id, {
+          ...entryFields(entry),
+          status: next,
+        }),
+      `Marked ${next}`,
+    );
+  }
+
+  function remove(entry: Testimonial) {
+    if (!window.confirm("Delete this testimonial? Its cards stay put.")) return;
+    return run(async () => {
+      await getCardRepository().deleteTestimonial(entry.id);
+      if (editing === entry.id) edit(null);
+    }, "Deleted");
+  }
+
+  return (
+    <div className="library">
+      <div className="topbar">
+        <h1>Testimonial Library</h1>
+        <span className="count">
+          {loading
+            ? "Loading…"
+            : `${entries.length} saved · ${unusedCount} not made into cards yet`}
+        </span>
+        <button className="action" onClick={() => edit(null)}>
+          New testimonial
+        </button>
+      </div>
+
+      <div className="filters">
+        <select
+          aria-label="Filter by status"
+          value={status}
+          onChange={(e) => setStatus(e.target.value)}
+        >
+          <option value="">All statuses</option>
+          {TESTIMONIAL_STATUSES.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.label}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Filter by tag"
+          value={tag}
+          onChange={(e) => setTag(e.target.value)}
+        >
+          <option value="">All tags</option>
+          {tags.map((t) => (
+            <option key={t} value={t}>
+              {t}
+            </option>
+          ))}
+        </select>
+        <label className="check">
+          <input
+            type="checkbox"
+            checked={unusedOnly}
+            onChange={(e) => setUnusedOnly(e.target.checked)}
+          />
+          Not used yet
+        </label>
+      </div>
+
+      <div className="layout">
+        {!loading && visible.length === 0 ? (
+          <div className="empty">
+            {entries.length === 0
+              ? "No testimonials yet. Add one, or save a batch import from the generator."
+              : "No testimonials match these filters."}
+          </div>
+        ) : (
+          <ul className="list">
+            {visible.map((entry) => {
+              const uses = testimonialUses(entry);
+              return (
+                <li
+                  key={entry.id}
+                  className={`entry${editing === entry.id ? " active" : ""}`}
+                >
+                  <blockquote dir="auto">{entry.quote}</blockquote>
+                  <div className="meta">
+                    {entry.author || "Anonymous"}
+                    {entry.rating !== undefined
+                      ? ` · ${ratingLabel(entry.rating)}`
+                      : ""}
+                    {entry.source ? ` · ${badgeText(entry.source)}` : ""}
+                  </div>
+                  {entry.tags.length ? (
+                    <div className="tags">
+                      {entry.tags.map((t) => (
+                        <span key={t} className="tag">
+                          {t}
+                        </span>
+                      ))}
+                    </div>
+                  ) : null}
+                  <div className="uses">
+                    {uses.length ? (
+                      <>
+                        Used in {uses.length} card{uses.length > 1 ? "s" : ""}:{" "}
+                        {uses.map((u, i) => (
+                          <span key={u.cardId}>
+                            {i ? ", " : ""}
+                            <Link href={cardPath(u.cardId, u.wall)}>
+                              {new Date(u.usedAt).toLocaleDateString()}
+                            </Link>
+                          </span>
+                        ))}
+                      </>
+                    ) : (
+                      "Not made into a card yet"
+                    )}
+                  </div>
+                  <div className="row-actions">
+                    <Link
+                      href={`/praiseGenerator?testimonial=${encodeURIComponent(entry.id)}`}
+                      className="use"
+                    >
+                      Use in generator →
+                    </Link>
+                    <select
+                      aria-label="Status"
+                      value={entry.status}
+                      disabled={busy}
+                      onChange={(e) =>
+                        setEntryStatus(
+                          entry,
+                          e.target.value as TestimonialStatus,
+                        )
+                      }
+                    >
+                      {TESTIMONIAL_STATUSES.map((s) => (
+                        <option key={s.id} value={s.id}>
+                          {s.label}
+                        </option>
+                      ))}
+                    </select>
+                    <button className="action" onClick={() => edit(entry)}>
+                      Edit
+                    </button>
+                    <button
+                      className="action reject"
+                      disabled={busy}
+                      onClick={() => remove(entry)}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="form">
+          <div className="form-group">
+            <label>Quote</label>
+            <textarea
+              dir="auto"
+              value={form.quote}
+              placeholder="What did they say?"
+              onChange={(e) => set({ quote: e.target.value })}
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Author</label>
+            <input
+              type="text"
+              dir="auto"
+              value={form.author}
+              placeholder="Faith Anazodo"
+              onChange={(e) => set({ author: e.target.value })}
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Rating</label>
+            <select
+              value={form.rating}
+              onChange={(e) => set({ rating: e.target.value })}
+            >
+              <option value="">No rating</option>
+              {RATING_OPTIONS.map((r) => (
+                <option key={r} value={r}>
+                  {ratingLabel(r)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label>Source</label>
+            <select
+              value={form.sourceKind}
+              onChange={(e) => set({ sourceKind: e.target.value })}
+            >
+              <option value="">None</option>
+              {SOURCES.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={form.sourceDate}
+              disabled={!form.sourceKind}
+              onChange={(e) => set({ sourceDate: e.target.value })}
+            />
+            <label className="check">
+              <input
+                type="checkbox"
+                checked={form.sourceVerified}
+                disabled={!form.sourceKind}
+                onChange={(e) => set({ sourceVerified: e.target.checked })}
+              />
+              Verified
+            </label>
+          </div>
+
+          <div className="form-group">
+            <label>Tags</label>
+            <input
+              type="text"
+              value={form.tags}
+              placeholder="onboarding, support"
+              onChange={(e) => set({ tags: e.target.value })}
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Status</label>
+            <select
+              value={form.status}
+              onChange={(e) =>
+                set({ status: e.target.value as TestimonialStatus })
+              }
+            >
+              {TESTIMONIAL_STATUSES.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="btn-row">
+            <button
+              className="btn primary"
+              disabled={busy || !form.quote.trim()}
+              onClick={save}
+            >
+              {editing ? "Save changes" : "Add to library"}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {toast ? <div className="toast show">{toast}</div> : null}
+
+      <style jsx>{`
+        .library {
+          max-width: 1100px;
+          margin: 0 auto;
+          padding: 36px 18px 90px;
+        }
+
+        .topbar {
+          display: flex;
+          align-items: center;
+          gap: 14px;
+          margin-bottom: 14px;
+          padding: 0;
+        }
+
+        .topbar .count {
+          flex: 1;
+          font-size: 13px;
+          font-weight: 700;
+          color: #6e6e73;
+        }
+
+        .filters {
+          display: flex;
+          gap: 10px;
+          align-items: center;
+          margin-bottom: 18px;
+        }
+
+        .filters select {
+          width: auto;
+          padding: 8px 10px;
+        }
+
+        .check {
+          display: flex;
+          gap: 8px;
+          align-items: center;
+          text-transform: none;
+          letter-spacing: 0;
+          color: #1d1d1f;
+        }
+
+        .layout {
+          display: grid;
+          grid-template-columns: 1fr 340px;
+          gap: 18px;
+          align-items: start;
+        }
+
+        .empty {
+          text-align: center;
+          padding: 70px 10px;
+          color: #6b7280;
+        }
+
+        .list {
+          list-style: none;
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+        }
+
+        .entry {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+          padding: 16px;
+          border-radius: 16px;
+          border: 1px solid rgba(0, 0, 0, 0.06);
+          background: rgba(255, 255, 255, 0.92);
+        }
+
+        .entry.active {
+          border-color: #ea436b;
+        }
+
+        .entry blockquote {
+          font-size: 15px;
+          line-height: 1.45;
+          white-space: pre-wrap;
+        }
+
+        .meta,
+        .uses {
+          font-size: 12px;
+          color: #6e6e73;
+        }
+
+        .uses :global(a),
+        .row-actions :global(.use) {
+          color: #ea436b;
+          font-weight: 700;
+          text-decoration: none;
+        }
+
+        .tags {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 6px;
+        }
+
+        .tag {
+          padding: 3px 8px;
+          border-radius: 999px;
+          background: rgba(234, 67, 107, 0.1);
+          font-size: 11px;
+          font-weight: 700;
+          color: #ea436b;
+        }
+
+        .row-actions {
+          display: flex;
+          gap: 8px;
+          align-items: center;
+          font-size: 13px;
+        }
+
+        .row-actions :global(.use) {
+          flex: 1;
+        }
+
+        .row-actions select {
+          width: auto;
+          padding: 6px 8px;
+        }
+
+        .form {
+          position: sticky;
+          top: 18px;
+          display: flex;
+          flex-direction: column;
+          gap: 16px;
+          padding: 22px;
+          border-radius: 16px;
+          background: rgba(255, 255, 255, 0.95);
+          box-shadow: 0 10px 22px rgba(0, 0, 0, 0.08);
+        }
+
+        .action {
+          padding: 8px 14px;
+          background: rgba(255, 255, 255, 0.92);
+          border: 1px solid rgba(0, 0, 0, 0.08);
+          border-radius: 10px;
+          font-size: 13px;
+          font-weight: 750;
+          cursor: pointer;
+          color: #1d1d1f;
+        }
+
+        .action:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+
+        .action.reject {
+          border-color: #e53e3e;
+          color: #e53e3e;
+        }
+
+        @media (max-width: 780px) {
+          .layout {
+            grid-template-columns: 1fr;
+          }
+
+          .form {
+            position: static;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
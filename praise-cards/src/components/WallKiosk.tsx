@@ -0,0 +1,498 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { paintWhenReady } from "@/lib/cards/images";
+import { renderStoredCard } from "@/lib/cards/renderer";
+import type { CardData } from "@/lib/cards/types";
+import {
+  getCardRepository,
+  type CardChange,
+  type WallSettings,
+} from "@/lib/storage";
+import { filtersFromParams, matchesFilters } from "@/lib/storage/filters";
+import {
+  addToDeck,
+  EMPTY_DECK,
+  KIOSK_INTERVALS,
+  KIOSK_ORDERS,
+  KIOSK_TRANSITIONS,
+  kioskFromParams,
+  kioskToParams,
+  MAX_PER_SLIDE,
+  nextSlide,
+  previousSlide,
+  removeFromDeck,
+  startDeck,
+  type Deck,
+  type KioskOptions,
+} from "@/lib/storage/kiosk";
+import { wallHref } from "@/lib/storage/walls";
+
+// Cursor and controls hide after this long without the mouse
+const IDLE_MS = 3000;
+
+function KioskCard({ card }: { card: CardData }) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    return paintWhenReady(card, (images) =>
+      renderStoredCard(canvas, card, images),
+    );
+  }, [card]);
+
+  return <canvas ref={canvasRef} className="kioskCard" />;
+}
+
+export default function WallKiosk({ wall }: { wall: WallSettings }) {
+  const searchParams = useSearchParams();
+  const [filters] = useState(() =>
+    filtersFromParams(new URLSearchParams(searchParams.toString())),
+  );
+  const [options, setOptions] = useState<KioskOptions>(() =>
+    kioskFromParams(new URLSearchParams(searchParams.toString())),
+  );
+  const [cards, setCards] = useState<CardData[]>([]);
+  const [loading, setLoading] = useState(true);
+  // the slide on screen, the one it replaces (kept underneath while the
+  // transition runs) and a counter that restarts the timer on every change
+  const [show, setShow] = useState<{
+    deck: Deck;
+    previous: string[];
+    step: number;
+  }>({ deck: EMPTY_DECK, previous: [], step: 0 });
+  const [paused, setPaused] = useState(false);
+  const [active, setActive] = useState(true);
+
+  const cardsRef = useRef<CardData[]>([]);
+  const optionsRef = useRef(options);
+
+  useEffect(() => {
+    cardsRef.current = cards;
+  }, [cards]);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  }, [options]);
+
+  // cards the slideshow may show (the URL filters apply here too)
+  function pool() {
+    return cardsRef.current.filter((c) => matchesFilters(c, filters));
+  }
+
+  // ---------- load, then follow live changes ----------
+  useEffect(() => {
+    let disposed = false;
+    let stop: (() => void) | undefined;
+    const repo = getCardRepository();
+
+    function onChange(change: CardChange) {
+      if (change.type === "removed") {
+        cardsRef.current = cardsRef.current.filter((c) => c.id !== change.id);
+        setCards(cardsRef.current);
+        setShow((s) => ({ ...s, deck: removeFromDeck(s.deck, change.id) }));
+        return;
+      }
+      const { card } = change;
+      const known = cardsRef.current.some((c) => c.id === card.id);
+      cardsRef.current = known
+        ? cardsRef.current.map((c) => (c.id === card.id ? card : c))
+        : [...cardsRef.current, card];
+      setCards(cardsRef.current);
+      if (!known && matchesFilters(card, filters)) {
+        setShow((s) => ({ ...s, deck: addToDeck(s.deck, card.id) }));
+      }
+    }
+
+    (async () => {
+      try {
+        const all = await repo.listApprovedSince(wall.slug);
+        if (disposed) return;
+        cardsRef.current = all;
+        setCards(all);
+        setShow((s) => ({
+          deck: startDeck(pool(), optionsRef.current),
+          previous: [],
+          step: s.step + 1,
+        }));
+        stop = repo.watchApproved(wall.slug, undefined, onChange);
+      } catch (e) {
+        console.error("kiosk load error", e);
+      } finally {
+        if (!disposed) setLoading(false);
+      }
+    })();
+
+    return () => {
+      disposed = true;
+      stop?.();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [wall.slug]);
+
+  function advance(back = false) {
+    setShow((s) => ({
+      deck: back
+        ? previousSlide(s.deck, optionsRef.current)
+        : nextSlide(s.deck, pool(), optionsRef.current),
+      previous: s.deck.slide,
+      step: s.step + 1,
+    }));
+  }
+
+  // ---------- timer ----------
+  // An empty screen moves on as soon as a card arrives
+  const waiting = show.deck.slide.length === 0 && show.deck.order.length > 0;
+
+  useEffect(() => {
+    if (loading || (paused && !waiting)) return;
+    const t = window.setTimeout(
+      () => advance(),
+      waiting ? 0 : options.interval * 1000,
+    );
+    return () => window.clearTimeout(t);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [show.step, loading, paused, waiting, options.interval]);
+
+  // ---------- idle cursor and controls ----------
+  useEffect(() => {
+    let t = window.setTimeout(() => setActive(false), IDLE_MS);
+    function onMove() {
+      setActive(true);
+      window.clearTimeout(t);
+      t = window.setTimeout(() => setActive(false), IDLE_MS);
+    }
+    window.addEventListener("mousemove", onMove);
+    window.addEventListener("touchstart", onMove);
+    return () => {
+      window.clearTimeout(t);
+      window.removeEventListener("mousemove", onMove);
+      window.removeEventListener("touchstart", onMove);
+    };
+  }, []);
+
+  // ---------- keyboard ----------
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      if (e.target instanceof HTMLSelectElement) return;
+      if (e.key === "ArrowRight") advance();
+      else if (e.key === "ArrowLeft") advance(true);
+      else if (e.key === " ") {
+        e.preventDefault();
+        setPaused((p) => !p);
+      } else if (e.key === "f") toggleFullscreen();
+    }
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // ---------- keep the screen awake where supported ----------
+  useEffect(() => {
+    let lock: WakeLockSentinel | null = null;
+    let disposed = false;
+    async function request() {
+      if (document.visibilityState !== "visible" || !navigator.wakeLock) {
+        return;
+      }
+      try {
+        const next = await navigator.wakeLock.request("screen");
+        if (disposed) next.release();
+        else lock = next;
+      } catch {
+        // denied (battery saver, no user gesture yet); the TV's own settings apply
+      }
+    }
+    request();
+    document.addEventListener("visibilitychange", request);
+    return () => {
+      disposed = true;
+      document.removeEventListener("visibilitychange", request);
+      lock?.release();
+    };
+  }, []);
+
+  function toggleFullscreen() {
+    if (document.fullscreenElement) document.exitFullscreen();
+    else document.documentElement.requestFullscreen().catch(() => undefined);
+  }
+
+  // Keeps the URL in step, like the wall filters
+  function setOption(patch: Partial<KioskOptions>) {
+    const next = { ...options, ...patch };
+    setOptions(next);
+    optionsRef.current = next;
+    const query = kioskToParams(
+      next,
+      new URLSearchParams(window.location.search),
+    ).toString();
+    window.history.replaceState(
+      null,
+      "",
+      query ? `${window.location.pathname}?${query}` : window.location.pathname,
+    );
+    // a new order or slide size starts a fresh pass
+    if (patch.order || patch.perSlide) {
+      setShow((s) => ({
+        deck: startDeck(pool(), next),
+        previous: s.deck.slide,
+        step: s.step + 1,
+      }));
+    }
+  }
+
+  const byId = new Map(cards.map((c) => [c.id, c]));
+  const slideCards = (ids: string[]) =>
+    ids.map((id) => byId.get(id)).filter((c): c is CardData => !!c);
+  const current = slideCards(show.deck.slide);
+  const previous =
+    options.transition === "none" ? [] : slideCards(show.previous);
+
+  return (
+    <div
+      className={`kiosk${active ? " active" : ""}`}
+      style={wall.background ? { background: wall.background } : undefined}
+    >
+      {previous.length > 0 ? (
+        <div
+          key={`previous-${show.step}`}
+          className={`slide leave-${options.transition}`}
+          style={{ gridTemplateColumns: `repeat(${previous.length}, 1fr)` }}
+          aria-hidden="true"
+        >
+          {previous.map((card) => (
+            <KioskCard key={card.id} card={card} />
+          ))}
+        </div>
+      ) : null}
+
+      {current.length > 0 ? (
+        <div
+          key={`slide-${show.step}`}
+          className={`slide enter-${options.transition}`}
+          style={{ gridTemplateColumns: `repeat(${current.length}, 1fr)` }}
+        >
+          {current.map((card) => (
+            <KioskCard key={card.id} card={card} />
+          ))}
+        </div>
+      ) : (
+        <div className="message">
+          {loading ? "Loading…" : "Waiting for the first card…"}
+        </div>
+      )}
+
+      <div className="controls" aria-hidden={!active}>
+        <Link href={wallHref(wall.slug)} className="control">
+          ← {wall.title}
+        </Link>
+        <button className="control" onClick={() => advance(true)}>
+          ‹ Prev
+        </button>
+        <button className="control" onClick={() => setPaused((p) => !p)}>
+          {paused ? "▶ Play" : "❚❚ Pause"}
+        </button>
+        <button className="control" onClick={() => advance()}>
+          Next ›
+        </button>
+        <select
+          className="control"
+          aria-label="Seconds per slide"
+          value={options.interval}
+          onChange={(e) => setOption({ interval: Number(e.target.value) })}
+        >
+          {[...new Set([...KIOSK_INTERVALS, options.interval])]
+            .sort((a, b) => a - b)
+            .map((s) => (
+              <option key={s} value={s}>
+                {s}s
+              </option>
+            ))}
+        </select>
+        <select
+          className="control"
+          aria-label="Cards per slide"
+          value={options.perSlide}
+          onChange={(e) => setOption({ perSlide: Number(e.target.value) })}
+        >
+          {Array.from({ length: MAX_PER_SLIDE }, (_, i) => i + 1).map((n) => (
+            <option key={n} value={n}>
+              {n} per slide
+            </option>
+          ))}
+        </select>
+        <select
+          className="control"
+          aria-label="Order"
+          value={options.order}
+          onChange={(e) =>
+            setOption({ order: e.target.value as KioskOptions["order"] })
+          }
+        >
+          {KIOSK_ORDERS.map((o) => (
+            <option key={o.id} value={o.id}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+        <select
+          className="control"
+          aria-label="Transition"
+          value={options.transition}
+          onChange={(e) =>
+            setOption({
+              transition: e.target.value as KioskOptions["transition"],
+            })
+          }
+        >
+          {KIOSK_TRANSITIONS.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.label}
+            </option>
+          ))}
+        </select>
+        <button className="control" onClick={toggleFullscreen}>
+          ⛶ Fullscreen
+        </button>
+      </div>
+
+      <style jsx>{`
+        .kiosk {
+          position: fixed;
+          inset: 0;
+          z-index: 10;
+          overflow: hidden;
+          background: #0b0b0f;
+          cursor: none;
+          font-family:
+            -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+        }
+
+        .kiosk.active {
+          cursor: default;
+        }
+
+        .slide {
+          position: absolute;
+          inset: 0;
+          display: grid;
+          align-items: center;
+          justify-items: center;
+          gap: 3vw;
+          padding: 4vh 4vw;
+        }
+
+        .slide :global(.kioskCard) {
+          display: block;
+          max-width: 100%;
+          max-height: 92vh;
+          border-radius: 18px;
+          box-shadow: 0 24px 60px rgba(0, 0, 0, 0.35);
+        }
+
+        .leave-fade,
+        .leave-zoom {
+          animation: kioskFadeOut 900ms ease both;
+        }
+
+        .leave-slide {
+          animation: kioskSlideOut 900ms cubic-bezier(0.22, 1, 0.36, 1) both;
+        }
+
+        .enter-fade {
+          animation: kioskFade 900ms ease both;
+        }
+
+        .enter-slide {
+          animation: kioskSlide 900ms cubic-bezier(0.22, 1, 0.36, 1) both;
+        }
+
+        .enter-zoom {
+          animation: kioskZoom 900ms ease both;
+        }
+
+        @keyframes kioskFade {
+          from {
+            opacity: 0;
+          }
+        }
+
+        @keyframes kioskSlide {
+          from {
+            transform: translateX(100%);
+          }
+        }
+
+        @keyframes kioskFadeOut {
+          to {
+            opacity: 0;
+          }
+        }
+
+        @keyframes kioskSlideOut {
+          to {
+            transform: translateX(-100%);
+          }
+        }
+
+        @keyframes kioskZoom {
+          from {
+            opacity: 0;
+            transform: scale(0.92);
+          }
+        }
+
+        .message {
+          position: absolute;
+          inset: 0;
+          display: grid;
+          place-items: center;
+          color: rgba(255, 255, 255, 0.7);
+          font-size: 22px;
+        }
+
+        .controls {
+          position: absolute;
+          left: 50%;
+          bottom: 22px;
+          transform: translateX(-50%);
+          display: flex;
+          flex-wrap: wrap;
+          justify-content: center;
+          gap: 8px;
+          padding: 10px;
+          border-radius: 16px;
+          background: rgba(17, 24, 39, 0.82);
+          opacity: 0;
+          pointer-events: none;
+          transition: opacity 300ms ease;
+        }
+
+        .kiosk.active .controls {
+          opacity: 1;
+          pointer-events: auto;
+        }
+
+        .controls :global(.control) {
+          padding: 8px 12px;
+          border: 1px solid rgba(255, 255, 255, 0.18);
+          border-radius: 10px;
+          background: rgba(255, 255, 255, 0.08);
+          color: #fff;
+          font-family: inherit;
+          font-size: 13px;
+          font-weight: 700;
+          text-decoration: none;
+          cursor: pointer;
+        }
+
+        .controls select.control option {
+          color: #1d1d1f;
+        }
+      `}</style>
+    </div>
+  );
+}
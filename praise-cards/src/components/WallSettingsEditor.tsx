@@ -0,0 +1,283 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { STYLE_PACKS } from "@/lib/cards/design";
+import {
+  getCardRepository,
+  isValidWallSlug,
+  type WallSettings,
+} from "@/lib/storage";
+import { dropUndefined } from "@/lib/storage/records";
+import { wallHref } from "@/lib/storage/walls";
+
+const EMPTY: WallSettings = {
+  slug: "",
+  title: "",
+  logoUrl: "",
+  background: "",
+  stylePack: "balanced",
+};
+
+export default function WallSettingsEditor() {
+  const [walls, setWalls] = useState<WallSettings[]>([]);
+  // slug being edited; null = creating a new wall
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<WallSettings>(EMPTY);
+  const [busy, setBusy] = useState(false);
+  const [toast, setToast] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!toast) return;
+    const t = window.setTimeout(() => setToast(null), 2200);
+    return () => window.clearTimeout(t);
+  }, [toast]);
+
+  async function load() {
+    try {
+      setWalls(await getCardRepository().listWalls());
+    } catch (e) {
+      console.error("listWalls error", e);
+      setToast("Could not load walls");
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  function edit(wall: WallSettings | null) {
+    setEditing(wall?.slug ?? null);
+    setForm(wall ? { ...EMPTY, ...wall } : EMPTY);
+  }
+
+  const set = (patch: Partial<WallSettings>) =>
+    setForm((prev) => ({ ...prev, ...patch }));
+
+  const isNew = editing === null;
+  const slugTaken = isNew && walls.some((w) => w.slug === form.slug);
+  const valid = isValidWallSlug(form.slug) && !!form.title.trim() && !slugTaken;
+
+  async function save() {
+    setBusy(true);
+    try {
+      const settings = dropUndefined<WallSettings>({
+        slug: form.slug,
+        title: form.title.trim(),
+        logoUrl: form.logoUrl?.trim() || undefined,
+        background: form.background?.trim() || undefined,
+        stylePack: form.stylePack || undefined,
+      });
+
+      await getCardRepository().saveWall(settings);
+      setToast("Wall saved");
+      setEditing(settings.slug);
+      await load();
+    } catch (e) {
+      console.error("saveWall error", e);
+      setToast("Save failed. Check the card store config.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="walls">
+      <div className="topbar">
+        <h1>Walls</h1>
+        <button className="action" onClick={() => edit(null)}>
+          New wall
+        </button>
+      </div>
+
+      <div className="layout">
+        <ul className="list">
+          {walls.map((w) => (
+            <li key={w.slug}>
+              <button
+                className={`wallItem${editing === w.slug ? " active" : ""}`}
+                onClick={() => edit(w)}
+              >
+                <strong>{w.title}</strong>
+                <span>{wallHref(w.slug)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="form">
+          <div className="form-group">
+            <label>Slug</label>
+            <input
+              type="text"
+              value={form.slug}
+              disabled={!isNew}
+              placeholder="my-product"
+              onChange={(e) => set({ slug: e.target.value.toLowerCase() })}
+            />
+            {isNew && form.slug && !isValidWallSlug(form.slug) ? (
+              <div className="hint">
+                Lowercase letters, numbers and dashes only.
+              </div>
+            ) : null}
+            {slugTaken ? <div className="hint">That slug is taken.</div> : null}
+          </div>
+
+          <div className="form-group">
+            <label>Title</label>
+            <input
+              type="text"
+              value={form.title}
+              placeholder="❤️ My Product Wall"
+              onChange={(e) => set({ title: e.target.value })}
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Header Logo URL</label>
+            <input
+              type="text"
+              value={form.logoUrl ?? ""}
+              placeholder="https://example.com/logo.svg"
+              onChange={(e) => set({ logoUrl: e.target.value })}
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Page Background (CSS)</label>
+            <input
+              type="text"
+              value={form.background ?? ""}
+              placeholder="linear-gradient(135deg, #ffcdd2 0%, #ffffff 100%)"
+              onChange={(e) => set({ background: e.target.value })}
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Default Style Pack</label>
+            <select
+              value={form.stylePack ?? "balanced"}
+              onChange={(e) => set({ stylePack: e.target.value })}
+            >
+              {Object.keys(STYLE_PACKS).map((key) => (
+                <option key={key} value={key}>
+                  {key[0].toUpperCase() + key.slice(1)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="btn-row">
+            <button
+              className="btn primary"
+              disabled={busy || !valid}
+              onClick={save}
+            >
+              {isNew ? "Create wall" : "Save changes"}
+            </button>
+          </div>
+
+          {!isNew ? (
+            <Link href={wallHref(form.slug)} className="viewLink">
+              View wall →
+            </Link>
+          ) : null}
+        </div>
+      </div>
+
+      {toast ? <div className="toast show">{toast}</div> : null}
+
+      <style jsx>{`
+        .walls {
+          max-width: 980px;
+          margin: 0 auto;
+          padding: 36px 18px 90px;
+        }
+
+        .topbar {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          margin-bottom: 22px;
+          padding: 0;
+        }
+
+        .layout {
+          display: grid;
+          grid-template-columns: 260px 1fr;
+          gap: 18px;
+          align-items: start;
+        }
+
+        .list {
+          list-style: none;
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+
+        .wallItem {
+          width: 100%;
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
+          text-align: left;
+          padding: 12px 14px;
+          border-radius: 12px;
+          border: 1px solid rgba(0, 0, 0, 0.06);
+          background: rgba(255, 255, 255, 0.85);
+          cursor: pointer;
+          font: inherit;
+        }
+
+        .wallItem span {
+          font-size: 12px;
+          color: #6e6e73;
+        }
+
+        .wallItem.active {
+          border-color: #ea436b;
+        }
+
+        .form {
+          display: flex;
+          flex-direction: column;
+          gap: 16px;
+          padding: 22px;
+          border-radius: 16px;
+          background: rgba(255, 255, 255, 0.95);
+          box-shadow: 0 10px 22px rgba(0, 0, 0, 0.08);
+        }
+
+        .hint {
+          font-size: 12px;
+          color: #e53e3e;
+        }
+
+        .action {
+          padding: 10px 16px;
+          background: rgba(255, 255, 255, 0.92);
+          border: 1px solid rgba(0, 0, 0, 0.08);
+          border-radius: 10px;
+          font-size: 13px;
+          font-weight: 750;
+          cursor: pointer;
+          color: #1d1d1f;
+        }
+
+        .form :global(.viewLink) {
+          font-size: 13px;
+          font-weight: 700;
+          color: #ea436b;
+          text-decoration: none;
+        }
+
+        @media (max-width: 780px) {
+          .layout {
+            grid-template-columns: 1fr;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { initializeApp } from "firebase/app";
-import { getDatabase } from "firebase/database";
+import { connectDatabaseEmulator, getDatabase } from "firebase/database";
 
 // TODO: Replace with your Firebase credentials
 // Get these from Firebase Console > Project Settings
@@ -13,5 +13,14 @@ const firebaseConfig = {
   databaseURL: "https://shiksha-aid-default-rtdb.firebaseio.com",
 };
 
-const app = initializeApp(firebaseConfig);
+export const app = initializeApp(firebaseConfig);
 export const database = getDatabase(app);
+
+// NEXT_PUBLIC_CARD_STORE=emulator: use `firebase emulators:start` instead of
+// the live project
+if (process.env.NEXT_PUBLIC_CARD_STORE === "emulator") {
+  const [host, port] = (
+    process.env.NEXT_PUBLIC_FIREBASE_EMULATOR_HOST ?? "127.0.0.1:9000"
+  ).split(":");
+  connectDatabaseEmulator(database, host, Number(port));
+}
@@ -0,0 +1,46 @@
+import {
+  type Auth,
+  signInWithEmailAndPassword,
+  signOut,
+  type User,
+} from "firebase/auth";
+import { type Database, get, ref } from "firebase/database";
+import type { AdminAuth, AdminUser } from "@/lib/auth/types";
+
+// Admin uids, set by hand in the Firebase console ({ "<uid>": true }). The
+// database rules check writes against the same node, so this is the real
+// gate; the admin pages just follow it.
+export const ADMINS_PATH = "admins";
+
+export class FirebaseAdminAuth implements AdminAuth {
+  readonly usesEmail = true;
+
+  constructor(
+    private readonly auth: Auth,
+    private readonly db: Database,
+  ) {}
+
+  async current() {
+    await this.auth.authStateReady();
+    return this.admin(this.auth.currentUser);
+  }
+
+  async signIn(email: string, password: string) {
+    const { user } = await signInWithEmailAndPassword(
+      this.auth,
+      email,
+      password,
+    );
+    return this.admin(user);
+  }
+
+  signOut() {
+    return signOut(this.auth);
+  }
+
+  private async admin(user: User | null): Promise<AdminUser | null> {
+    if (!user) return null;
+    const snap = await get(ref(this.db, `${ADMINS_PATH}/${user.uid}`));
+    return snap.val() === true ? { name: user.email ?? user.uid } : null;
+  }
+}
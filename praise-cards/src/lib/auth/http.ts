@@ -0,0 +1,32 @@
+import type { AdminAuth } from "@/lib/auth/types";
+
+// Password session for the local and memory stores (see auth/server.ts)
+export class HttpAdminAuth implements AdminAuth {
+  readonly usesEmail = false;
+
+  constructor(private readonly url = "/api/admin/session") {}
+
+  async current() {
+    const res = await fetch(this.url);
+    if (!res.ok) throw new Error(`GET ${this.url} failed: ${res.status}`);
+    const { admin } = (await res.json()) as { admin: boolean };
+    return admin ? { name: "Admin" } : null;
+  }
+
+  async signIn(_email: string, password: string) {
+    const res = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ password }),
+    });
+    if (!res.ok) {
+      const { error } = await res.json().catch(() => ({ error: null }));
+      throw new Error(error ?? `Sign-in failed: ${res.status}`);
+    }
+    return { name: "Admin" };
+  }
+
+  async signOut() {
+    await fetch(this.url, { method: "DELETE" });
+  }
+}
@@ -0,0 +1,29 @@
+import { connectAuthEmulator, getAuth } from "firebase/auth";
+import { app, database } from "@/config/firebase";
+import { FirebaseAdminAuth } from "@/lib/auth/firebase";
+import { HttpAdminAuth } from "@/lib/auth/http";
+import type { AdminAuth } from "@/lib/auth/types";
+import { storeMode } from "@/lib/storage";
+
+export type { AdminAuth, AdminUser } from "@/lib/auth/types";
+
+let adminAuth: AdminAuth | null = null;
+
+// Admin sign-in for client components, matching the card store
+export function getAdminAuth(): AdminAuth {
+  if (adminAuth) return adminAuth;
+
+  const mode = storeMode();
+  if (mode === "local" || mode === "memory") {
+    adminAuth = new HttpAdminAuth();
+  } else {
+    const auth = getAuth(app);
+    if (mode === "emulator") {
+      const host =
+        process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST ?? "127.0.0.1:9099";
+      connectAuthEmulator(auth, `http://${host}`, { disableWarnings: true });
+    }
+    adminAuth = new FirebaseAdminAuth(auth, database);
+  }
+  return adminAuth;
+}
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  adminRequired,
+  checkAdminPassword,
+  isAdminRequest,
+  sessionCookie,
+} from "@/lib/auth/server";
+
+// The cookie a browser sends back after sign-in
+function withSession(setCookie: string) {
+  const [pair] = setCookie.split(";");
+  return new Request("http://localhost/api/store/pending", {
+    headers: { cookie: `theme=dark; ${pair}` },
+  });
+}
+
+describe("admin session", () => {
+  beforeEach(() => vi.stubEnv("ADMIN_PASSWORD", "s3cret"));
+  afterEach(() => vi.unstubAllEnvs());
+
+  it("checks the password", () => {
+    expect(checkAdminPassword("s3cret")).toBe(true);
+    expect(checkAdminPassword("s3cre")).toBe(false);
+    expect(checkAdminPassword("")).toBe(false);
+  });
+
+  it("lets a signed-in request through and turns others away", async () => {
+    expect(isAdminRequest(withSession(sessionCookie(true)))).toBe(true);
+    expect(adminRequired(withSession(sessionCookie(true)))).toBeNull();
+
+    const denied = adminRequired(new Request("http://localhost/"));
+    expect(denied?.status).toBe(401);
+    expect(isAdminRequest(withSession(sessionCookie(false)))).toBe(false);
+    expect(isAdminRequest(withSession("praise_admin=forged"))).toBe(false);
+  });
+
+  it("ends sessions when the password changes", () => {
+    const request = withSession(sessionCookie(true));
+    vi.stubEnv("ADMIN_PASSWORD", "rotated");
+    expect(isAdminRequest(request)).toBe(false);
+  });
+
+  it("refuses everyone without ADMIN_PASSWORD", () => {
+    const request = withSession(sessionCookie(true));
+    vi.stubEnv("ADMIN_PASSWORD", "");
+    expect(checkAdminPassword("")).toBe(false);
+    expect(isAdminRequest(request)).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+// Admin sessions for the local and memory stores: signing in with
+// ADMIN_PASSWORD sets an HttpOnly cookie that the /api/store handlers check.
+// Changing the password signs everyone out.
+
+export const ADMIN_COOKIE = "praise_admin";
+const SESSION_DAYS = 7;
+
+function adminPassword() {
+  return process.env.ADMIN_PASSWORD || null;
+}
+
+function sign(value: string, key: string) {
+  return createHmac("sha256", key).update(value).digest();
+}
+
+function sameBytes(a: Buffer, b: Buffer) {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// The cookie value for the current password
+function sessionToken(password: string) {
+  return sign("praise-cards admin session", password).toString("hex");
+}
+
+export function isAdminEnabled() {
+  return adminPassword() !== null;
+}
+
+// Compares HMACs so the check takes the same time whatever was typed
+export function checkAdminPassword(attempt: string) {
+  const password = adminPassword();
+  if (!password) return false;
+  const key = "praise-cards admin password";
+  return sameBytes(sign(attempt, key), sign(password, key));
+}
+
+function cookieValue(request: Request, name: string) {
+  for (const part of (request.headers.get("cookie") ?? "").split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) return rest.join("=");
+  }
+  return null;
+}
+
+export function isAdminRequest(request: Request) {
+  const password = adminPassword();
+  const token = cookieValue(request, ADMIN_COOKIE);
+  if (!password || !token) return false;
+  return sameBytes(Buffer.from(token), Buffer.from(sessionToken(password)));
+}
+
+// Handlers that change the store, read the moderation queue or the library
+// start with this
+export function adminRequired(request: Request) {
+  return isAdminRequest(request)
+    ? null
+    : Response.json({ error: "Admin sign-in required" }, { status: 401 });
+}
+
+// Set-Cookie for a new session, or one that clears it
+export function sessionCookie(signIn: boolean) {
+  const password = adminPassword();
+  const attrs = [
+    "Path=/",
+    "HttpOnly",
+    "SameSite=Lax",
+    ...(process.env.NODE_ENV === "production" ? ["Secure"] : []),
+  ];
+  return signIn && password
+    ? [
+        `${ADMIN_COOKIE}=${sessionToken(password)}`,
+        `Max-Age=${SESSION_DAYS * 24 * 60 * 60}`,
+        ...attrs,
+      ].join("; ")
+    : [`${ADMIN_COOKIE}=`, "Max-Age=0", ...attrs].join("; ");
+}
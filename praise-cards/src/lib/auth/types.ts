@@ -0,0 +1,13 @@
+// Who may use the admin pages (moderation, walls, brand kit, library)
+
+export type AdminUser = { name: string };
+
+export interface AdminAuth {
+  // Whether sign-in asks for an email as well as a password
+  readonly usesEmail: boolean;
+  // The signed-in admin; null when signed out or not an admin
+  current(): Promise<AdminUser | null>;
+  // Throws on a wrong password; null when the account isn't an admin
+  signIn(email: string, password: string): Promise<AdminUser | null>;
+  signOut(): Promise<void>;
+}
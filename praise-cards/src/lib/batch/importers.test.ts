@@ -0,0 +1,155 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import {
+  dedupeReviews,
+  detectImporter,
+  filterReviews,
+  reviewLanguages,
+  type Review,
+} from "@/lib/batch/importers";
+import { decodeText, parseTestimonialFile } from "@/lib/batch/parse";
+
+// Decodes and parses a review export the way the generator's file picker does
+function importFixture(name: string) {
+  const bytes = readFileSync(new URL(`fixtures/${name}`, import.meta.url));
+  const text = decodeText(new Uint8Array(bytes).buffer);
+  const table = parseTestimonialFile(name, text);
+  const importer = detectImporter(table);
+  const reviews = table.rows.flatMap((row) => importer?.read(row) ?? []);
+  return { importer: importer?.id, reviews };
+}
+
+describe("review exports", () => {
+  it("reads an App Store Connect API response", () => {
+    const { importer, reviews } = importFixture("app-store-connect.json");
+    expect(importer).toBe("app-store-connect");
+    expect(reviews).toEqual([
+      {
+        id: "00000054-0f6c-4d2b-a1e9-7b3d5c8e2f01",
+        quote: "Set up our whole onboarding flow in an afternoon!",
+        author: "priya_n",
+        rating: 5,
+        source: { kind: "app-store", date: "2026-01-05" },
+      },
+      {
+        id: "00000054-0f6c-4d2b-a1e9-7b3d5c8e2f02",
+        quote: "Crashes every time I export a video.",
+        author: "tom.b",
+        rating: 2,
+        source: { kind: "app-store", date: "2026-01-04" },
+      },
+      // no body: the title stands in
+      {
+        id: "00000054-0f6c-4d2b-a1e9-7b3d5c8e2f03",
+        quote: "Great support",
+        author: "kenji",
+        rating: 4,
+        source: { kind: "app-store", date: "2026-01-02" },
+      },
+    ]);
+  });
+
+  it("reads a UTF-16 Google Play Console CSV", () => {
+    const { importer, reviews } = importFixture("google-play.csv");
+    expect(importer).toBe("google-play");
+    // the third row has neither text nor title
+    expect(reviews).toHaveLength(3);
+    expect(reviews[0]).toEqual({
+      id: "https://play.google.com/apps/publish?account=1&reviewid=gp:AOqpTOH1",
+      quote: "Super App, endlich schöne Karten!",
+      author: "",
+      rating: 5,
+      language: "de",
+      source: { kind: "google-play", date: "2026-01-05" },
+    });
+    expect(reviews[1]).toMatchObject({ rating: 1, language: "en" });
+  });
+
+  it("reads a Trustpilot Business CSV", () => {
+    const { importer, reviews } = importFixture("trustpilot.csv");
+    expect(importer).toBe("trustpilot");
+    expect(reviews.map((r) => [r.author, r.rating, r.language])).toEqual([
+      ["Maria García", 5, "es"],
+      ["Sam Carter", 4, "en"],
+      ["Lee", 3, "en"],
+    ]);
+    expect(reviews[0]).toMatchObject({
+      id: "65a1f0c2e4b0a1b2c3d4e5f6",
+      quote: "La mejor herramienta para tarjetas, la usamos a diario.",
+      source: { kind: "trustpilot", date: "2026-01-04" },
+    });
+  });
+
+  it("leaves other spreadsheets to the column picker", () => {
+    const table = parseTestimonialFile("praise.csv", "Quote,Name\nHi,Sam\n");
+    expect(detectImporter(table)).toBeNull();
+  });
+});
+
+describe("dedupeReviews", () => {
+  it("drops repeats by store id or by quote words, keeping the first", () => {
+    const reviews = [
+      ...importFixture("app-store-connect.json").reviews,
+      ...importFixture("google-play.csv").reviews,
+      ...importFixture("trustpilot.csv").reviews,
+    ];
+    const unique = dedupeReviews(reviews);
+
+    // the Play review edited later keeps its link; the Trustpilot copy of
+    // the App Store review differs only in punctuation
+    expect(unique).toHaveLength(reviews.length - 2);
+    expect(unique.map((r) => r.quote)).not.toContain(
+      "Super App, endlich schöne Karten! (Update)",
+    );
+    expect(
+      unique.filter((r) => r.quote.startsWith("Set up our whole")),
+    ).toEqual([expect.objectContaining({ author: "priya_n" })]);
+  });
+});
+
+describe("filterReviews", () => {
+  const reviews: Review[] = [
+    { quote: "Love the templates", author: "A", rating: 5, language: "en" },
+    { quote: "Support was slow", author: "B", rating: 2, language: "en" },
+    { quote: "Plantillas preciosas", author: "C", rating: 4.5, language: "es" },
+    { quote: "Nice TEMPLATES, no rating", author: "D" },
+  ];
+  const authors = (list: Review[]) => list.map((r) => r.author);
+
+  it("passes everything with the filters off", () => {
+    expect(filterReviews(reviews, {})).toEqual(reviews);
+  });
+
+  it("keeps reviews at or above the minimum rating", () => {
+    expect(authors(filterReviews(reviews, { minRating: 4.5 }))).toEqual([
+      "A",
+      "C",
+    ]);
+  });
+
+  it("keeps one language, dropping reviews without one", () => {
+    expect(authors(filterReviews(reviews, { language: "es" }))).toEqual(["C"]);
+  });
+
+  it("matches any keyword, ignoring case and stray commas", () => {
+    expect(
+      authors(filterReviews(reviews, { keywords: " templates, ,preciosas" })),
+    ).toEqual(["A", "C", "D"]);
+  });
+
+  it("combines the filters", () => {
+    expect(
+      authors(
+        filterReviews(reviews, {
+          minRating: 4,
+          language: "en",
+          keywords: "template",
+        }),
+      ),
+    ).toEqual(["A"]);
+  });
+
+  it("lists the languages present", () => {
+    expect(reviewLanguages(reviews)).toEqual(["en", "es"]);
+  });
+});
@@ -0,0 +1,240 @@
+import type { BatchRow, TestimonialTable } from "@/lib/batch/parse";
+import { isRating } from "@/lib/cards/rating";
+import type { CardSource, SourceKind } from "@/lib/cards/types";
+import { dropUndefined } from "@/lib/storage/records";
+
+// Review exports -> batch rows, with the metadata the filters need
+
+export type Review = BatchRow & {
+  // the store's own id, when the export has one (for dedupe)
+  id?: string;
+  // primary language subtag ("en"), when known
+  language?: string;
+};
+
+export type ReviewImporter = {
+  id: string;
+  label: string;
+  // recognises the export from its column names
+  detect: (columns: string[]) => boolean;
+  // null for rows without review text
+  read: (row: Record<string, string>) => Review | null;
+};
+
+// First non-empty value among the column names a format has used over time.
+// Dotted JSON columns match by their last part ("attributes.rating").
+function pick(row: Record<string, string>, names: string[]) {
+  const keys = Object.keys(row);
+  for (const name of names) {
+    const key = name in row ? name : keys.find((k) => k.endsWith(`.${name}`));
+    if (key && row[key]) return row[key];
+  }
+  return "";
+}
+
+function hasColumns(columns: string[], ...names: string[]) {
+  return names.every((name) =>
+    columns.some((c) => c === name || c.endsWith(`.${name}`)),
+  );
+}
+
+// "4", "4.5", "4/5", "★★★★" -> 0–5 in half steps; undefined when unreadable
+export function parseRating(value: string) {
+  const stars = value.match(/★/g)?.length;
+  const n = stars ?? parseFloat(value.replace(",", "."));
+  const rating = Math.round(n * 2) / 2;
+  return isRating(rating) ? rating : undefined;
+}
+
+// ISO dates and timestamps -> "YYYY-MM-DD" (source badge format)
+function parseDate(value: string) {
+  const time = Date.parse(value);
+  return Number.isNaN(time)
+    ? undefined
+    : new Date(time).toISOString().slice(0, 10);
+}
+
+function parseLanguage(value: string) {
+  return value.split(/[-_]/)[0].toLowerCase() || undefined;
+}
+
+// The fields every format maps onto
+type ReviewFields = {
+  id?: string;
+  quote: string;
+  title?: string;
+  author: string;
+  rating: string;
+  language?: string;
+  date?: string;
+};
+
+// Shared tail of every importer; a review with only a title uses the title
+function toReview(fields: ReviewFields, kind?: SourceKind): Review | null {
+  const quote = fields.quote.trim() || (fields.title ?? "").trim();
+  if (!quote) return null;
+  const date = fields.date ? parseDate(fields.date) : undefined;
+  const rating = parseRating(fields.rating);
+  const language = fields.language ? parseLanguage(fields.language) : undefined;
+  return dropUndefined<Review>({
+    quote,
+    author: fields.author.trim(),
+    rating,
+    source: kind ? dropUndefined<CardSource>({ kind, date }) : undefined,
+    id: fields.id || undefined,
+    language,
+  });
+}
+
+// App Store Connect API customerReviews (JSON, { data: [{ attributes }] })
+const appStoreConnect: ReviewImporter = {
+  id: "app-store-connect",
+  label: "App Store Connect",
+  detect: (columns) => hasColumns(columns, "reviewerNickname", "body"),
+  read: (row) =>
+    toReview(
+      {
+        id: pick(row, ["id"]),
+        quote: pick(row, ["body"]),
+        title: pick(row, ["title"]),
+        author: pick(row, ["reviewerNickname"]),
+        rating: pick(row, ["rating"]),
+        date: pick(row, ["createdDate"]),
+      },
+      "app-store",
+    ),
+};
+
+// Google Play Console "Reviews" CSV (UTF-16, no reviewer names)
+const googlePlay: ReviewImporter = {
+  id: "google-play",
+  label: "Google Play Console",
+  detect: (columns) => hasColumns(columns, "Star Rating", "Review Text"),
+  read: (row) =>
+    toReview(
+      {
+        id: pick(row, ["Review Link"]),
+        quote: pick(row, ["Review Text"]),
+        title: pick(row, ["Review Title"]),
+        author: "",
+        rating: pick(row, ["Star Rating"]),
+        language: pick(row, ["Reviewer Language"]),
+        date: pick(row, [
+          "Review Submit Date and Time",
+          "Review Last Update Date and Time",
+        ]),
+      },
+      "google-play",
+    ),
+};
+
+// Trustpilot Business review export (CSV) or the reviews API (JSON)
+const trustpilot: ReviewImporter = {
+  id: "trustpilot",
+  label: "Trustpilot",
+  detect: (columns) =>
+    hasColumns(columns, "Review Stars") ||
+    hasColumns(columns, "stars", "consumer.displayName"),
+  read: (row) =>
+    toReview(
+      {
+        id: pick(row, ["Review Id", "id"]),
+        quote: pick(row, ["Review Content", "text"]),
+        title: pick(row, ["Review Title", "title"]),
+        author: pick(row, ["Consumer Name", "Reviewer Name", "displayName"]),
+        rating: pick(row, ["Review Stars", "stars"]),
+        language: pick(row, ["Review Language", "language"]),
+        date: pick(row, ["Review Created (UTC)", "createdAt"]),
+      },
+      "trustpilot",
+    ),
+};
+
+export const IMPORTERS: ReviewImporter[] = [
+  appStoreConnect,
+  googlePlay,
+  trustpilot,
+];
+
+export function detectImporter(table: TestimonialTable) {
+  return IMPORTERS.find((i) => i.detect(table.columns)) ?? null;
+}
+
+const RATING_HINTS = /^(rating|stars?|score)$/i;
+const LANGUAGE_HINTS = /^(lang|language|locale)$/i;
+const DATE_HINTS = /^(date|created.?(at|date)?|submitted.?at)$/i;
+
+// Any other spreadsheet or API: the picked quote/author columns, plus
+// rating/language/date columns when their names give them away
+export function genericImporter(
+  table: TestimonialTable,
+  quoteColumn: string,
+  authorColumn: string,
+): ReviewImporter {
+  const find = (hints: RegExp) =>
+    table.columns.find((c) => hints.test(c.slice(c.lastIndexOf(".") + 1)));
+  const rating = find(RATING_HINTS);
+  const language = find(LANGUAGE_HINTS);
+  const date = find(DATE_HINTS);
+  return {
+    id: "generic",
+    label: "Spreadsheet",
+    detect: () => true,
+    read: (row) =>
+      toReview({
+        quote: row[quoteColumn] ?? "",
+        author: authorColumn ? (row[authorColumn] ?? "") : "",
+        rating: rating ? row[rating] : "",
+        language: language ? row[language] : undefined,
+        date: date ? row[date] : undefined,
+      }),
+  };
+}
+
+export type ReviewFilters = {
+  minRating?: number;
+  language?: string;
+  // comma-separated; a review matches when it contains any of them
+  keywords?: string;
+};
+
+// Reviews without a rating or language only pass when that filter is off
+export function filterReviews(reviews: Review[], filters: ReviewFilters) {
+  const keywords = (filters.keywords ?? "")
+    .split(",")
+    .map((k) => k.trim().toLowerCase())
+    .filter(Boolean);
+  return reviews.filter(
+    (r) =>
+      (filters.minRating === undefined ||
+        (r.rating ?? -1) >= filters.minRating) &&
+      (!filters.language || r.language === filters.language) &&
+      (!keywords.length ||
+        keywords.some((k) => r.quote.toLowerCase().includes(k))),
+  );
+}
+
+// The words of a quote, ignoring case, punctuation and spacing
+export function quoteKey(quote: string) {
+  return quote
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+// Same store id, or the same quoteKey (the same review pasted twice, or
+// posted on two stores)
+export function dedupeReviews(reviews: Review[]) {
+  const seen = new Set<string>();
+  return reviews.filter((r) => {
+    const keys = [`text:${quoteKey(r.quote)}`, ...(r.id ? [`id:${r.id}`] : [])];
+    if (keys.some((k) => seen.has(k))) return false;
+    keys.forEach((k) => seen.add(k));
+    return true;
+  });
+}
+
+// Languages present, for the language filter
+export function reviewLanguages(reviews: Review[]) {
+  return [...new Set(reviews.flatMap((r) => r.language ?? []))].sort();
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { tableFromJson } from "@/lib/batch/parse";
+
+describe("tableFromJson", () => {
+  it("reads an array of objects, or one wrapped in an object", () => {
+    const reviews = [{ text: "Great tool", user: { name: "Sam" } }];
+    const table = {
+      columns: ["text", "user.name"],
+      rows: [{ text: "Great tool", "user.name": "Sam" }],
+    };
+    expect(tableFromJson(JSON.stringify(reviews))).toEqual(table);
+    expect(tableFromJson(JSON.stringify({ reviews }))).toEqual(table);
+  });
+
+  it("picks the longest list of objects out of a wrapper", () => {
+    const reviews = [{ text: "Great tool" }, { text: "Fast support" }];
+    const wrapped = {
+      warnings: [],
+      tags: ["a", "b", "c"],
+      included: [{ type: "response" }],
+      reviews,
+    };
+    expect(tableFromJson(JSON.stringify(wrapped)).rows).toEqual(reviews);
+  });
+
+  it.each(['"x"', "5", "null", "true"])(
+    "returns an empty table with an error for %s",
+    (text) => {
+      expect(tableFromJson(text)).toEqual({
+        columns: [],
+        rows: [],
+        error: expect.stringMatching(/unsupported JSON shape/i),
+      });
+    },
+  );
+});
@@ -0,0 +1,181 @@
+import type { CardSource } from "@/lib/cards/types";
+
+// Testimonial spreadsheets (CSV) and exports (JSON) -> rows of named columns
+
+export type TestimonialTable = {
+  columns: string[];
+  rows: Record<string, string>[];
+  // why the input gave no rows, when it's something better than "no rows"
+  error?: string;
+};
+
+// rating and source come from review exports (see importers.ts);
+// testimonialId once the row is saved to the library
+export type BatchRow = {
+  quote: string;
+  author: string;
+  rating?: number;
+  source?: CardSource;
+  testimonialId?: string;
+};
+
+// RFC 4180: quoted fields, "" escapes, newlines inside quotes, CRLF
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  // drop blank lines
+  return rows.filter((r) => r.some((c) => c.trim()));
+}
+
+// Excel in some locales saves "CSV" with semicolons or tabs
+function sniffDelimiter(text: string) {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [",", ";", "\t"].map(
+    (d) => [d, firstLine.split(d).length] as const,
+  );
+  return counts.sort((a, b) => b[1] - a[1])[0][0];
+}
+
+function tableFromCsv(text: string): TestimonialTable {
+  const [header = [], ...body] = parseCsv(text, sniffDelimiter(text));
+  const columns = header.map((h, i) => h.trim() || `Column ${i + 1}`);
+  const rows = body.map((cells) =>
+    Object.fromEntries(columns.map((c, i) => [c, (cells[i] ?? "").trim()])),
+  );
+  return { columns, rows };
+}
+
+// Nested objects become dotted columns: { attributes: { body } } -> "attributes.body"
+function flatten(
+  item: Record<string, unknown>,
+  row: Record<string, string>,
+  prefix = "",
+) {
+  for (const [key, value] of Object.entries(item)) {
+    if (value === null || Array.isArray(value)) continue;
+    if (typeof value === "object") {
+      flatten(value as Record<string, unknown>, row, `${prefix}${key}.`);
+    } else {
+      row[`${prefix}${key}`] = String(value).trim();
+    }
+  }
+  return row;
+}
+
+function isRecord(x: unknown): x is Record<string, unknown> {
+  return !!x && typeof x === "object" && !Array.isArray(x);
+}
+
+// The list inside a wrapper object: its longest array of objects, so
+// { warnings: [], reviews: [...] } reads the reviews. An object without one
+// is a single review.
+function wrappedList(data: Record<string, unknown>) {
+  const lists = Object.values(data)
+    .filter(Array.isArray)
+    .map((list) => list.filter(isRecord))
+    .filter((list) => list.length);
+  return lists.sort((a, b) => b.length - a.length)[0] ?? [data];
+}
+
+// Accepts an array of objects, or an object wrapping one ({ reviews: [...] })
+export function tableFromJson(text: string): TestimonialTable {
+  let data: unknown = JSON.parse(text);
+  if (isRecord(data)) data = wrappedList(data);
+  if (!Array.isArray(data)) {
+    return {
+      columns: [],
+      rows: [],
+      error: "Unsupported JSON shape (expected a list of reviews)",
+    };
+  }
+  const items = data.filter(isRecord);
+
+  const columns: string[] = [];
+  const rows = items.map((item) => {
+    const row = flatten(item, {});
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+    return row;
+  });
+  return { columns, rows };
+}
+
+// Google Play saves its review exports as UTF-16, so go by the byte order mark
+export function decodeText(bytes: ArrayBuffer) {
+  const head = new Uint8Array(bytes, 0, Math.min(2, bytes.byteLength));
+  const encoding =
+    head[0] === 0xff && head[1] === 0xfe
+      ? "utf-16le"
+      : head[0] === 0xfe && head[1] === 0xff
+        ? "utf-16be"
+        : "utf-8";
+  return new TextDecoder(encoding).decode(bytes);
+}
+
+export function parseTestimonialFile(
+  fileName: string,
+  text: string,
+): TestimonialTable {
+  const clean = text.replace(/^\uFEFF/, "");
+  const isJson =
+    /\.json$/i.test(fileName) || /^\s*[[{]/.test(clean.slice(0, 20));
+  return isJson ? tableFromJson(clean) : tableFromCsv(clean);
+}
+
+const QUOTE_HINTS =
+  /^(quote|review|text|body|content|comment|testimonial|message|praise|feedback)/i;
+const AUTHOR_HINTS =
+  /^(author|name|user|reviewer|customer|nickname|display.?name)/i;
+
+// Hints match the last part of a dotted column ("attributes.body" -> "body")
+const leaf = (column: string) => column.slice(column.lastIndexOf(".") + 1);
+
+// Best guess for which columns hold the quote and the author
+export function guessColumns(table: TestimonialTable) {
+  const { columns, rows } = table;
+  const avgLength = (c: string) =>
+    rows.reduce((n, r) => n + (r[c]?.length ?? 0), 0) /
+    Math.max(1, rows.length);
+
+  const quote =
+    columns.find((c) => QUOTE_HINTS.test(leaf(c))) ??
+    [...columns].sort((a, b) => avgLength(b) - avgLength(a))[0] ??
+    "";
+  const author =
+    columns.find((c) => c !== quote && AUTHOR_HINTS.test(leaf(c))) ?? "";
+  return { quote, author };
+}
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fetchReviewTable } from "@/lib/batch/rest";
+
+// A fake API: each url answers with its page, anything else is a 404
+function serve(pages: Record<string, unknown>) {
+  const fetch = vi.fn(async (url: string) =>
+    url in pages
+      ? new Response(JSON.stringify(pages[url]))
+      : new Response("Not found", { status: 404 }),
+  );
+  vi.stubGlobal("fetch", fetch);
+  return fetch;
+}
+
+const review = (n: number) => ({ text: `Review ${n}`, author: `User ${n}` });
+
+beforeEach(() => {
+  vi.stubGlobal("location", { href: "http://localhost:3000/" });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("fetchReviewTable", () => {
+  it("follows next, links.next and nextPageUrl, resolving relative links", async () => {
+    serve({
+      "http://api.test/reviews": { reviews: [review(1)], next: "?page=2" },
+      "http://api.test/reviews?page=2": {
+        data: [review(2)],
+        links: { next: "/reviews?page=3" },
+      },
+      "http://api.test/reviews?page=3": {
+        items: [review(3)],
+        nextPageUrl: "http://api.test/reviews?page=4",
+      },
+      "http://api.test/reviews?page=4": {
+        reviews: [review(4)],
+        paging: { next: "" },
+      },
+    });
+
+    const table = await fetchReviewTable({ url: "http://api.test/reviews" });
+    expect(table.columns).toEqual(["text", "author"]);
+    expect(table.rows.map((r) => r.text)).toEqual([
+      "Review 1",
+      "Review 2",
+      "Review 3",
+      "Review 4",
+    ]);
+  });
+
+  it("sends the token and resolves the first url against the page", async () => {
+    const fetch = serve({ "http://localhost:3000/mock/reviews": [review(1)] });
+    const table = await fetchReviewTable({
+      url: "/mock/reviews",
+      token: "secret",
+    });
+
+    expect(table.rows).toHaveLength(1);
+    expect(fetch).toHaveBeenCalledWith("http://localhost:3000/mock/reviews", {
+      headers: { Authorization: "Bearer secret" },
+    });
+  });
+
+  it("stops after 20 pages of an endless API", async () => {
+    const fetch = vi.fn(async (url: string) => {
+      const n = Number(new URL(url).searchParams.get("page") ?? 1);
+      return new Response(
+        JSON.stringify({ reviews: [review(n)], next: `?page=${n + 1}` }),
+      );
+    });
+    vi.stubGlobal("fetch", fetch);
+
+    const table = await fetchReviewTable({ url: "http://api.test/reviews" });
+    expect(fetch).toHaveBeenCalledTimes(20);
+    expect(table.rows).toHaveLength(20);
+  });
+
+  it("stops when a next link points back at a page already read", async () => {
+    const fetch = serve({
+      "http://api.test/a": { reviews: [review(1)], next: "/b" },
+      "http://api.test/b": { reviews: [review(2)], next: "/a" },
+    });
+
+    const table = await fetchReviewTable({ url: "http://api.test/a" });
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(table.rows).toHaveLength(2);
+  });
+
+  it("throws on a failed page", async () => {
+    serve({ "http://api.test/a": { reviews: [review(1)], next: "/missing" } });
+    await expect(
+      fetchReviewTable({ url: "http://api.test/a" }),
+    ).rejects.toThrow(/GET http:\/\/api.test\/missing failed: 404/);
+  });
+});
@@ -0,0 +1,52 @@
+import { tableFromJson, type TestimonialTable } from "@/lib/batch/parse";
+
+// Generic REST connector: GETs a JSON list of reviews and follows "next"
+// links, so any API (or a local mock server) can feed the batch importer
+
+const MAX_PAGES = 20;
+
+export type RestSource = {
+  url: string;
+  // sent as "Authorization: Bearer <token>" when set
+  token?: string;
+};
+
+// The usual places an API puts its next page: { next }, { links: { next } },
+// { nextPageUrl }, { paging: { next } }
+function nextPage(data: unknown, base: string) {
+  if (!data || typeof data !== "object") return null;
+  const d = data as Record<string, unknown>;
+  const links = d.links as Record<string, unknown> | undefined;
+  const paging = d.paging as Record<string, unknown> | undefined;
+  const next = d.next ?? links?.next ?? d.nextPageUrl ?? paging?.next;
+  return typeof next === "string" && next ? new URL(next, base).href : null;
+}
+
+export async function fetchReviewTable({
+  url,
+  token,
+}: RestSource): Promise<TestimonialTable> {
+  const headers: HeadersInit = token
+    ? { Authorization: `Bearer ${token}` }
+    : {};
+  const tables: TestimonialTable[] = [];
+  const visited = new Set<string>();
+  let page: string | null = new URL(url, location.href).href;
+
+  while (page && !visited.has(page) && visited.size < MAX_PAGES) {
+    visited.add(page);
+    const res = await fetch(page, { headers });
+    if (!res.ok) throw new Error(`GET ${page} failed: ${res.status}`);
+    const text = await res.text();
+    tables.push(tableFromJson(text));
+    page = nextPage(JSON.parse(text), page);
+  }
+
+  const columns = [...new Set(tables.flatMap((t) => t.columns))];
+  const error = tables.find((t) => t.error)?.error;
+  return {
+    columns,
+    rows: tables.flatMap((t) => t.rows),
+    ...(error ? { error } : {}),
+  };
+}
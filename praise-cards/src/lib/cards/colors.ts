@@ -0,0 +1,136 @@
+import type { Palette } from "@/lib/cards/types";
+
+type Rgb = { r: number; g: number; b: number };
+
+export function hexToRgb(hex: string) {
+  const h = hex.replace("#", "").trim();
+  const full =
+    h.length === 3
+      ? h
+          .split("")
+          .map((c) => c + c)
+          .join("")
+      : h;
+  const n = parseInt(full, 16);
+  return { r: (n >> 16) & 255, g: (n >> 8) & 255, b: n & 255 };
+}
+
+export function relLuma({ r, g, b }: Rgb) {
+  // sRGB relative luminance
+  const srgb = [r, g, b].map((v) => {
+    v /= 255;
+    return v <= 0.03928 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * srgb[0] + 0.7152 * srgb[1] + 0.0722 * srgb[2];
+}
+
+// WCAG contrast ratio, 1..21
+export function contrastRatio(a: Rgb, b: Rgb) {
+  const la = relLuma(a);
+  const lb = relLuma(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+}
+
+export function mixRgb(a: Rgb, b: Rgb, t: number) {
+  return {
+    r: Math.round(a.r + (b.r - a.r) * t),
+    g: Math.round(a.g + (b.g - a.g) * t),
+    b: Math.round(a.b + (b.b - a.b) * t),
+  };
+}
+
+export function sampleAverageRgb(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+) {
+  const img = ctx.getImageData(
+    Math.max(0, Math.floor(x)),
+    Math.max(0, Math.floor(y)),
+    Math.max(1, Math.floor(w)),
+    Math.max(1, Math.floor(h)),
+  ).data;
+
+  let r = 0,
+    g = 0,
+    b = 0,
+    c = 0;
+  // sample every Nth pixel for speed
+  const step = 16;
+  for (let i = 0; i < img.length; i += 4 * step) {
+    r += img[i];
+    g += img[i + 1];
+    b += img[i + 2];
+    c++;
+  }
+  return { r: r / c, g: g / c, b: b / c };
+}
+
+// Returns best text + author colors for current drawn background
+export function chooseTextColors(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  palette: Palette,
+) {
+  const sx = width * 0.22;
+  const sy = height * 0.3;
+  const sw = width * 0.56;
+  const sh = height * 0.4;
+
+  const avg = sampleAverageRgb(ctx, sx, sy, sw, sh);
+  const L = relLuma(avg);
+
+  const isLightBg = L > 0.55;
+
+  // Quote color
+  const quoteColor = isLightBg ? "#111827" : "#FFFFFF";
+
+  // Default author color = accent
+  let authorColor: string = palette.accent;
+
+  if (!isLightBg) {
+    // Dark background: force author to be readable
+    authorColor = "rgba(255,255,255,0.85)";
+  } else {
+    // Light background: ensure accent has enough contrast
+    const acc = hexToRgb(palette.accent);
+    const quoteRgb = hexToRgb(quoteColor);
+
+    if (contrastRatio(acc, quoteRgb) < 2.2) {
+      const mixed = mixRgb(acc, quoteRgb, 0.55);
+      authorColor = `rgb(${mixed.r}, ${mixed.g}, ${mixed.b})`;
+    }
+  }
+
+  // Emphasised (**strong**) words: the accent, unless it would vanish into
+  // a dark background; ==mark== highlights are always the accent
+  const accent = hexToRgb(palette.accent);
+  const accentColor = isLightBg
+    ? authorColor
+    : contrastRatio(accent, avg) >= 3
+      ? palette.accent
+      : quoteColor;
+
+  // Rating stars are the accent when it stands out from the background
+  const starColor =
+    contrastRatio(accent, avg) >= 3
+      ? palette.accent
+      : isLightBg
+        ? authorColor
+        : quoteColor;
+
+  return {
+    quoteColor,
+    authorColor,
+    accentColor,
+    markColor: palette.accent,
+    starColor,
+    // source badge: a tint of the quote colour with the quote colour on top
+    badgeFill: isLightBg ? "rgba(17,24,39,0.08)" : "rgba(255,255,255,0.16)",
+    badgeText: quoteColor,
+    isLightBg,
+  };
+}
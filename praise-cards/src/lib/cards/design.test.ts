@@ -0,0 +1,58 @@
+import { createCanvas } from "@napi-rs/canvas";
+import { describe, expect, it } from "vitest";
+import { chooseTextColors, contrastRatio, hexToRgb } from "@/lib/cards/colors";
+import { brandPalettes } from "@/lib/cards/design";
+import type { Palette } from "@/lib/cards/types";
+
+const contrast = (a: string, b: string) =>
+  contrastRatio(hexToRgb(a), hexToRgb(b));
+
+// "#abc" or "rgb(1, 2, 3)" as painted by the renderer
+function toHex(color: string) {
+  const rgb = color.match(/^rgba?\((\d+),\s*(\d+),\s*(\d+)/);
+  if (!rgb) return color;
+  return `#${rgb
+    .slice(1, 4)
+    .map((n) => Number(n).toString(16).padStart(2, "0"))
+    .join("")}`;
+}
+
+// Author and star colours the renderer picks on a flat background
+function paintedColors(palette: Palette) {
+  const canvas = createCanvas(400, 400);
+  const ctx = canvas.getContext("2d") as unknown as CanvasRenderingContext2D;
+  ctx.fillStyle = palette.bg;
+  ctx.fillRect(0, 0, 400, 400);
+  return chooseTextColors(ctx, 400, 400, palette);
+}
+
+describe("brandPalettes", () => {
+  it.each([
+    ["one colour", ["#EA436B"]],
+    ["one light colour", ["#FFF5F5"]],
+    ["all light colours", ["#FFF5F5", "#FEFCBF", "#E6FFFA"]],
+    ["all dark colours", ["#0B1020", "#1A365D", "#2A1F55"]],
+    ["a mixed kit", ["#0B1020", "#FEFCBF", "#EA436B"]],
+  ])("keeps text and accent readable with %s", (_, colors) => {
+    for (const palette of brandPalettes(colors)) {
+      expect(contrast(palette.text, palette.bg)).toBeGreaterThanOrEqual(4.5);
+      expect(contrast(palette.accent, palette.bg)).toBeGreaterThanOrEqual(3);
+
+      const painted = paintedColors(palette);
+      for (const color of [painted.authorColor, painted.starColor]) {
+        if (color.startsWith("rgba")) continue; // translucent white on dark
+        expect(contrast(toHex(color), palette.bg)).toBeGreaterThanOrEqual(3);
+      }
+    }
+  });
+
+  it("still uses brand colours that read on each other", () => {
+    const [light, dark] = brandPalettes(["#FFF5F5", "#1A365D"]);
+    expect(light).toEqual({
+      bg: "#FFF5F5",
+      text: "#1A365D",
+      accent: "#1A365D",
+    });
+    expect(dark).toEqual({ bg: "#1A365D", text: "#FFF5F5", accent: "#FFF5F5" });
+  });
+});
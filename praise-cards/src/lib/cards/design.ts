@@ -0,0 +1,184 @@
+import { contrastRatio, hexToRgb } from "@/lib/cards/colors";
+import { fontPack, WEB_FONTS } from "@/lib/cards/fonts";
+import type { Design, FontPack, Palette } from "@/lib/cards/types";
+
+// richer palettes + accents
+export const PALETTES: Palette[] = [
+  { bg: "#FFF5F5", text: "#2D3748", accent: "#E53E3E" },
+  { bg: "#EBF8FF", text: "#1A365D", accent: "#2B6CB0" },
+  { bg: "#F0FFF4", text: "#1C4532", accent: "#2F855A" },
+  { bg: "#FFFAF0", text: "#5F370E", accent: "#DD6B20" },
+  { bg: "#FAF5FF", text: "#2A1F55", accent: "#6B46C1" },
+  { bg: "#FFF5F7", text: "#521B41", accent: "#B83280" },
+  { bg: "#E6FFFA", text: "#234E52", accent: "#2C7A7B" },
+  { bg: "#F7FAFC", text: "#1A202C", accent: "#4A5568" },
+  { bg: "#0B1020", text: "#E6E6EA", accent: "#7C3AED" }, // dark
+  { bg: "#0F172A", text: "#E2E8F0", accent: "#38BDF8" }, // dark
+  { bg: "#111827", text: "#F9FAFB", accent: "#F59E0B" }, // dark
+];
+
+export const GRADIENTS: [string, string][] = [
+  ["#667eea", "#764ba2"],
+  ["#4facfe", "#00f2fe"],
+  ["#f093fb", "#f5576c"],
+  ["#43e97b", "#38f9d7"],
+  ["#fa709a", "#fee140"],
+  ["#30cfd0", "#330867"],
+  ["#a8edea", "#fed6e3"],
+  ["#ff9a9e", "#fad0c4"],
+  ["#1f2937", "#111827"], // dark
+  ["#0ea5e9", "#22c55e"],
+];
+
+export const FONTS: FontPack[] = WEB_FONTS.map(fontPack);
+
+export const STYLE_PACKS: Record<
+  string,
+  { bgTypes: string[]; layouts: string[] }
+> = {
+  balanced: {
+    bgTypes: [
+      "solid",
+      "gradient",
+      "paper",
+      "noise",
+      "halftone",
+      "blobs",
+      "glass",
+      "stripes",
+    ],
+    layouts: [
+      "centered",
+      "left",
+      "split",
+      "underline",
+      "footer",
+      "corner-frame",
+      "diagonal",
+    ],
+  },
+  bold: {
+    bgTypes: ["gradient", "dark", "stripes", "blobs"],
+    layouts: ["split", "diagonal", "side-stripe", "corner-frame"],
+  },
+  minimal: {
+    bgTypes: ["solid", "paper"],
+    layouts: ["centered", "left", "underline", "footer", "bordered"],
+  },
+  playful: {
+    bgTypes: ["gradient", "halftone", "blobs", "noise", "paper"],
+    layouts: ["icon-top", "split", "diagonal", "underline"],
+  },
+};
+
+// Every layout and background any style pack can produce
+export const BG_TYPES = [
+  ...new Set(Object.values(STYLE_PACKS).flatMap((p) => p.bgTypes)),
+];
+export const LAYOUTS = [
+  ...new Set(Object.values(STYLE_PACKS).flatMap((p) => p.layouts)),
+];
+
+export function seededRandom(seed: number) {
+  const x = Math.sin(seed) * 10000;
+  return x - Math.floor(x);
+}
+
+export function pick<T>(arr: T[], seed: number) {
+  return arr[Math.floor(seededRandom(seed) * arr.length)];
+}
+
+// Brand palettes fall back to these when no brand colour reads on the
+// background: WCAG AA for the quote, and a lower bar for the accent (author,
+// stars, doodles), which must also read on white for the paper background
+const INK = { dark: "#111827", light: "#F9FAFB" };
+const MIN_TEXT_CONTRAST = 4.5;
+const MIN_ACCENT_CONTRAST = 3;
+const MIN_ACCENT_ON_WHITE = 2;
+
+// Palettes made only of brand colours: each colour takes a turn as the
+// background with the most contrasting one as text, or near-black/white when
+// none is readable. Without a readable brand accent the text doubles as it.
+export function brandPalettes(colors: string[]): Palette[] {
+  const white = hexToRgb("#ffffff");
+  return colors.map((bg, i) => {
+    const others = colors.filter((_, j) => j !== i);
+    const bgRgb = hexToRgb(bg);
+    const contrast = (c: string) => contrastRatio(hexToRgb(c), bgRgb);
+    const onWhite = (c: string) => contrastRatio(hexToRgb(c), white);
+
+    const ink =
+      contrast(INK.dark) >= contrast(INK.light) ? INK.dark : INK.light;
+    const best = others.reduce<string | null>(
+      (top, c) => (top === null || contrast(c) > contrast(top) ? c : top),
+      null,
+    );
+    const text =
+      best !== null && contrast(best) >= MIN_TEXT_CONTRAST ? best : ink;
+    const accent = others
+      .filter(
+        (c) =>
+          c !== text &&
+          contrast(c) >= MIN_ACCENT_CONTRAST &&
+          onWhite(c) >= MIN_ACCENT_ON_WHITE,
+      )
+      .sort((a, b) => contrast(b) - contrast(a))[0];
+    return { bg, text, accent: accent ?? text };
+  });
+}
+
+// Every ordered pair of brand colours (a single colour is a flat "gradient")
+export function brandGradients(colors: string[]): [string, string][] {
+  const pairs: [string, string][] = [];
+  for (const a of colors) {
+    for (const b of colors) if (a !== b) pairs.push([a, b]);
+  }
+  return pairs.length ? pairs : colors.map((c): [string, string] => [c, c]);
+}
+
+// With brand colours, palettes and gradients come only from those
+export function generateDesign(
+  seed: number,
+  stylePack: string,
+  brandColors: string[] = [],
+): Design {
+  const pack = STYLE_PACKS[stylePack] || STYLE_PACKS.balanced;
+  const branded = brandColors.length > 0;
+  const palette = pick(branded ? brandPalettes(brandColors) : PALETTES, seed++);
+  const gradient = pick(
+    branded ? brandGradients(brandColors) : GRADIENTS,
+    seed++,
+  );
+  const font = pick(FONTS, seed++);
+  const bgType = pick(pack.bgTypes, seed++);
+  const layout = pick(pack.layouts, seed++);
+  return { palette, gradient, font, bgType, layout, seed };
+}
+
+// `count` designs, avoiding duplicates of the same bg/layout/palette/font combo
+export function makeDesigns(
+  count: number,
+  stylePack: string,
+  baseSeed = Date.now(),
+  brandColors: string[] = [],
+) {
+  const designs: Design[] = [];
+  const used = new Set<string>();
+
+  for (let i = 0; i < count; i++) {
+    let d: Design;
+    let tries = 0;
+    let hash = "";
+    do {
+      const seed = baseSeed + i * 1000 + tries * 111;
+      d = generateDesign(seed, stylePack, brandColors);
+      hash = `${d.bgType}-${d.layout}-${d.palette.bg}${d.palette.accent}-${
+        d.font.quote
+      }`;
+      tries++;
+    } while (used.has(hash) && tries < 60);
+    used.add(hash);
+    designs.push(d);
+  }
+  return designs;
+}
@@ -0,0 +1,194 @@
+import type { FontPack } from "@/lib/cards/types";
+
+// Card fonts are bundled (@fontsource) rather than system stacks, so a card
+// looks the same on every OS, on the wall and when rendered server-side.
+export type WebFont = {
+  family: string;
+  // @fontsource package name, also the prefix of its font files
+  id: string;
+  fallback: "serif" | "sans-serif";
+  // weights shipped: 400 quote, 700 **strong**, 600 watermark, 800 author
+  // (see fontWeight for families that stop short of it)
+  weights: number[];
+};
+
+export const WEB_FONTS: WebFont[] = [
+  { family: "Lora", id: "lora", fallback: "serif", weights: [400, 600, 700] },
+  {
+    family: "Playfair Display",
+    id: "playfair-display",
+    fallback: "serif",
+    weights: [400, 600, 700, 800],
+  },
+  {
+    family: "EB Garamond",
+    id: "eb-garamond",
+    fallback: "serif",
+    weights: [400, 600, 700, 800],
+  },
+  {
+    family: "Inter",
+    id: "inter",
+    fallback: "sans-serif",
+    weights: [400, 600, 700, 800],
+  },
+  {
+    family: "Poppins",
+    id: "poppins",
+    fallback: "sans-serif",
+    weights: [400, 600, 700, 800],
+  },
+  {
+    family: "Nunito",
+    id: "nunito",
+    fallback: "sans-serif",
+    weights: [400, 600, 700, 800],
+  },
+];
+
+// The heaviest face a bundled family ships up to `weight`: Lora stops at 700,
+// so its author line asks for that rather than a synthesised 800 that would
+// differ between browsers and the server. Other stacks pass through.
+export function fontWeight(family: string | undefined, weight: number) {
+  const font = WEB_FONTS.find((f) => f.family === family);
+  const shipped = font?.weights.filter((w) => w <= weight) ?? [];
+  return shipped.length ? Math.max(...shipped) : weight;
+}
+
+// Fallbacks for scripts the card fonts don't cover (Hindi, Arabic, Hebrew,
+// Japanese) and emoji, tried before the generic family.
+export type ScriptFont = {
+  family: string;
+  id: string;
+  // @fontsource file subset; CJK fonts are split into numbered chunks instead
+  subset?: string;
+  // text that needs this font
+  script: RegExp;
+  weights: number[];
+};
+
+export const SCRIPT_FONTS: ScriptFont[] = [
+  {
+    family: "Noto Sans Devanagari",
+    id: "noto-sans-devanagari",
+    subset: "devanagari",
+    script: /\p{Script=Devanagari}/u,
+    weights: [400, 700],
+  },
+  {
+    family: "Noto Sans Arabic",
+    id: "noto-sans-arabic",
+    subset: "arabic",
+    script: /\p{Script=Arabic}/u,
+    weights: [400, 700],
+  },
+  {
+    family: "Noto Sans Hebrew",
+    id: "noto-sans-hebrew",
+    subset: "hebrew",
+    script: /\p{Script=Hebrew}/u,
+    weights: [400, 700],
+  },
+  {
+    family: "Noto Sans JP",
+    id: "noto-sans-jp",
+    script: /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u,
+    weights: [400, 700],
+  },
+  {
+    family: "Noto Color Emoji",
+    id: "noto-color-emoji",
+    subset: "emoji",
+    script: /\p{Extended_Pictographic}/u,
+    weights: [400],
+  },
+];
+
+// Whether `text` needs any of the script fallbacks
+export function usesScriptFonts(text: string) {
+  return SCRIPT_FONTS.some((f) => f.script.test(text));
+}
+
+let fallbackFamilies = SCRIPT_FONTS.map((f) => f.family);
+// family -> its other subsets' family names, right behind it in a stack
+let subsetFamilies: Record<string, string[]> = {};
+
+// The server registers each CJK chunk under its own name (Skia has no
+// unicode-range) and lists those names here instead.
+export function setScriptFallbacks(families: string[]) {
+  fallbackFamilies = families;
+}
+
+// Same for the card fonts' subsets beyond Latin (Cyrillic, Vietnamese…);
+// browsers pick those by unicode-range, so this is server-only
+export function setSubsetFallbacks(families: Record<string, string[]>) {
+  subsetFamilies = families;
+}
+
+const GENERIC_FAMILIES = ["serif", "sans-serif", "monospace", "cursive"];
+
+// Font stack with the script fallbacks inserted before its generic family.
+// Applied when painting, so older records get them too.
+export function withScriptFallbacks(stack: string) {
+  const families = fallbackFamilies.map((f) => `"${f}"`).join(", ");
+  const parts = stack
+    .split(",")
+    .map((p) => p.trim())
+    .flatMap((p) => [
+      p,
+      ...(subsetFamilies[p.replace(/^"|"$/g, "")] ?? []).map((f) => `"${f}"`),
+    ]);
+  const last = parts[parts.length - 1];
+  if (!GENERIC_FAMILIES.includes(last)) return `${stack}, ${families}`;
+  return [...parts.slice(0, -1), families, last].join(", ");
+}
+
+export function fontPack({ family, fallback }: WebFont): FontPack {
+  const stack = `"${family}", ${fallback}`;
+  return { family, quote: stack, author: stack };
+}
+
+// Bundled faces a stored font pack needs (none for pre-web-font records),
+// plus the script fallbacks `text` uses
+function facesOf(fonts: FontPack[], text: string) {
+  const faces: string[] = [];
+  const add = (family: string, weights: number[]) => {
+    for (const w of weights) {
+      const face = `${w} 32px "${family}"`;
+      if (!faces.includes(face)) faces.push(face);
+    }
+  };
+  for (const pack of fonts) {
+    const font = WEB_FONTS.find((f) => f.family === pack.family);
+    if (font) add(font.family, font.weights);
+  }
+  for (const font of SCRIPT_FONTS) {
+    if (font.script.test(text)) add(font.family, font.weights);
+  }
+  return faces;
+}
+
+function fontSet() {
+  return typeof document === "undefined" ? null : document.fonts;
+}
+
+// Whether every face `text` needs is loaded (always true off the browser)
+export function fontsReady(fonts: FontPack[], text: string) {
+  const set = fontSet();
+  if (!set) return true;
+  return facesOf(fonts, text).every((face) => set.check(face, text));
+}
+
+// Loads the faces `text` needs. Never rejects: a font that fails to load
+// just falls back to the rest of its stack.
+export async function loadFonts(fonts: FontPack[], text: string) {
+  const set = fontSet();
+  if (!set) return;
+  await Promise.all(
+    facesOf(fonts, text).map((face) =>
+      set.load(face, text).catch((e) => {
+        console.warn("Could not load font", face, e);
+      }),
+    ),
+  );
+}
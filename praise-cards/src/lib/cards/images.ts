@@ -0,0 +1,120 @@
+import { fontsReady, loadFonts } from "@/lib/cards/fonts";
+import type {
+  CardAvatar,
+  CardBrand,
+  CardData,
+  CardImage,
+  CardImages,
+} from "@/lib/cards/types";
+
+// Decodes one image URL; the browser and the server each bring their own
+export type ImageLoader = (src: string) => Promise<CardImage>;
+
+// The parts of a card that reference images
+type ImageRefs = { brand?: CardBrand; avatar?: CardAvatar };
+
+// Image URLs a card paints: the brand logo and the customer photo
+export function imageSources(card: ImageRefs) {
+  return [card.brand?.logoUrl, card.avatar?.url].filter(
+    (src): src is string => !!src,
+  );
+}
+
+// Decodes every image the card needs. A broken image is left out (the card
+// still renders, without it) rather than failing the whole card.
+export async function loadCardImages(
+  card: ImageRefs,
+  load: ImageLoader,
+): Promise<CardImages> {
+  const images: CardImages = {};
+  for (const src of imageSources(card)) {
+    try {
+      images[src] = await load(src);
+    } catch (e) {
+      console.warn("Could not load card image", src.slice(0, 60), e);
+    }
+  }
+  return images;
+}
+
+const browserCache = new Map<string, Promise<CardImage>>();
+
+// Browser loader. CORS-enabled so canvases stay exportable; cached because
+// every card on a wall usually shares the same logo.
+export const loadBrowserImage: ImageLoader = (src) => {
+  let pending = browserCache.get(src);
+  if (!pending) {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.src = src;
+    pending = img.decode().then(() => img);
+    pending.catch(() => browserCache.delete(src));
+    browserCache.set(src, pending);
+  }
+  return pending;
+};
+
+// Paints once the card's fonts are loaded (straight away when they already
+// are), then once more when its images have decoded. Returns a cancel
+// function for effect cleanup.
+export function paintWhenReady(
+  card: Pick<CardData, "quote" | "author" | "font" | "brand" | "avatar">,
+  paint: (images?: CardImages) => void,
+) {
+  let cancelled = false;
+  const fonts = [card.font];
+  const text = `${card.quote} ${card.author}`;
+  const fontsLoaded = fontsReady(fonts, text);
+  const hasImages = imageSources(card).length > 0;
+
+  if (fontsLoaded) paint();
+  if (!fontsLoaded || hasImages) {
+    Promise.all([
+      fontsLoaded ? null : loadFonts(fonts, text),
+      hasImages ? loadCardImages(card, loadBrowserImage) : undefined,
+    ]).then(([, images]) => {
+      if (!cancelled) paint(images);
+    });
+  }
+  return () => {
+    cancelled = true;
+  };
+}
+
+type DownscaleOptions = {
+  // crop the centre square (photos)
+  square?: boolean;
+  // PNG keeps logo transparency; JPEG is far smaller for photos
+  type?: "image/png" | "image/jpeg";
+};
+
+// Reads an uploaded image into a data URL no larger than `maxSide`, so it
+// can be stored inline with the record
+export async function downscaleImage(
+  file: File,
+  maxSide: number,
+  { square = false, type = "image/png" }: DownscaleOptions = {},
+) {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    const side = Math.min(img.width, img.height);
+    const sw = square ? side : img.width;
+    const sh = square ? side : img.height;
+    const scale = Math.min(1, maxSide / Math.max(sw, sh));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(sw * scale));
+    canvas.height = Math.max(1, Math.round(sh * scale));
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas unavailable");
+    ctx.imageSmoothingQuality = "high";
+    const sx = (img.width - sw) / 2;
+    const sy = (img.height - sh) / 2;
+    ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL(type, 0.88);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,168 @@
+import type { CardData, SizePreset, SizeSpec } from "@/lib/cards/types";
+
+export const DEFAULT_PRESET = "square";
+export const CUSTOM_PRESET = "custom";
+
+// Bounds for typed-in sizes and anything rendered server-side
+export const MIN_SIDE = 200;
+export const MAX_SIDE = 6000;
+
+export const SIZE_PRESETS: SizePreset[] = [
+  // the original formats: minimums that grow to fit
+  {
+    id: "square",
+    label: "Square",
+    group: "General",
+    width: 1080,
+    height: 1080,
+    fixed: false,
+  },
+  {
+    id: "portrait",
+    label: "Portrait",
+    group: "General",
+    width: 1080,
+    height: 1350,
+    fixed: false,
+  },
+  {
+    id: "landscape",
+    label: "Landscape",
+    group: "General",
+    width: 1600,
+    height: 900,
+    fixed: false,
+  },
+
+  {
+    id: "instagram-post",
+    label: "Instagram post",
+    group: "Social",
+    width: 1080,
+    height: 1350,
+    fixed: true,
+  },
+  {
+    id: "instagram-story",
+    label: "Instagram Story",
+    group: "Social",
+    width: 1080,
+    height: 1920,
+    fixed: true,
+    // profile header on top, reply bar at the bottom
+    safeZone: { top: 250, right: 0, bottom: 250, left: 0 },
+  },
+  {
+    id: "instagram-reels",
+    label: "Instagram Reels",
+    group: "Social",
+    width: 1080,
+    height: 1920,
+    fixed: true,
+    // caption + audio strip at the bottom, like/comment/share on the right
+    safeZone: { top: 220, right: 140, bottom: 420, left: 60 },
+  },
+  {
+    id: "tiktok",
+    label: "TikTok",
+    group: "Social",
+    width: 1080,
+    height: 1920,
+    fixed: true,
+    safeZone: { top: 160, right: 140, bottom: 480, left: 60 },
+  },
+  {
+    id: "linkedin-post",
+    label: "LinkedIn post",
+    group: "Social",
+    width: 1200,
+    height: 627,
+    fixed: true,
+  },
+  {
+    id: "x-post",
+    label: "X / Twitter post",
+    group: "Social",
+    width: 1600,
+    height: 900,
+    fixed: true,
+  },
+  {
+    id: "pinterest-pin",
+    label: "Pinterest pin",
+    group: "Social",
+    width: 1000,
+    height: 1500,
+    fixed: true,
+  },
+  {
+    id: "facebook-post",
+    label: "Facebook post",
+    group: "Social",
+    width: 1200,
+    height: 630,
+    fixed: true,
+  },
+  {
+    // 2x the 820×312 desktop display size
+    id: "facebook-cover",
+    label: "Facebook cover",
+    group: "Social",
+    width: 1640,
+    height: 624,
+    fixed: true,
+  },
+
+  {
+    id: "appstore-iphone-6.9",
+    label: 'iPhone 6.9" screenshot',
+    group: "App Store",
+    width: 1320,
+    height: 2868,
+    fixed: true,
+  },
+  {
+    id: "appstore-iphone-6.5",
+    label: 'iPhone 6.5" screenshot',
+    group: "App Store",
+    width: 1284,
+    height: 2778,
+    fixed: true,
+  },
+  {
+    id: "appstore-ipad-13",
+    label: 'iPad 13" screenshot',
+    group: "App Store",
+    width: 2064,
+    height: 2752,
+    fixed: true,
+  },
+];
+
+export function findPreset(id: string | undefined) {
+  return SIZE_PRESETS.find((p) => p.id === id);
+}
+
+export function presetLabel(preset: SizePreset) {
+  const size = `${preset.width}×${preset.height}`;
+  return `${preset.label} (${preset.fixed ? size : `min ${size}`})`;
+}
+
+export function clampSide(value: unknown, fallback: number) {
+  const n = Math.round(Number(value));
+  if (!Number.isFinite(n) || n <= 0) return fallback;
+  return Math.max(MIN_SIDE, Math.min(MAX_SIDE, n));
+}
+
+// Older records only carry the legacy `format`, whose values are preset ids
+export function presetOf(card: Pick<CardData, "preset" | "format">) {
+  return card.preset ?? card.format ?? DEFAULT_PRESET;
+}
+
+// Sizing rules for re-rendering a stored card with edited text: fixed and
+// custom sizes stay exact, the original formats may grow again
+export function sizeSpecOf(card: CardData): SizeSpec {
+  const preset = findPreset(presetOf(card));
+  if (preset && !preset.fixed) return preset;
+  return { width: card.width, height: card.height, fixed: true };
+}
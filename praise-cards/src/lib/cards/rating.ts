@@ -0,0 +1,38 @@
+// Star ratings: 0–5 in half-star steps
+export const MAX_RATING = 5;
+
+export function isRating(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    value >= 0 &&
+    value <= MAX_RATING &&
+    Number.isInteger(value * 2)
+  );
+}
+
+// Every selectable rating, best first: 5, 4.5 … 0
+export const RATING_OPTIONS = Array.from(
+  { length: MAX_RATING * 2 + 1 },
+  (_, i) => MAX_RATING - i / 2,
+);
+
+// How full each star is, e.g. 3.5 => [1, 1, 1, 0.5, 0]
+export function starFills(rating: number) {
+  return Array.from({ length: MAX_RATING }, (_, i) =>
+    Math.max(0, Math.min(1, rating - i)),
+  );
+}
+
+// "4.5 ★" for pickers and filters
+export function ratingLabel(rating: number) {
+  return `${rating} ★`;
+}
+
+// Minimum-rating filters (wall, batch import): "5 ★", "4 ★ & up" …
+export const RATING_FILTERS = [5, 4, 3, 2, 1];
+
+export function minRatingLabel(rating: number) {
+  return rating === MAX_RATING
+    ? ratingLabel(rating)
+    : `${ratingLabel(rating)} & up`;
+}
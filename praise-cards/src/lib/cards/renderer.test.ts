@@ -0,0 +1,183 @@
+import { type Canvas, createCanvas } from "@napi-rs/canvas";
+import { afterEach, describe, expect, it } from "vitest";
+import { BG_TYPES, generateDesign, LAYOUTS } from "@/lib/cards/design";
+import { fontWeight } from "@/lib/cards/fonts";
+import { SIZE_PRESETS } from "@/lib/cards/presets";
+import {
+  measureCardSize,
+  recordFromContent,
+  renderCard,
+  renderCardVector,
+  renderStoredCard,
+} from "@/lib/cards/renderer";
+// registers the bundled fonts with Skia
+import "@/lib/cards/server";
+import type {
+  CardCanvas,
+  CardContent,
+  CardSize,
+  SizePreset,
+} from "@/lib/cards/types";
+
+// What the generator paints for one card
+function generatorContent(
+  bgType: string,
+  layout: string,
+  preset: SizePreset,
+): CardContent {
+  return {
+    quote: "Set up our whole **onboarding** flow in an afternoon.",
+    author: "Priya N.",
+    design: { ...generateDesign(42, "balanced"), bgType, layout },
+    radius: "24",
+    stylePack: "balanced",
+    quoteSizeMultiplier: 100,
+    authorSizeMultiplier: 100,
+    safeZone: preset.safeZone,
+    fitText: preset.fixed,
+    rating: 4.5,
+    source: { kind: "app-store", date: "2026-01-05", verified: true },
+  };
+}
+
+function pixels(canvas: Canvas) {
+  const ctx = canvas.getContext("2d");
+  return Buffer.from(
+    ctx.getImageData(0, 0, canvas.width, canvas.height).data.buffer,
+  );
+}
+
+// Skia's pixel memory is invisible to V8 and only released by finalizers on
+// a later tick, so collect between cases or hundreds of cards pile up
+afterEach(async () => {
+  globalThis.gc?.();
+  await new Promise((resolve) => setImmediate(resolve));
+});
+
+describe("generator and wall render the same card", () => {
+  for (const preset of SIZE_PRESETS) {
+    describe(preset.id, () => {
+      for (const bgType of BG_TYPES) {
+        it.each(LAYOUTS)(`${bgType} × %s`, (layout) => {
+          const content = generatorContent(bgType, layout, preset);
+          const generator = createCanvas(1, 1);
+          const canvas = generator as unknown as CardCanvas;
+          const size = measureCardSize(canvas, content, preset);
+          renderCard(canvas, content, size);
+
+          const wall = createCanvas(1, 1);
+          renderStoredCard(wall as unknown as CardCanvas, {
+            id: "parity",
+            ...recordFromContent(content, size, {
+              preset: preset.id,
+              createdAt: "2026-01-05T00:00:00.000Z",
+            }),
+          });
+
+          expect([wall.width, wall.height]).toEqual([size.width, size.height]);
+          expect(pixels(wall).equals(pixels(generator))).toBe(true);
+        });
+      }
+    });
+  }
+});
+
+describe("right-to-left quotes", () => {
+  // colour at a fraction of the width, halfway down
+  function sample(quote: string, at: number) {
+    const canvas = createCanvas(1, 1);
+    const content: CardContent = {
+      ...generatorContent("solid", "split", SIZE_PRESETS[0]),
+      quote,
+      stylePack: "minimal",
+      rating: undefined,
+      source: undefined,
+    };
+    renderCard(canvas as unknown as CardCanvas, content, {
+      width: 1200,
+      height: 630,
+    });
+    const x = Math.round(canvas.width * at);
+    const y = Math.round(canvas.height / 2);
+    return Array.from(canvas.getContext("2d").getImageData(x, y, 1, 1).data);
+  }
+
+  it("mirrors the layout so the side panel moves to the right", () => {
+    const ltr = "The support team answered in minutes.";
+    const rtl = "أجاب فريق الدعم خلال دقائق.";
+    const panel = sample(ltr, 0.05);
+    const bg = sample(ltr, 0.95);
+
+    expect(panel).not.toEqual(bg);
+    expect(sample(rtl, 0.95)).toEqual(panel);
+    expect(sample(rtl, 0.05)).toEqual(bg);
+  });
+});
+
+describe("fit text", () => {
+  type Drawn = { text: string; y: number; font: string };
+
+  // Paints through a context that records every fillText with its font
+  function drawnText(content: CardContent, size: CardSize) {
+    const drawn: Drawn[] = [];
+    const target = createCanvas(size.width, size.height).getContext("2d");
+    const ctx = new Proxy(target, {
+      get(t, prop) {
+        if (prop === "fillText") {
+          return (text: string, x: number, y: number) => {
+            drawn.push({ text, y, font: t.font });
+            t.fillText(text, x, y);
+          };
+        }
+        const value = Reflect.get(t, prop);
+        return typeof value === "function" ? value.bind(t) : value;
+      },
+      set: (t, prop, value) => Reflect.set(t, prop, value),
+    }) as unknown as CanvasRenderingContext2D;
+    renderCardVector(
+      ctx,
+      createCanvas(1, 1) as unknown as CardCanvas,
+      content,
+      size,
+    );
+    return drawn;
+  }
+
+  it("shrinks a long quote to half size, then ellipsizes it above the author", () => {
+    const size = { width: 1080, height: 1080 };
+    const content: CardContent = {
+      ...generatorContent("solid", "centered", SIZE_PRESETS[0]),
+      quote: "Support answered every question within minutes. ".repeat(40),
+      fitText: true,
+      rating: undefined,
+      source: undefined,
+    };
+    const { textFits } = renderCard(
+      createCanvas(1, 1) as unknown as CardCanvas,
+      content,
+      size,
+    );
+    const drawn = drawnText(content, size);
+    const author = drawn.find((d) => d.text === "Priya N.")!;
+    const quote = drawn.filter((d) => d !== author);
+
+    // still reported, so the generator can warn about it
+    expect(textFits).toBe(false);
+    // FIT_MIN_SCALE × the normal 5% of the width
+    const qSize = Math.floor(size.width * 0.05 * 0.5);
+    expect(quote.every((d) => d.font.startsWith(`${qSize}px `))).toBe(true);
+    expect(quote.at(-1)!.text).toMatch(/…$/);
+    expect(Math.max(...quote.map((d) => d.y))).toBeLessThan(author.y);
+
+    // the author is on the card, inside the bottom padding, at its width
+    const aSize = Math.floor(size.width * 0.034 * 0.5);
+    const aWeight = fontWeight(content.design.font.family, 800);
+    expect(author.font).toMatch(new RegExp(`^${aWeight} ${aSize}px `));
+    expect(author.y + aSize * 1.6).toBeLessThanOrEqual(size.height * 0.91);
+    const measure = createCanvas(1, 1).getContext("2d");
+    measure.font = author.font;
+    expect(measure.measureText(author.text).width).toBeLessThan(
+      size.width * 0.8,
+    );
+  });
+});
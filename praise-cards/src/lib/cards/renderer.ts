@@ -0,0 +1,1461 @@
+import { chooseTextColors } from "@/lib/cards/colors";
+import { seededRandom } from "@/lib/cards/design";
+import { fontWeight, withScriptFallbacks } from "@/lib/cards/fonts";
+import { findPreset, presetOf } from "@/lib/cards/presets";
+import { isRating, starFills } from "@/lib/cards/rating";
+import { badgeText } from "@/lib/cards/sources";
+import {
+  ellipsizeRuns,
+  parseEmphasis,
+  plainText,
+  type RunStyle,
+  type TextRun,
+  measureRuns,
+  textDirection,
+  wrapTextSmart,
+} from "@/lib/cards/text";
+import type {
+  CardAvatar,
+  CardCanvas,
+  CardContent,
+  CardData,
+  CardImage,
+  CardImages,
+  CardSize,
+  Design,
+  NewCardData,
+  SafeZone,
+  SizeSpec,
+} from "@/lib/cards/types";
+import { dropUndefined } from "@/lib/storage/records";
+
+// Single source of truth for how a card is painted. The generator, the wall
+// and anything else that shows a card must go through here so an uploaded
+// card looks exactly like its preview.
+
+export type SizeOverride = { w: number | null; h: number | null } | null;
+
+// Where the text block goes once the layout decorations are drawn
+type TextBox = {
+  contentX: number;
+  contentY: number;
+  align: CanvasTextAlign;
+  innerMax: number;
+};
+
+export function roundedRectPath(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  r: number,
+) {
+  const radius = Math.max(0, Math.min(r, Math.min(w, h) / 2));
+  ctx.beginPath();
+  ctx.moveTo(x + radius, y);
+  ctx.arcTo(x + w, y, x + w, y + h, radius);
+  ctx.arcTo(x + w, y + h, x, y + h, radius);
+  ctx.arcTo(x, y + h, x, y, radius);
+  ctx.arcTo(x, y, x + w, y, radius);
+  ctx.closePath();
+}
+
+function addGrain(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  amount = 0.06,
+  seed = 1,
+) {
+  const img = ctx.getImageData(0, 0, width, height);
+  const data = img.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const n = (seededRandom(seed + i) - 0.5) * 255 * amount;
+    data[i] = Math.max(0, Math.min(255, data[i] + n));
+    data[i + 1] = Math.max(0, Math.min(255, data[i + 1] + n));
+    data[i + 2] = Math.max(0, Math.min(255, data[i + 2] + n));
+  }
+  ctx.putImageData(img, 0, 0);
+}
+
+// More “fun” details: subtle doodles
+function drawDoodles(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  color: string,
+  seed: number,
+) {
+  ctx.save();
+  ctx.globalAlpha = 0.12; // a bit subtle
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineJoin = "round";
+  ctx.lineCap = "round";
+
+  // How many doodles (keep small + clean)
+  const n = 10;
+
+  const drawTinyHeart = (x: number, y: number, size: number, s: number) => {
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.rotate((seededRandom(s) - 0.5) * 0.8);
+
+    const r = size * 0.45;
+    ctx.beginPath();
+    ctx.moveTo(0, r);
+    ctx.bezierCurveTo(-size, -r, -size, -size, 0, -size * 0.25);
+    ctx.bezierCurveTo(size, -size, size, -r, 0, r);
+    ctx.closePath();
+
+    ctx.globalAlpha *= 0.9;
+    ctx.fill();
+    ctx.globalAlpha *= 1.05;
+    ctx.lineWidth = Math.max(1.2, size * 0.12);
+    ctx.stroke();
+
+    ctx.restore();
+  };
+
+  const drawTinyStar = (x: number, y: number, size: number, s: number) => {
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.rotate(seededRandom(s) * Math.PI * 2);
+
+    const spikes = 5;
+    const outer = size;
+    const inner = size * 0.45;
+
+    ctx.beginPath();
+    for (let i = 0; i < spikes * 2; i++) {
+      const rad = i % 2 === 0 ? outer : inner;
+      const wob = 1 + (seededRandom(s + i * 7) - 0.5) * 0.18; // hand-drawn wobble
+      const angle = (Math.PI * i) / spikes - Math.PI / 2;
+      const px = Math.cos(angle) * rad * wob;
+      const py = Math.sin(angle) * rad * wob;
+      if (i === 0) ctx.moveTo(px, py);
+      else ctx.lineTo(px, py);
+    }
+    ctx.closePath();
+
+    ctx.globalAlpha *= 0.85;
+    ctx.fill();
+    ctx.globalAlpha *= 1.1;
+    ctx.lineWidth = Math.max(1.2, size * 0.12);
+    ctx.stroke();
+
+    ctx.restore();
+  };
+
+  for (let i = 0; i < n; i++) {
+    const x = seededRandom(seed + i * 11) * width;
+    const y = seededRandom(seed + i * 11 + 1) * height;
+
+    // tiny sizes
+    const size = 7 + seededRandom(seed + i * 11 + 2) * 12;
+
+    // keep center cleaner
+    const cx = width / 2,
+      cy = height / 2;
+    if (Math.hypot(x - cx, y - cy) < Math.min(width, height) * 0.26) continue;
+
+    // random pick: 0 = heart, 1 = star
+    const kind = Math.floor(seededRandom(seed + i * 19) * 2);
+
+    if (kind === 0) drawTinyHeart(x, y, size, seed + i * 101);
+    else drawTinyStar(x, y, size * 0.9, seed + i * 101);
+  }
+
+  ctx.restore();
+}
+
+export function computeSafeStartY(
+  contentY: number,
+  blockH: number,
+  safeTop: number,
+  safeBottom: number,
+) {
+  let y = contentY - blockH / 2;
+  if (y < safeTop) y = safeTop;
+  if (y + blockH > safeBottom) y = safeBottom - blockH;
+  if (y < safeTop) y = safeTop;
+  return y;
+}
+
+// Fit-text mode tries type sizes between these multiples of the normal size
+export const FIT_MIN_SCALE = 0.5;
+const FIT_MAX_SCALE = 1.6;
+const FIT_STEPS = 8;
+
+// Font sizes and spacing are all derived from the export width (`scale`
+// shrinks or grows the type in fit-text mode)
+function textMetrics(width: number, content: CardContent, scale = 1) {
+  const quoteMul = Number(content.quoteSizeMultiplier || 100) / 100;
+  const authorMul = Number(content.authorSizeMultiplier || 100) / 100;
+  const hasAuthor = !!content.author.trim();
+
+  const padding = width * 0.1;
+  const qSize = Math.floor(width * 0.05 * quoteMul * scale);
+  const qLine = qSize * 1.38;
+  const aSize = hasAuthor ? Math.floor(width * 0.034 * authorMul * scale) : 0;
+  const aGap = hasAuthor ? aSize * 0.6 : 0;
+  const aBlock = hasAuthor ? aSize * 1.6 : 0;
+  // star row above the quote
+  const sSize = isRating(content.rating)
+    ? Math.floor(width * 0.042 * quoteMul * scale)
+    : 0;
+  const sBlock = sSize * 1.8;
+  // source badge under the author
+  const bSize = content.source
+    ? Math.floor(width * 0.024 * authorMul * scale)
+    : 0;
+  const bGap = bSize * 0.7;
+  const bBlock = bSize * 1.9;
+
+  return {
+    padding,
+    qSize,
+    qLine,
+    aSize,
+    aGap,
+    aBlock,
+    hasAuthor,
+    sSize,
+    sBlock,
+    bSize,
+    bGap,
+    bBlock,
+  };
+}
+
+// Export size for a preset: exact for fixed presets; otherwise the preset
+// minimum (or the user's resize), grown vertically when the quote doesn't fit
+// (unless the content fits its text to the size instead).
+export function measureCardSize(
+  canvas: CardCanvas,
+  content: CardContent,
+  spec: SizeSpec,
+  sizeOverride?: SizeOverride,
+): CardSize {
+  if (spec.fixed) return { width: spec.width, height: spec.height };
+
+  const width = Math.max(spec.width, sizeOverride?.w ?? spec.width);
+  let height = Math.max(spec.height, sizeOverride?.h ?? spec.height);
+  if (content.fitText) return { width, height };
+
+  const metrics = textMetrics(width, content);
+  const { padding, qSize, qLine, aGap, aBlock, sBlock, bGap, bBlock } = metrics;
+  const spot = avatarSpot(content, width, height);
+  const avatar = avatarMetrics(spot, width, metrics);
+  const maxWidth = width - padding * 2;
+
+  canvas.width = width;
+  canvas.height = 10;
+  const ctx = canvas.getContext("2d")!;
+  const lines = wrapTextSmart(
+    ctx,
+    parseEmphasis(content.quote),
+    maxWidth,
+    quoteFontFor(qSize, content.design.font.quote),
+  );
+
+  const blockH =
+    avatar.block +
+    sBlock +
+    lines.length * qLine +
+    aGap +
+    aBlock +
+    bGap +
+    bBlock;
+  const circle = spot === "circle" ? avatar.size + padding * 0.3 : 0;
+  const needed = Math.ceil(
+    blockH + padding * 2.6 + brandExtent(width, content) + circle,
+  );
+
+  // We only auto-grow when needed exceeds current height.
+  height = Math.max(height, needed);
+
+  return { width, height };
+}
+
+function paintBackground(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  design: Design,
+  grain: boolean,
+) {
+  const { palette, gradient, bgType, seed } = design;
+
+  if (bgType === "gradient" || bgType === "glass") {
+    const grd = ctx.createLinearGradient(0, 0, width, height);
+    grd.addColorStop(0, gradient[0]);
+    grd.addColorStop(1, gradient[1]);
+    ctx.fillStyle = grd;
+    ctx.fillRect(0, 0, width, height);
+    if (bgType === "glass") {
+      ctx.fillStyle = "rgba(255,255,255,0.16)";
+      ctx.fillRect(0, 0, width, height);
+    }
+  } else if (bgType === "dark") {
+    ctx.fillStyle = palette.bg;
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = "rgba(255,255,255,0.04)";
+    ctx.fillRect(0, 0, width, height);
+  } else if (bgType === "paper") {
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, width, height);
+    ctx.globalAlpha = 0.06;
+    ctx.fillStyle = palette.accent;
+    for (let i = 0; i < 90; i++) {
+      const x = seededRandom(seed + i) * width;
+      const y = seededRandom(seed + i + 100) * height;
+      ctx.fillRect(x, y, 2, 2);
+    }
+    ctx.globalAlpha = 1;
+  } else if (bgType === "noise") {
+    ctx.fillStyle = palette.bg;
+    ctx.fillRect(0, 0, width, height);
+    if (grain) addGrain(ctx, width, height, 0.08, seed);
+  } else if (bgType === "stripes") {
+    ctx.fillStyle = palette.bg;
+    ctx.fillRect(0, 0, width, height);
+    ctx.strokeStyle = "rgba(0,0,0,0.05)";
+    ctx.lineWidth = 14;
+    for (let i = -height; i < width + height; i += 60) {
+      ctx.beginPath();
+      ctx.moveTo(i, 0);
+      ctx.lineTo(i + height, height);
+      ctx.stroke();
+    }
+  } else if (bgType === "halftone") {
+    ctx.fillStyle = palette.bg;
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = "rgba(0,0,0,0.05)";
+    const step = 26;
+    for (let y = 0; y < height; y += step) {
+      for (let x = 0; x < width; x += step) {
+        const r = 2 + seededRandom(seed + x * 7 + y * 11) * 3;
+        ctx.beginPath();
+        ctx.arc(x, y, r, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+  } else if (bgType === "blobs") {
+    ctx.fillStyle = palette.bg;
+    ctx.fillRect(0, 0, width, height);
+    ctx.globalAlpha = 0.22;
+    ctx.fillStyle = palette.accent;
+    for (let i = 0; i < 3; i++) {
+      const x = seededRandom(seed + i * 10) * width;
+      const y = seededRandom(seed + i * 10 + 1) * height;
+      const r = 120 + seededRandom(seed + i * 10 + 2) * 260;
+      ctx.beginPath();
+      ctx.arc(x, y, r, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    ctx.globalAlpha = 1;
+  } else {
+    ctx.fillStyle = palette.bg;
+    ctx.fillRect(0, 0, width, height);
+  }
+}
+
+// Quotes in right-to-left scripts get the whole layout mirrored
+function isRtl(content: CardContent) {
+  return textDirection(plainText(content.quote)) === "rtl";
+}
+
+// Draws the layout's decorations and returns where the text should sit
+function paintLayout(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  padding: number,
+  design: Design,
+  rtl: boolean,
+): TextBox {
+  const { palette, layout } = design;
+
+  if (rtl) {
+    ctx.save();
+    ctx.translate(width, 0);
+    ctx.scale(-1, 1);
+  }
+
+  let contentY = height * 0.52;
+  let contentX = width * 0.5;
+  let align: CanvasTextAlign = "center";
+  let innerMax = width - padding * 2;
+
+  if (layout === "left") {
+    align = "left";
+    contentX = padding;
+    contentY = height * 0.46;
+  } else if (layout === "icon-top") {
+    contentY = height * 0.56;
+    ctx.globalAlpha = 0.25;
+    ctx.fillStyle = palette.accent;
+    ctx.beginPath();
+    ctx.arc(width * 0.5, height * 0.22, 54, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.globalAlpha = 1;
+  } else if (layout === "bordered") {
+    ctx.strokeStyle = palette.accent;
+    ctx.lineWidth = 7;
+    ctx.strokeRect(padding / 2, padding / 2, width - padding, height - padding);
+    innerMax = width - padding * 3;
+  } else if (layout === "split") {
+    ctx.globalAlpha = 0.18;
+    ctx.fillStyle = palette.accent;
+    if (height >= width) {
+      ctx.fillRect(0, 0, width, height * 0.32);
+      contentY = height * 0.58;
+    } else {
+      ctx.fillRect(0, 0, width * 0.32, height);
+      align = "left";
+      contentX = width * 0.38;
+      innerMax = width * 0.55;
+    }
+    ctx.globalAlpha = 1;
+  } else if (layout === "underline") {
+    ctx.globalAlpha = 0.22;
+    ctx.fillStyle = palette.accent;
+    ctx.fillRect(padding, height * 0.72, width - padding * 2, 10);
+    ctx.globalAlpha = 1;
+  } else if (layout === "footer") {
+    ctx.globalAlpha = 0.18;
+    ctx.fillStyle = palette.accent;
+    ctx.fillRect(0, height * 0.82, width, height * 0.18);
+    ctx.globalAlpha = 1;
+    contentY = height * 0.48;
+  } else if (layout === "corner-frame") {
+    ctx.strokeStyle = palette.accent;
+    ctx.lineWidth = 8;
+    const s = padding * 0.9;
+    const p = padding * 0.6;
+    ctx.beginPath();
+    ctx.moveTo(p, p + s);
+    ctx.lineTo(p, p);
+    ctx.lineTo(p + s, p);
+    ctx.moveTo(width - p - s, p);
+    ctx.lineTo(width - p, p);
+    ctx.lineTo(width - p, p + s);
+    ctx.moveTo(p, height - p - s);
+    ctx.lineTo(p, height - p);
+    ctx.lineTo(p + s, height - p);
+    ctx.moveTo(width - p - s, height - p);
+    ctx.lineTo(width - p, height - p);
+    ctx.lineTo(width - p, height - p - s);
+    ctx.stroke();
+    innerMax = width - padding * 2.4;
+  } else if (layout === "diagonal") {
+    ctx.globalAlpha = 0.18;
+    ctx.fillStyle = palette.accent;
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    ctx.lineTo(width, 0);
+    ctx.lineTo(width, height * 0.45);
+    ctx.closePath();
+    ctx.fill();
+    ctx.globalAlpha = 1;
+    contentY = height * 0.58;
+  }
+
+  if (rtl) {
+    ctx.restore();
+    if (align === "left") {
+      return { contentX: width - contentX, contentY, align: "right", innerMax };
+    }
+  }
+  return { contentX, contentY, align, innerMax };
+}
+
+type TextColors = ReturnType<typeof chooseTextColors>;
+
+// Background, doodles and layout shapes (everything under the text).
+// Leaves the rounded-corner clip applied; callers restore.
+function paintScene(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  content: CardContent,
+  grain: boolean,
+): TextBox {
+  const { design } = content;
+  const { padding } = textMetrics(width, content);
+
+  // clip
+  ctx.save();
+  roundedRectPath(ctx, 0, 0, width, height, Number(content.radius) || 0);
+  ctx.clip();
+
+  paintBackground(ctx, width, height, design, grain);
+
+  // doodles (except minimal pack)
+  if (content.stylePack !== "minimal") {
+    const doodleColor =
+      design.bgType === "dark" ? "rgba(255,255,255,1)" : design.palette.accent;
+    drawDoodles(ctx, width, height, doodleColor, design.seed + 999);
+  }
+
+  return paintLayout(ctx, width, height, padding, design, isRtl(content));
+}
+
+type LogoBox = { image: CardImage; x: number; y: number; w: number; h: number };
+type Watermark = {
+  text: string;
+  x: number;
+  y: number;
+  align: CanvasTextAlign;
+  font: string;
+  maxWidth: number;
+};
+
+// Where the brand logo and the tagline/URL watermark go
+type BrandLayout = { logo: LogoBox | null; mark: Watermark | null };
+
+// Logo fits a box relative to the card width, keeping its aspect ratio
+function logoSize(width: number, image: CardImage) {
+  const scale = Math.min(
+    (width * 0.07) / image.height,
+    (width * 0.28) / image.width,
+  );
+  return { w: image.width * scale, h: image.height * scale };
+}
+
+function brandLogo(content: CardContent) {
+  const src = content.brand?.logoUrl;
+  return (src && content.images?.[src]) || null;
+}
+
+function watermarkText(content: CardContent) {
+  const { tagline, url } = content.brand ?? {};
+  return [tagline, url].filter(Boolean).join("  ·  ");
+}
+
+// Extra height the brand takes from the text; used when growing the card
+function brandExtent(width: number, content: CardContent) {
+  const { padding } = textMetrics(width, content);
+  const image = brandLogo(content);
+  let extra = image ? logoSize(width, image).h + padding * 0.3 : 0;
+  if (watermarkText(content)) extra += width * 0.022 + padding * 0.3;
+  return extra;
+}
+
+// Brand placement follows the layout's decorations: centred in the split
+// band or the icon-top circle (unless the photo is there), inside the footer
+// band, opposite the diagonal, left-aligned for left layouts, otherwise top
+// centre with the watermark at the bottom. Everything stays inside the safe
+// zone.
+function layoutBrand(
+  width: number,
+  height: number,
+  padding: number,
+  content: CardContent,
+): BrandLayout {
+  const image = brandLogo(content);
+  const text = watermarkText(content);
+  if (!image && !text) return { logo: null, mark: null };
+
+  const { layout, font } = content.design;
+  const zone = content.safeZone;
+  const top = zone?.top ?? 0;
+  const bottom = height - (zone?.bottom ?? 0);
+  const left = zone?.left ?? 0;
+  const right = width - (zone?.right ?? 0);
+  const centerX = (left + right) / 2;
+  const margin = padding * 0.7;
+
+  const size = image ? logoSize(width, image) : { w: 0, h: 0 };
+  const markSize = Math.round(width * 0.022);
+  const markFont = `600 ${markSize}px ${withScriptFallbacks(font.author)}`;
+
+  // placed as for left-to-right text, then mirrored inside the safe zone
+  const rtl = isRtl(content);
+  const flip = (x: number, w = 0) => (rtl ? left + right - x - w : x);
+  const flipAlign = (align: CanvasTextAlign): CanvasTextAlign =>
+    !rtl || align === "center" ? align : align === "left" ? "right" : "left";
+
+  const logoAt = (x: number, y: number): LogoBox | null =>
+    image ? { image, x: flip(x, size.w), y, ...size } : null;
+  const markAt = (
+    x: number,
+    y: number,
+    align: CanvasTextAlign,
+    maxWidth = right - left - margin * 2,
+  ): Watermark | null =>
+    text
+      ? {
+          text,
+          x: flip(x),
+          y,
+          align: flipAlign(align),
+          font: markFont,
+          maxWidth,
+        }
+      : null;
+
+  const leftX = Math.max(padding, left + padding);
+  const bottomMark =
+    layout === "left"
+      ? markAt(leftX, bottom - margin - markSize, "left")
+      : markAt(centerX, bottom - margin - markSize, "center");
+
+  if (layout === "footer" && bottom - height * 0.82 >= size.h + margin) {
+    const cy = (height * 0.82 + bottom) / 2;
+    return {
+      logo: logoAt(left + margin, cy - size.h / 2),
+      mark: markAt(
+        right - margin,
+        cy - markSize / 2,
+        "right",
+        right - left - size.w - margin * 3,
+      ),
+    };
+  }
+  if (layout === "split" && height < width) {
+    return {
+      logo: logoAt(width * 0.16 - size.w / 2, height / 2 - size.h / 2),
+      mark: markAt(
+        width * 0.38,
+        bottom - margin - markSize,
+        "left",
+        width * 0.55,
+      ),
+    };
+  }
+  if (layout === "split") {
+    const cy = (top + height * 0.32) / 2;
+    return {
+      logo: logoAt(centerX - size.w / 2, cy - size.h / 2),
+      mark: bottomMark,
+    };
+  }
+  // the customer photo takes the circle when there is one
+  if (layout === "icon-top" && !avatarImage(content)) {
+    return {
+      logo: logoAt(width * 0.5 - size.w / 2, height * 0.22 - size.h / 2),
+      mark: bottomMark,
+    };
+  }
+  if (layout === "diagonal") {
+    return {
+      logo: logoAt(right - margin - size.w, top + margin),
+      mark: bottomMark,
+    };
+  }
+  if (layout === "left") {
+    return { logo: logoAt(leftX, top + margin), mark: bottomMark };
+  }
+  return { logo: logoAt(centerX - size.w / 2, top + margin), mark: bottomMark };
+}
+
+// Customer photo: in the icon-top circle, beside the author on left-aligned
+// layouts, otherwise above the quote
+type AvatarSpot = "circle" | "beside" | "above";
+type AvatarBox = {
+  image: CardImage;
+  x: number;
+  y: number;
+  size: number;
+  shape: CardAvatar["shape"];
+};
+
+function avatarImage(content: CardContent) {
+  const src = content.avatar?.url;
+  return (src && content.images?.[src]) || null;
+}
+
+function avatarSpot(
+  content: CardContent,
+  width: number,
+  height: number,
+): AvatarSpot | null {
+  if (!avatarImage(content)) return null;
+  const { layout } = content.design;
+  if (layout === "icon-top") return "circle";
+  const aligned = layout === "left" || (layout === "split" && height < width);
+  return aligned && content.author.trim() ? "beside" : "above";
+}
+
+// Photo size and the height it adds to the text block
+function avatarMetrics(
+  spot: AvatarSpot | null,
+  width: number,
+  m: { qSize: number; aSize: number; aBlock: number },
+) {
+  if (spot === "circle") return { size: Math.round(width * 0.13), block: 0 };
+  if (spot === "beside") {
+    const size = Math.round(m.aSize * 2.4);
+    return { size, block: Math.max(0, size - m.aBlock) };
+  }
+  if (spot === "above") {
+    const size = Math.round(m.qSize * 2.6);
+    return { size, block: size + m.qSize * 0.7 };
+  }
+  return { size: 0, block: 0 };
+}
+
+type TextLine = { text: string; x: number; y: number };
+// Source pill under the author, anchored like the text
+type Badge = { text: string; x: number; y: number; size: number; font: string };
+// Rating stars, anchored like the text; `fills` from starFills
+type StarRow = { x: number; y: number; size: number; fills: number[] };
+// A quote line is styled runs; x is the anchor for the layout's alignment
+type QuoteLine = { runs: TextRun[]; x: number; y: number; width: number };
+
+// Quote font per emphasis style: strong is bold, mark keeps the plain face
+function quoteFontFor(qSize: number, stack: string) {
+  const family = withScriptFallbacks(stack);
+  const plain = `${qSize}px ${family}`;
+  const strong = `700 ${qSize}px ${family}`;
+  return (style: RunStyle) => (style === "strong" ? strong : plain);
+}
+
+// Where every line of text lands; shared by static and animated output
+type TextLayout = {
+  align: CanvasTextAlign;
+  direction: "ltr" | "rtl";
+  quoteFont: (style: RunStyle) => string;
+  quoteSize: number;
+  authorFont: string;
+  lines: QuoteLine[];
+  author: TextLine | null;
+  stars: StarRow | null;
+  avatar: AvatarBox | null;
+  badge: Badge | null;
+  brand: BrandLayout;
+  // false when the text overflows its box (even at FIT_MIN_SCALE in fit mode)
+  fits: boolean;
+};
+
+// Where text may go. With a platform safe zone the layout keeps its
+// proportions, measured against the uncovered part of the card instead.
+function textArea(
+  width: number,
+  height: number,
+  padding: number,
+  box: TextBox,
+  zone?: SafeZone,
+) {
+  if (!zone) {
+    return {
+      ...box,
+      centerX: width / 2,
+      safeTop: padding * 0.9,
+      safeBottom: height - padding * 0.9,
+    };
+  }
+
+  const visibleW = width - zone.left - zone.right;
+  const visibleH = height - zone.top - zone.bottom;
+  return {
+    align: box.align,
+    contentX:
+      box.align === "right"
+        ? Math.min(box.contentX, width - zone.right - padding)
+        : Math.max(box.contentX, zone.left + padding),
+    contentY: zone.top + (box.contentY / height) * visibleH,
+    innerMax: Math.min(box.innerMax, visibleW - padding * 2),
+    centerX: zone.left + visibleW / 2,
+    safeTop: Math.max(padding * 0.9, zone.top),
+    safeBottom: Math.min(height - padding * 0.9, height - zone.bottom),
+  };
+}
+
+// Largest type scale whose text fits, by bisection. Below the minimum it
+// stays at the minimum and the layout reports that the text doesn't fit.
+function fitScale(setText: (scale: number) => { fits: boolean }) {
+  if (setText(FIT_MAX_SCALE).fits) return FIT_MAX_SCALE;
+  if (!setText(FIT_MIN_SCALE).fits) return FIT_MIN_SCALE;
+  let lo = FIT_MIN_SCALE;
+  let hi = FIT_MAX_SCALE;
+  for (let i = 0; i < FIT_STEPS; i++) {
+    const mid = (lo + hi) / 2;
+    if (setText(mid).fits) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// At FIT_MIN_SCALE a long quote can still be too tall for a fixed size:
+// keep the lines that fit and end the last with "…", so the author below it
+// stays on the card. `fits` stays false, so the overflow is still reported.
+function truncateQuote<
+  T extends {
+    textLines: TextRun[][];
+    totalH: number;
+    qLine: number;
+    quoteFont: (style: RunStyle) => string;
+  },
+>(ctx: CanvasRenderingContext2D, text: T, room: number, maxWidth: number): T {
+  const over = Math.ceil((text.totalH - room) / text.qLine);
+  const keep = Math.max(1, text.textLines.length - over);
+  if (over <= 0 || keep === text.textLines.length) return text;
+  const textLines = text.textLines.slice(0, keep);
+  textLines[keep - 1] = ellipsizeRuns(
+    ctx,
+    textLines[keep - 1],
+    maxWidth,
+    text.quoteFont,
+  );
+  const totalH = text.totalH - (text.textLines.length - keep) * text.qLine;
+  return { ...text, textLines, totalH };
+}
+
+function layoutText(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  content: CardContent,
+  box: TextBox,
+): TextLayout {
+  const { quote, author } = content;
+  const { font } = content.design;
+  const { padding, hasAuthor } = textMetrics(width, content);
+  const { contentX, contentY, align, innerMax, centerX, ...area } = textArea(
+    width,
+    height,
+    padding,
+    box,
+    content.safeZone,
+  );
+  let { safeTop, safeBottom } = area;
+
+  // keep the text clear of the logo above it and the watermark below
+  const brand = layoutBrand(width, height, padding, content);
+  const textLeft =
+    align === "left"
+      ? contentX
+      : align === "right"
+        ? contentX - innerMax
+        : centerX - innerMax / 2;
+  const { logo, mark } = brand;
+  if (
+    logo &&
+    logo.y + logo.h < height / 2 &&
+    logo.x < textLeft + innerMax &&
+    logo.x + logo.w > textLeft
+  ) {
+    safeTop = Math.max(safeTop, logo.y + logo.h + padding * 0.3);
+  }
+  if (mark) safeBottom = Math.min(safeBottom, mark.y - padding * 0.3);
+
+  const spot = avatarSpot(content, width, height);
+  const photo = avatarImage(content);
+  const shape = content.avatar?.shape ?? "circle";
+  const circleSize = avatarMetrics(
+    spot,
+    width,
+    textMetrics(width, content),
+  ).size;
+  if (spot === "circle") {
+    safeTop = Math.max(safeTop, height * 0.22 + circleSize / 2 + padding * 0.3);
+  }
+
+  // Wraps the quote at `scale` × the normal type size
+  const runs = parseEmphasis(quote);
+  const badge = content.source ? badgeText(content.source) : null;
+  const setText = (scale: number) => {
+    const m = textMetrics(width, content, scale);
+    const av = avatarMetrics(spot, width, m);
+    const quoteFont = quoteFontFor(m.qSize, font.quote);
+    const authorWeight = fontWeight(font.family, 800);
+    const authorFont = `${authorWeight} ${m.aSize}px ${withScriptFallbacks(font.author)}`;
+    const textLines = wrapTextSmart(ctx, runs, innerMax, quoteFont);
+    const badgeFont = `700 ${m.bSize}px ${withScriptFallbacks(font.author)}`;
+    const totalH =
+      av.block +
+      m.sBlock +
+      textLines.length * m.qLine +
+      m.aGap +
+      m.aBlock +
+      m.bGap +
+      m.bBlock;
+    ctx.font = authorFont;
+    const authorW =
+      ctx.measureText(author).width +
+      (spot === "beside" ? av.size + m.aSize * 0.6 : 0);
+    ctx.font = badgeFont;
+    const badgeW = badge ? ctx.measureText(badge).width + m.bSize * 1.4 : 0;
+    const fits =
+      totalH <= safeBottom - safeTop &&
+      (!m.hasAuthor || authorW <= innerMax) &&
+      badgeW <= innerMax;
+    return {
+      ...m,
+      av,
+      quoteFont,
+      authorFont,
+      badgeFont,
+      textLines,
+      totalH,
+      fits,
+    };
+  };
+
+  const {
+    qSize,
+    qLine,
+    aSize,
+    aGap,
+    aBlock,
+    av,
+    sSize,
+    sBlock,
+    bSize,
+    bGap,
+    quoteFont,
+    authorFont,
+    badgeFont,
+    textLines,
+    totalH,
+    fits,
+  } = content.fitText
+    ? truncateQuote(
+        ctx,
+        setText(fitScale(setText)),
+        safeBottom - safeTop,
+        innerMax,
+      )
+    : setText(1);
+
+  let y = computeSafeStartY(contentY, totalH, safeTop, safeBottom);
+  const x = align === "center" ? centerX : contentX;
+  // left edge of something `w` wide, aligned like the text
+  const alignedLeft = (w: number) =>
+    align === "left" ? x : align === "right" ? x - w : x - w / 2;
+  const avatarAt = (ax: number, ay: number, size: number): AvatarBox | null =>
+    photo ? { image: photo, x: ax, y: ay, size, shape } : null;
+
+  let avatar: AvatarBox | null = null;
+  if (spot === "circle") {
+    avatar = avatarAt(
+      width * 0.5 - av.size / 2,
+      height * 0.22 - av.size / 2,
+      av.size,
+    );
+  } else if (spot === "above") {
+    avatar = avatarAt(alignedLeft(av.size), y, av.size);
+    y += av.block;
+  }
+
+  const { rating } = content;
+  const stars = isRating(rating)
+    ? { x, y, size: sSize, fills: starFills(rating) }
+    : null;
+  y += sBlock;
+
+  const lines = textLines.map((runs) => {
+    const line = { runs, x, y, width: measureRuns(ctx, runs, quoteFont) };
+    y += qLine;
+    return line;
+  });
+
+  // beside the author: photo at the row's start, name centred on it
+  let authorLine = hasAuthor ? { text: author, x, y: y + aGap } : null;
+  if (authorLine && spot === "beside") {
+    const rtl = align === "right";
+    const shift = av.size + aSize * 0.6;
+    avatar = avatarAt(rtl ? x - av.size : x, y + aGap, av.size);
+    authorLine = {
+      text: author,
+      x: rtl ? x - shift : x + shift,
+      y: y + aGap + (av.size - aSize * 1.2) / 2,
+    };
+  }
+
+  const authorBottom = y + aGap + aBlock + (spot === "beside" ? av.block : 0);
+  const badgeBox = badge
+    ? {
+        text: badge,
+        x: authorLine?.x ?? x,
+        y: authorBottom + bGap,
+        size: bSize,
+        font: badgeFont,
+      }
+    : null;
+
+  return {
+    align,
+    direction: isRtl(content) ? "rtl" : "ltr",
+    quoteFont,
+    quoteSize: qSize,
+    authorFont,
+    lines,
+    author: authorLine,
+    stars,
+    avatar,
+    badge: badgeBox,
+    brand,
+    fits,
+  };
+}
+
+// Runs are drawn in reading order from the line's aligned start (right to
+// left for RTL quotes). Strong runs take the accent colour; mark runs get a
+// marker stroke behind them.
+function paintQuoteLine(
+  ctx: CanvasRenderingContext2D,
+  layout: TextLayout,
+  line: QuoteLine,
+  colors: TextColors,
+  dy = 0,
+) {
+  const { align, direction, quoteSize } = layout;
+  const start =
+    align === "left"
+      ? line.x
+      : align === "right"
+        ? line.x - line.width
+        : line.x - line.width / 2;
+  const rtl = direction === "rtl";
+  let end = start + line.width;
+  let x = start;
+  const y = line.y + dy;
+
+  ctx.direction = direction;
+  ctx.textAlign = "left";
+  ctx.textBaseline = "top";
+  for (const run of line.runs) {
+    ctx.font = layout.quoteFont(run.style);
+    const w = ctx.measureText(run.text).width;
+    if (rtl) {
+      end -= w;
+      x = end;
+    }
+    if (run.style === "mark") {
+      const pad = quoteSize * 0.12;
+      ctx.save();
+      ctx.globalAlpha *= 0.38;
+      ctx.fillStyle = colors.markColor;
+      ctx.fillRect(x - pad, y + quoteSize * 0.2, w + pad * 2, quoteSize);
+      ctx.restore();
+    }
+    ctx.fillStyle =
+      run.style === "strong" ? colors.accentColor : colors.quoteColor;
+    ctx.fillText(run.text, x, y);
+    x += w;
+  }
+}
+
+function starPath(
+  ctx: CanvasRenderingContext2D,
+  cx: number,
+  cy: number,
+  outer: number,
+) {
+  const inner = outer * 0.48;
+  ctx.beginPath();
+  for (let i = 0; i < 10; i++) {
+    const r = i % 2 === 0 ? outer : inner;
+    const angle = (Math.PI * i) / 5 - Math.PI / 2;
+    const px = cx + Math.cos(angle) * r;
+    const py = cy + Math.sin(angle) * r;
+    if (i === 0) ctx.moveTo(px, py);
+    else ctx.lineTo(px, py);
+  }
+  ctx.closePath();
+}
+
+// Faint outline stars, filled (halves clipped) up to the rating; RTL cards
+// fill from the right
+function paintStars(
+  ctx: CanvasRenderingContext2D,
+  layout: TextLayout,
+  colors: TextColors,
+  dy = 0,
+) {
+  const { stars, align, direction } = layout;
+  if (!stars) return;
+  const { size, fills } = stars;
+  const gap = size * 0.28;
+  const rowW = fills.length * size + (fills.length - 1) * gap;
+  const left =
+    align === "left"
+      ? stars.x
+      : align === "right"
+        ? stars.x - rowW
+        : stars.x - rowW / 2;
+  const y = stars.y + dy;
+  const alpha = ctx.globalAlpha;
+
+  ctx.save();
+  ctx.fillStyle = colors.starColor;
+  fills.forEach((fill, i) => {
+    const slot = direction === "rtl" ? fills.length - 1 - i : i;
+    const x = left + slot * (size + gap);
+    starPath(ctx, x + size / 2, y + size / 2, size / 2);
+    ctx.globalAlpha = alpha * 0.28;
+    ctx.fill();
+    if (fill <= 0) return;
+
+    ctx.save();
+    ctx.beginPath();
+    const w = size * fill;
+    ctx.rect(direction === "rtl" ? x + size - w : x, y, w, size);
+    ctx.clip();
+    starPath(ctx, x + size / 2, y + size / 2, size / 2);
+    ctx.globalAlpha = alpha;
+    ctx.fill();
+    ctx.restore();
+  });
+  ctx.restore();
+}
+
+// Names and watermarks take their own direction; alignment follows the card
+function setTextDirection(ctx: CanvasRenderingContext2D, text: string) {
+  ctx.direction = textDirection(text);
+}
+
+function paintText(
+  ctx: CanvasRenderingContext2D,
+  layout: TextLayout,
+  colors: TextColors,
+) {
+  paintStars(ctx, layout, colors);
+  for (const line of layout.lines) paintQuoteLine(ctx, layout, line, colors);
+
+  ctx.textAlign = layout.align;
+  ctx.textBaseline = "top";
+  if (layout.author) {
+    const { text, x, y } = layout.author;
+    setTextDirection(ctx, text);
+    ctx.font = layout.authorFont;
+    ctx.fillStyle = colors.authorColor;
+    ctx.fillText(text, x, y);
+  }
+  paintBadge(ctx, layout, colors);
+}
+
+// Rounded pill in a tint of the quote colour; the label is English, so it
+// always reads left to right
+function paintBadge(
+  ctx: CanvasRenderingContext2D,
+  layout: TextLayout,
+  colors: TextColors,
+  dx = 0,
+) {
+  const { badge, align } = layout;
+  if (!badge) return;
+  const { text, size, font } = badge;
+  ctx.font = font;
+  const w = ctx.measureText(text).width + size * 1.4;
+  const h = size * 1.9;
+  const x =
+    (align === "left"
+      ? badge.x
+      : align === "right"
+        ? badge.x - w
+        : badge.x - w / 2) + dx;
+
+  ctx.fillStyle = colors.badgeFill;
+  roundedRectPath(ctx, x, badge.y, w, h, h / 2);
+  ctx.fill();
+  ctx.direction = "ltr";
+  ctx.textAlign = "left";
+  ctx.textBaseline = "middle";
+  ctx.fillStyle = colors.badgeText;
+  ctx.fillText(text, x + size * 0.7, badge.y + h / 2);
+}
+
+function paintAvatar(ctx: CanvasRenderingContext2D, avatar: AvatarBox | null) {
+  if (!avatar) return;
+  const { image, x, y, size, shape } = avatar;
+  ctx.save();
+  if (shape === "circle") {
+    ctx.beginPath();
+    ctx.arc(x + size / 2, y + size / 2, size / 2, 0, Math.PI * 2);
+  } else {
+    roundedRectPath(ctx, x, y, size, size, size * 0.22);
+  }
+  ctx.clip();
+  // centre square, in case the photo wasn't cropped on upload
+  const side = Math.min(image.width, image.height);
+  ctx.drawImage(
+    image as unknown as CanvasImageSource,
+    (image.width - side) / 2,
+    (image.height - side) / 2,
+    side,
+    side,
+    x,
+    y,
+    size,
+    size,
+  );
+  ctx.restore();
+}
+
+function paintBrand(
+  ctx: CanvasRenderingContext2D,
+  { logo, mark }: BrandLayout,
+  colors: TextColors,
+) {
+  if (logo) {
+    const image = logo.image as unknown as CanvasImageSource;
+    ctx.drawImage(image, logo.x, logo.y, logo.w, logo.h);
+  }
+  if (mark) {
+    ctx.save();
+    ctx.globalAlpha = 0.72;
+    ctx.font = mark.font;
+    setTextDirection(ctx, mark.text);
+    ctx.textAlign = mark.align;
+    ctx.textBaseline = "top";
+    ctx.fillStyle = colors.quoteColor;
+    ctx.fillText(mark.text, mark.x, mark.y, mark.maxWidth);
+    ctx.restore();
+  }
+}
+
+function sizeCanvas(canvas: CardCanvas, size: CardSize) {
+  canvas.width = Math.max(1, Math.round(size.width) || 1);
+  canvas.height = Math.max(1, Math.round(size.height) || 1);
+  return { width: canvas.width, height: canvas.height };
+}
+
+export type RenderResult = { textFits: boolean };
+
+// Paints `content` onto `canvas` at exactly `size`
+export function renderCard(
+  canvas: CardCanvas,
+  content: CardContent,
+  size: CardSize,
+): RenderResult {
+  const { width, height } = sizeCanvas(canvas, size);
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return { textFits: true };
+
+  const box = paintScene(ctx, width, height, content, true);
+  const colors = chooseTextColors(ctx, width, height, content.design.palette);
+  const layout = layoutText(ctx, width, height, content, box);
+  paintText(ctx, layout, colors);
+  paintAvatar(ctx, layout.avatar);
+  paintBrand(ctx, layout.brand, colors);
+
+  ctx.restore();
+  return { textFits: layout.fits };
+}
+
+// Same card onto a vector context (SVG/PDF). Those can't read pixels back,
+// so text colours are sampled from `raster`, a scratch canvas painted the
+// same way, and the noise grain (a per-pixel effect) is left out.
+export function renderCardVector(
+  ctx: CanvasRenderingContext2D,
+  raster: CardCanvas,
+  content: CardContent,
+  size: CardSize,
+) {
+  const { width, height } = sizeCanvas(raster, size);
+  const rasterCtx = raster.getContext("2d");
+  if (!rasterCtx) return;
+
+  paintScene(rasterCtx, width, height, content, true);
+  const colors = chooseTextColors(
+    rasterCtx,
+    width,
+    height,
+    content.design.palette,
+  );
+  rasterCtx.restore();
+
+  const box = paintScene(ctx, width, height, content, false);
+  const layout = layoutText(ctx, width, height, content, box);
+  paintText(ctx, layout, colors);
+  paintAvatar(ctx, layout.avatar);
+  paintBrand(ctx, layout.brand, colors);
+  ctx.restore();
+}
+
+// Story / Reels animation timeline (ms)
+const BG_FADE = 600;
+const LINE_START = 450;
+const LINE_STAGGER = 260;
+const LINE_REVEAL = 480;
+const AUTHOR_DELAY = 200;
+const AUTHOR_SLIDE = 520;
+const HOLD = 2200;
+
+export type CardAnimation = {
+  // total length including the final hold
+  duration: number;
+  // from here on every frame is the finished card
+  settledAt: number;
+  paintFrame(t: number): void;
+};
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+const easeOut = (v: number) => 1 - Math.pow(1 - clamp01(v), 3);
+
+// Frame-by-frame version of renderCard: background fades in, quote lines
+// reveal one by one, then the author slides in. The background is painted
+// once onto `scratch` and reused for every frame.
+export function animateCard(
+  canvas: CardCanvas,
+  scratch: CardCanvas,
+  content: CardContent,
+  size: CardSize,
+): CardAnimation | null {
+  const { width, height } = sizeCanvas(canvas, size);
+  sizeCanvas(scratch, size);
+  const ctx = canvas.getContext("2d");
+  const sceneCtx = scratch.getContext("2d");
+  if (!ctx || !sceneCtx) return null;
+
+  const box = paintScene(sceneCtx, width, height, content, true);
+  const colors = chooseTextColors(
+    sceneCtx,
+    width,
+    height,
+    content.design.palette,
+  );
+
+  // the brand and photo are static, so they fade in with the background
+  const layout = layoutText(ctx, width, height, content, box);
+  paintAvatar(sceneCtx, layout.avatar);
+  paintBrand(sceneCtx, layout.brand, colors);
+  sceneCtx.restore();
+  const rise = Math.round(width * 0.025);
+  const slide = Math.round(width * 0.06);
+  const authorAt =
+    LINE_START +
+    Math.max(0, layout.lines.length - 1) * LINE_STAGGER +
+    LINE_REVEAL +
+    AUTHOR_DELAY;
+  const settledAt =
+    layout.author || layout.badge ? authorAt + AUTHOR_SLIDE : authorAt;
+  const scene = scratch as unknown as CanvasImageSource;
+
+  const paintFrame = (t: number) => {
+    ctx.save();
+    ctx.clearRect(0, 0, width, height);
+    roundedRectPath(ctx, 0, 0, width, height, Number(content.radius) || 0);
+    ctx.clip();
+
+    ctx.fillStyle = content.design.palette.bg;
+    ctx.fillRect(0, 0, width, height);
+    ctx.globalAlpha = easeOut(t / BG_FADE);
+    ctx.drawImage(scene, 0, 0);
+
+    // stars rise in with the first line
+    const starsP = easeOut((t - LINE_START) / LINE_REVEAL);
+    if (starsP > 0) {
+      ctx.globalAlpha = starsP;
+      paintStars(ctx, layout, colors, (1 - starsP) * rise);
+    }
+
+    layout.lines.forEach((line, i) => {
+      const p = easeOut((t - LINE_START - i * LINE_STAGGER) / LINE_REVEAL);
+      if (p <= 0) return;
+      ctx.globalAlpha = p;
+      paintQuoteLine(ctx, layout, line, colors, (1 - p) * rise);
+    });
+
+    ctx.textAlign = layout.align;
+    ctx.textBaseline = "top";
+    if (layout.author) {
+      const p = easeOut((t - authorAt) / AUTHOR_SLIDE);
+      if (p > 0) {
+        ctx.globalAlpha = p;
+        ctx.font = layout.authorFont;
+        ctx.fillStyle = colors.authorColor;
+        const { text, x, y } = layout.author;
+        setTextDirection(ctx, text);
+        // slides in from the side the text reads from
+        const from = layout.direction === "rtl" ? slide : -slide;
+        ctx.fillText(text, x + (1 - p) * from, y);
+      }
+    }
+    // the badge follows the author line
+    const badgeP = easeOut((t - authorAt) / AUTHOR_SLIDE);
+    if (badgeP > 0) {
+      ctx.globalAlpha = badgeP;
+      const from = layout.direction === "rtl" ? slide : -slide;
+      paintBadge(ctx, layout, colors, (1 - badgeP) * from);
+    }
+
+    ctx.restore();
+  };
+
+  return { duration: settledAt + HOLD, settledAt, paintFrame };
+}
+
+// What gets stored for a card painted from `content` at `size`, so the wall
+// can re-render it exactly (the reverse of contentFromRecord)
+export function recordFromContent(
+  content: CardContent,
+  size: CardSize,
+  extra: Pick<NewCardData, "preset" | "testimonialId" | "tags" | "createdAt">,
+): NewCardData {
+  const { design } = content;
+  return dropUndefined<NewCardData>({
+    quote: content.quote.trim(),
+    author: content.author.trim(),
+    width: size.width,
+    height: size.height,
+    palette: design.palette,
+    gradient: design.gradient,
+    font: design.font,
+    bgType: design.bgType,
+    layout: design.layout,
+    seed: design.seed,
+    preset: extra.preset,
+    radius: String(content.radius),
+    stylePack: content.stylePack,
+    quoteSizeMultiplier: content.quoteSizeMultiplier,
+    authorSizeMultiplier: content.authorSizeMultiplier,
+    fitText: content.fitText,
+    rating: content.rating,
+    avatar: content.avatar,
+    source: content.source,
+    brand: content.brand,
+    testimonialId: extra.testimonialId,
+    tags: extra.tags?.length ? extra.tags : undefined,
+    createdAt: extra.createdAt,
+  });
+}
+
+// `images` holds the decoded logo and photo (see loadCardImages)
+export function contentFromRecord(
+  card: CardData,
+  images?: CardImages,
+): CardContent {
+  return {
+    quote: card.quote,
+    author: card.author ?? "",
+    design: {
+      palette: card.palette,
+      gradient: card.gradient,
+      font: card.font,
+      bgType: card.bgType,
+      layout: card.layout,
+      seed: card.seed,
+    },
+    radius: card.radius,
+    stylePack: card.stylePack,
+    quoteSizeMultiplier: card.quoteSizeMultiplier,
+    authorSizeMultiplier: card.authorSizeMultiplier,
+    safeZone: findPreset(presetOf(card))?.safeZone,
+    fitText: card.fitText,
+    rating: card.rating,
+    avatar: card.avatar,
+    source: card.source,
+    brand: card.brand,
+    images,
+  };
+}
+
+// Re-render a stored wall record at the exact size it was uploaded with
+export function renderStoredCard(
+  canvas: CardCanvas,
+  card: CardData,
+  images?: CardImages,
+) {
+  return renderCard(canvas, contentFromRecord(card, images), {
+    width: Number(card.width),
+    height: Number(card.height),
+  });
+}
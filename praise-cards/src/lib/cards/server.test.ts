@@ -0,0 +1,44 @@
+import { createCanvas } from "@napi-rs/canvas";
+import { describe, expect, it } from "vitest";
+import { fontWeight, withScriptFallbacks } from "@/lib/cards/fonts";
+// registers the bundled fonts with Skia
+import "@/lib/cards/server";
+
+const ctx = createCanvas(1, 1).getContext("2d");
+
+function widthIn(font: string, text: string) {
+  ctx.font = font;
+  return ctx.measureText(text).width;
+}
+
+describe("server card fonts", () => {
+  it("follows each family with its non-Latin subsets", () => {
+    expect(withScriptFallbacks('"Inter", sans-serif')).toMatch(
+      /^"Inter", .*"Inter cyrillic", .*"Inter latin-ext", .*"Inter vietnamese", "Noto Sans Devanagari"/,
+    );
+  });
+
+  // single letters: across a whole word, kerning differs between font runs
+  it.each([
+    ["cyrillic", "ЖжЩщ"],
+    ["latin-ext", "ŚłęŽ"],
+    ["vietnamese", "ịệơư"],
+  ])("sets %s letters in the card font", (subset, letters) => {
+    const stack = withScriptFallbacks('"Lora", serif');
+    for (const letter of letters) {
+      expect(widthIn(`40px ${stack}`, letter)).toBe(
+        widthIn(`40px "Lora ${subset}", serif`, letter),
+      );
+      expect(widthIn(`40px ${stack}`, letter)).not.toBe(
+        widthIn("40px serif", letter),
+      );
+    }
+  });
+
+  it("asks for the heaviest author weight a family ships", () => {
+    expect(fontWeight("Lora", 800)).toBe(700);
+    expect(fontWeight("Inter", 800)).toBe(800);
+    // system stacks on older records
+    expect(fontWeight(undefined, 800)).toBe(800);
+  });
+});
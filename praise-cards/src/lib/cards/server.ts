@@ -0,0 +1,272 @@
+import { existsSync, readdirSync } from "node:fs";
+import path from "node:path";
+import {
+  createCanvas,
+  GifEncoder,
+  GlobalFonts,
+  loadImage,
+  PDFDocument,
+  SvgExportFlag,
+} from "@napi-rs/canvas";
+import {
+  SCRIPT_FONTS,
+  setScriptFallbacks,
+  setSubsetFallbacks,
+  usesScriptFonts,
+  WEB_FONTS,
+} from "@/lib/cards/fonts";
+import { type ImageLoader, loadCardImages } from "@/lib/cards/images";
+import {
+  animateCard,
+  contentFromRecord,
+  renderCardVector,
+  renderStoredCard,
+} from "@/lib/cards/renderer";
+import type { CardCanvas, CardData, CardImages } from "@/lib/cards/types";
+import {
+  clampQuality,
+  STORY_SIZE,
+  storyContent,
+  type ServerExportType,
+} from "@/lib/export/formats";
+
+// Server-side counterpart of painting into a <canvas>: same renderer,
+// backed by a Skia canvas so cards can be served as plain images.
+
+export const MIN_IMAGE_WIDTH = 64;
+
+type RasterType = "png" | "jpeg" | "webp";
+
+// GIF has no inter-frame compression, so the fallback is kept small: half
+// Story size, a low frame rate and a coarser (faster) palette
+const GIF_FPS = 8;
+const GIF_SCALE = 0.5;
+const GIF_QUALITY = 20;
+
+// Registers the bundled card fonts under their CSS family names, so
+// `800 40px "Inter"` picks the 800 face like a browser. Skia has no
+// unicode-range, so only Latin goes under the family name (another subset
+// would shadow it); the rest the CSS loads (latin-ext, Cyrillic…) get a
+// family each, which stacks list right after the main one.
+function registerCardFonts() {
+  const root = path.join(process.cwd(), "node_modules", "@fontsource");
+  const subsetFamilies: Record<string, string[]> = {};
+  for (const font of WEB_FONTS) {
+    const dir = path.join(root, font.id, "files");
+    const latin = path.join(dir, `${font.id}-latin-400-normal.woff2`);
+    if (!existsSync(latin)) {
+      console.warn(`Card font file missing: ${latin}`);
+      continue;
+    }
+    const subsets = readdirSync(dir)
+      .map((f) => f.match(new RegExp(`^${font.id}-(.+)-400-normal\\.woff2$`)))
+      .filter((m) => m !== null)
+      .map((m) => m[1]);
+    for (const subset of subsets) {
+      const family =
+        subset === "latin" ? font.family : `${font.family} ${subset}`;
+      for (const weight of font.weights) {
+        const file = path.join(
+          dir,
+          `${font.id}-${subset}-${weight}-normal.woff2`,
+        );
+        if (existsSync(file)) GlobalFonts.registerFromPath(file, family);
+      }
+    }
+    subsetFamilies[font.family] = subsets
+      .filter((s) => s !== "latin")
+      .map((s) => `${font.family} ${s}`);
+  }
+  setSubsetFallbacks(subsetFamilies);
+}
+
+// Script fallbacks: one subset file per weight, or for CJK every numbered
+// chunk under its own family name (one family can't hold overlapping files)
+function registerScriptFonts() {
+  const root = path.join(process.cwd(), "node_modules", "@fontsource");
+  const families: string[] = [];
+  for (const font of SCRIPT_FONTS) {
+    const dir = path.join(root, font.id, "files");
+    if (!existsSync(dir)) {
+      console.warn(`Script font missing: ${dir}`);
+      continue;
+    }
+    const subsets = font.subset
+      ? [font.subset]
+      : readdirSync(dir)
+          .map((f) =>
+            f.match(new RegExp(`^${font.id}-(\\d+)-400-normal\\.woff2$`)),
+          )
+          .filter((m) => m !== null)
+          .map((m) => m[1])
+          .sort((a, b) => Number(a) - Number(b));
+    for (const subset of subsets) {
+      const family = font.subset ? font.family : `${font.family} ${subset}`;
+      for (const weight of font.weights) {
+        const file = path.join(
+          dir,
+          `${font.id}-${subset}-${weight}-normal.woff2`,
+        );
+        if (existsSync(file)) GlobalFonts.registerFromPath(file, family);
+      }
+      families.push(family);
+    }
+  }
+  setScriptFallbacks(families);
+}
+
+registerCardFonts();
+registerScriptFonts();
+
+// Only inline images: a card record must not make the server fetch URLs
+const loadServerImage: ImageLoader = (src) => {
+  if (!src.startsWith("data:image/")) {
+    return Promise.reject(new Error("Only data URLs render server-side"));
+  }
+  return loadImage(src);
+};
+
+export function renderCardRaster(
+  card: CardData,
+  type: RasterType,
+  targetWidth?: number,
+  quality?: number,
+  images: CardImages = {},
+) {
+  const full = createCanvas(1, 1);
+  renderStoredCard(full as unknown as CardCanvas, card, images);
+
+  const w = clampWidth(targetWidth, full.width);
+  let out = full;
+  if (w !== full.width) {
+    // Paint at the stored size (grain + colour sampling depend on it), then scale
+    const h = Math.max(1, Math.round((full.height * w) / full.width));
+    out = createCanvas(w, h);
+    const ctx = out.getContext("2d");
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(full, 0, 0, w, h);
+  }
+
+  if (type === "png") return out.toBuffer("image/png");
+  return out.encodeSync(type, clampQuality(quality));
+}
+
+// Vector output keeps the stored size as its viewBox / page size (1px = 1pt).
+// Skia writes SVG text glyph by glyph in the named font, which breaks shaped
+// scripts (Arabic, Devanagari) and fonts viewers lack, so those are outlined.
+export function renderCardSvg(card: CardData, images: CardImages = {}) {
+  const { width, height } = storedSize(card);
+  const text = [card.quote, card.author, card.brand?.tagline, card.brand?.url];
+  const flags = usesScriptFonts(text.join(" "))
+    ? SvgExportFlag.ConvertTextToPaths
+    : SvgExportFlag.RelativePathEncoding;
+  const svg = createCanvas(width, height, flags);
+  renderCardVector(
+    svg.getContext("2d") as unknown as CanvasRenderingContext2D,
+    createCanvas(1, 1) as unknown as CardCanvas,
+    contentFromRecord(card, images),
+    { width, height },
+  );
+  return svg.getContent();
+}
+
+export function renderCardPdf(card: CardData, images: CardImages = {}) {
+  const { width, height } = storedSize(card);
+  const doc = new PDFDocument({
+    title: card.author ? `Praise from ${card.author}` : "Praise card",
+    creator: "Praise Cards",
+  });
+  renderCardVector(
+    doc.beginPage(width, height) as unknown as CanvasRenderingContext2D,
+    createCanvas(1, 1) as unknown as CardCanvas,
+    contentFromRecord(card, images),
+    { width, height },
+  );
+  doc.endPage();
+  return doc.close();
+}
+
+// Animated Story fallback for browsers that can't record WebM
+export function renderCardGif(card: CardData, images: CardImages = {}) {
+  const canvas = createCanvas(STORY_SIZE.width, STORY_SIZE.height);
+  const anim = animateCard(
+    canvas as unknown as CardCanvas,
+    createCanvas(1, 1) as unknown as CardCanvas,
+    storyContent(contentFromRecord(card, images)),
+    STORY_SIZE,
+  );
+  if (!anim) throw new Error("Canvas unavailable");
+
+  // frames are painted at Story size, so the layout matches the WebM, then
+  // scaled down
+  const width = Math.round(STORY_SIZE.width * GIF_SCALE);
+  const height = Math.round(STORY_SIZE.height * GIF_SCALE);
+  const frame = createCanvas(width, height);
+  const ctx = frame.getContext("2d");
+  const encoder = new GifEncoder(width, height, {
+    repeat: 0,
+    quality: GIF_QUALITY,
+  });
+  let previous: Uint8Array | undefined;
+  const addFrame = (t: number, delay: number) => {
+    anim.paintFrame(t);
+    ctx.drawImage(canvas, 0, 0, width, height);
+    const data = new Uint8Array(ctx.getImageData(0, 0, width, height).data);
+    // only the rows that changed since the last frame are stored; the rest
+    // of the previous frame stays on screen
+    const row = width * 4;
+    const unchanged = (y: number) =>
+      previous !== undefined &&
+      Buffer.compare(
+        data.subarray(y * row, (y + 1) * row),
+        previous.subarray(y * row, (y + 1) * row),
+      ) === 0;
+    let [top, bottom] = [0, height];
+    while (top < height - 1 && unchanged(top)) top++;
+    while (bottom > top + 1 && unchanged(bottom - 1)) bottom--;
+    encoder.addFrame(
+      data.subarray(top * row, bottom * row),
+      width,
+      bottom - top,
+      { delay, top },
+    );
+    previous = data;
+  };
+  const step = 1000 / GIF_FPS;
+  try {
+    for (let t = 0; t < anim.settledAt; t += step) addFrame(t, step);
+    // the settled card is one long frame
+    addFrame(anim.settledAt, anim.duration - anim.settledAt);
+    return encoder.finish();
+  } finally {
+    encoder.dispose();
+  }
+}
+
+// Decodes the card's images (brand logo) first, then renders
+export async function renderCardExport(
+  card: CardData,
+  type: ServerExportType,
+  targetWidth?: number,
+  quality?: number,
+) {
+  const images = await loadCardImages(card, loadServerImage);
+  if (type === "svg") return renderCardSvg(card, images);
+  if (type === "pdf") return renderCardPdf(card, images);
+  if (type === "gif") return renderCardGif(card, images);
+  return renderCardRaster(card, type, targetWidth, quality, images);
+}
+
+function storedSize(card: CardData) {
+  return {
+    width: Math.max(1, Math.round(Number(card.width)) || 1),
+    height: Math.max(1, Math.round(Number(card.height)) || 1),
+  };
+}
+
+// Never upscale past the stored export size
+function clampWidth(requested: number | undefined, fullWidth: number) {
+  if (!requested || !Number.isFinite(requested)) return fullWidth;
+  return Math.max(MIN_IMAGE_WIDTH, Math.min(fullWidth, Math.round(requested)));
+}
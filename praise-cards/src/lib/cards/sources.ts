@@ -0,0 +1,41 @@
+import type { CardSource, SourceKind } from "@/lib/cards/types";
+
+// Where a testimonial came from, shown as a badge under the author
+export const SOURCES: { id: SourceKind; label: string }[] = [
+  { id: "app-store", label: "App Store" },
+  { id: "google-play", label: "Google Play" },
+  { id: "trustpilot", label: "Trustpilot" },
+  { id: "x", label: "X" },
+  { id: "email", label: "Email" },
+];
+
+export function isSourceKind(value: unknown): value is SourceKind {
+  return SOURCES.some((s) => s.id === value);
+}
+
+export function sourceLabel(kind: SourceKind) {
+  return SOURCES.find((s) => s.id === kind)?.label ?? kind;
+}
+
+// Fixed locale and UTC so the browser and the server print the same date
+const DATE_FORMAT = new Intl.DateTimeFormat("en-GB", {
+  day: "numeric",
+  month: "short",
+  year: "numeric",
+  timeZone: "UTC",
+});
+
+// "2026-03-04" -> "4 Mar 2026"; null for anything that isn't a date
+export function formatReviewDate(date: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  const time = Date.parse(`${date}T00:00:00Z`);
+  return Number.isNaN(time) ? null : DATE_FORMAT.format(time);
+}
+
+// "App Store · 4 Mar 2026 · ✓ Verified"
+export function badgeText(source: CardSource) {
+  const date = source.date ? formatReviewDate(source.date) : null;
+  return [sourceLabel(source.kind), date, source.verified ? "✓ Verified" : null]
+    .filter(Boolean)
+    .join("  ·  ");
+}
@@ -0,0 +1,115 @@
+import { createCanvas } from "@napi-rs/canvas";
+import { describe, expect, it } from "vitest";
+import {
+  ellipsizeRuns,
+  measureRuns,
+  type RunStyle,
+  type TextRun,
+  textDirection,
+  wrapTextSmart,
+} from "@/lib/cards/text";
+
+const fontFor = (style: RunStyle) =>
+  style === "strong" ? "700 20px sans-serif" : "20px sans-serif";
+const ctx = createCanvas(1, 1).getContext(
+  "2d",
+) as unknown as CanvasRenderingContext2D;
+
+const plain = (text: string): TextRun[] => [{ text, style: "plain" }];
+const lineTexts = (lines: TextRun[][]) =>
+  lines.map((line) => line.map((r) => r.text).join(""));
+const segments = (text: string, granularity: "grapheme" | "word") =>
+  Array.from(new Intl.Segmenter(undefined, { granularity }).segment(text));
+
+describe("ellipsizeRuns", () => {
+  it("cuts the line short and ends it with an ellipsis", () => {
+    const runs = [
+      { text: "Set up our whole ", style: "plain" as const },
+      { text: "onboarding", style: "strong" as const },
+      { text: " flow in an afternoon.", style: "plain" as const },
+    ];
+    const maxWidth = measureRuns(ctx, runs, fontFor) / 2;
+    const line = ellipsizeRuns(ctx, runs, maxWidth, fontFor);
+
+    expect(measureRuns(ctx, line, fontFor)).toBeLessThanOrEqual(maxWidth);
+    expect(line.map((r) => r.text).join("")).toMatch(/^Set up our .*…$/);
+    expect(line.at(-1)?.text).not.toMatch(/\s…$/);
+  });
+
+  it("keeps a line that already fits, adding the ellipsis", () => {
+    const runs = [{ text: "Great tool", style: "plain" as const }];
+    expect(ellipsizeRuns(ctx, runs, 1000, fontFor)).toEqual([
+      { text: "Great tool…", style: "plain" },
+    ]);
+  });
+});
+
+describe("wrapTextSmart", () => {
+  it.each([
+    ["a Devanagari conjunct", "क्षत्रिय"],
+    ["ZWJ emoji sequences", "👩‍💻👨‍👩‍👧🏳️‍🌈"],
+  ])("never splits %s across lines", (_, word) => {
+    // narrower than any character, so every grapheme gets its own line
+    const lines = wrapTextSmart(ctx, plain(word), 1, fontFor);
+    expect(lineTexts(lines)).toEqual(
+      segments(word, "grapheme").map((g) => g.segment),
+    );
+  });
+
+  it("keeps graphemes whole when ellipsizing", () => {
+    const quote = "क्षत्रिय 👨‍👩‍👧👨‍👩‍👧";
+    const whole = segments(quote, "grapheme").map((g) => g.segment);
+    const prefixes = Array.from({ length: whole.length + 1 }, (_, i) =>
+      whole.slice(0, i).join("").trimEnd(),
+    );
+    for (let maxWidth = 20; maxWidth < 200; maxWidth += 3) {
+      const line = ellipsizeRuns(ctx, plain(quote), maxWidth, fontFor);
+      expect(prefixes).toContain(line[0].text.slice(0, -1));
+    }
+  });
+
+  it.each([
+    ["Chinese", "我们非常喜欢这个工具，每天都在用。"],
+    ["Japanese", "このアプリのおかげで毎日の作業がとても楽になりました。"],
+    ["Thai", "ฉันชอบแอปนี้มากเพราะใช้งานง่ายและรวดเร็ว"],
+  ])("breaks %s between words without adding spaces", (_, quote) => {
+    const maxWidth = measureRuns(ctx, plain(quote), fontFor) / 3;
+    const lines = lineTexts(
+      wrapTextSmart(ctx, plain(quote), maxWidth, fontFor),
+    );
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join("")).toBe(quote);
+    const boundaries = new Set(segments(quote, "word").map((w) => w.index));
+    let at = 0;
+    for (const line of lines) {
+      expect(boundaries.has(at)).toBe(true);
+      at += line.length;
+    }
+    // closing punctuation stays on the line before it
+    for (const line of lines) expect(line).not.toMatch(/^[，。]/);
+  });
+
+  it("keeps right-to-left text in logical order", () => {
+    const quote = "الخدمة ممتازة والدعم سريع جدا";
+    const maxWidth = measureRuns(ctx, plain(quote), fontFor) / 2;
+    const lines = lineTexts(
+      wrapTextSmart(ctx, plain(quote), maxWidth, fontFor),
+    );
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join(" ")).toBe(quote);
+  });
+});
+
+describe("textDirection", () => {
+  it.each([
+    ["شكرا لكم على الخدمة", "rtl"],
+    ["«שירות מעולה»", "rtl"],
+    ["2024: أفضل تطبيق", "rtl"],
+    ["Great app, شكرا", "ltr"],
+    ["123 !!!", "ltr"],
+  ])("reads %s as %s from its first letter", (text, direction) => {
+    expect(textDirection(text)).toBe(direction);
+  });
+});
@@ -0,0 +1,210 @@
+// Inline emphasis in quotes: **strong** (bold, accent colour) and
+// ==mark== (marker highlight behind the words)
+export type RunStyle = "plain" | "strong" | "mark";
+export type TextRun = { text: string; style: RunStyle };
+
+const MARKERS: Record<string, RunStyle> = { "**": "strong", "==": "mark" };
+
+// Splits markup into runs. A marker without its closing pair stays literal
+// text, and markers don't nest.
+export function parseEmphasis(text: string): TextRun[] {
+  const runs: TextRun[] = [];
+  const push = (t: string, style: RunStyle) => {
+    if (!t) return;
+    const last = runs[runs.length - 1];
+    if (last?.style === style) last.text += t;
+    else runs.push({ text: t, style });
+  };
+
+  let i = 0;
+  let plain = "";
+  while (i < text.length) {
+    const marker = text.slice(i, i + 2);
+    const style = MARKERS[marker];
+    const end = style ? text.indexOf(marker, i + 2) : -1;
+    if (style && end > i + 2) {
+      push(plain, "plain");
+      plain = "";
+      push(text.slice(i + 2, end), style);
+      i = end + 2;
+    } else {
+      plain += text[i];
+      i++;
+    }
+  }
+  push(plain, "plain");
+  return runs;
+}
+
+// Quote without the markup, for alt text and link previews
+export function plainText(text: string) {
+  return parseEmphasis(text)
+    .map((r) => r.text)
+    .join("");
+}
+
+// Base direction from the first strong letter (like dir="auto")
+export function textDirection(text: string): "ltr" | "rtl" {
+  const letter = text.match(/\p{L}/u)?.[0];
+  return letter && RTL.test(letter) ? "rtl" : "ltr";
+}
+
+const RTL =
+  /[\p{Script=Arabic}\p{Script=Hebrew}\p{Script=Syriac}\p{Script=Thaana}]/u;
+// Scripts written without spaces: lines may break between any two words
+const NO_SPACES =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+const OPENING_PUNCTUATION = /^[\p{Ps}\p{Pi}]+$/u;
+
+const graphemes = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+const wordSegments = new Intl.Segmenter(undefined, { granularity: "word" });
+
+// A grapheme (so conjuncts and emoji sequences are never split) and its style
+type StyledChar = { ch: string; style: RunStyle };
+// Unbreakable piece of a line, plus the style of the space before it (so the
+// marker runs unbroken across a highlighted phrase); null when it follows
+// the previous word directly, as in Japanese
+type Word = { chars: StyledChar[]; space: RunStyle | null };
+
+function toWords(runs: TextRun[]) {
+  const text = runs.map((r) => r.text).join("");
+  const styles: RunStyle[] = [];
+  for (const run of runs) {
+    for (let i = 0; i < run.text.length; i++) styles.push(run.style);
+  }
+
+  const words: Word[] = [];
+  let current: Word | null = null;
+  let space: RunStyle | null = null;
+  let afterOpening = false;
+  for (const seg of wordSegments.segment(text)) {
+    if (/^\s+$/.test(seg.segment)) {
+      if (current) words.push(current);
+      current = null;
+      space = styles[seg.index + seg.segment.length - 1];
+      continue;
+    }
+    // inside a space-less run, break before words but keep punctuation
+    // with its neighbours
+    const opening = OPENING_PUNCTUATION.test(seg.segment);
+    const prev = current?.chars[current.chars.length - 1]?.ch ?? "";
+    if (
+      current &&
+      !afterOpening &&
+      (seg.isWordLike || opening) &&
+      (NO_SPACES.test(seg.segment[0]) || NO_SPACES.test(prev))
+    ) {
+      words.push(current);
+      current = null;
+      space = null;
+    }
+    current ??= { chars: [], space: words.length ? space : null };
+    for (const g of graphemes.segment(seg.segment)) {
+      current.chars.push({ ch: g.segment, style: styles[seg.index + g.index] });
+    }
+    afterOpening = opening;
+  }
+  if (current) words.push(current);
+  return words;
+}
+
+// Joins a line's words back into runs (adjacent same-style runs merged)
+function lineRuns(words: Word[]) {
+  const runs: TextRun[] = [];
+  const add = (ch: string, style: RunStyle) => {
+    const last = runs[runs.length - 1];
+    if (last?.style === style) last.text += ch;
+    else runs.push({ text: ch, style });
+  };
+  words.forEach((word, i) => {
+    if (i > 0 && word.space) add(" ", word.space);
+    for (const { ch, style } of word.chars) add(ch, style);
+  });
+  return runs;
+}
+
+// Ends a line with "…", dropping graphemes from its end until it is no
+// wider than maxWidth
+export function ellipsizeRuns(
+  ctx: CanvasRenderingContext2D,
+  runs: TextRun[],
+  maxWidth: number,
+  fontFor: (style: RunStyle) => string,
+): TextRun[] {
+  const line = runs.map((run) => ({ ...run }));
+  while (line.length) {
+    const last = line[line.length - 1];
+    const ended = [
+      ...line.slice(0, -1),
+      { ...last, text: `${last.text.trimEnd()}…` },
+    ];
+    if (measureRuns(ctx, ended, fontFor) <= maxWidth) return ended;
+    last.text = Array.from(graphemes.segment(last.text), (g) => g.segment)
+      .slice(0, -1)
+      .join("");
+    if (!last.text) line.pop();
+  }
+  return [{ text: "…", style: "plain" }];
+}
+
+// Width of a line of runs, each measured in its own font
+export function measureRuns(
+  ctx: CanvasRenderingContext2D,
+  runs: TextRun[],
+  fontFor: (style: RunStyle) => string,
+) {
+  let width = 0;
+  for (const run of runs) {
+    ctx.font = fontFor(run.style);
+    width += ctx.measureText(run.text).width;
+  }
+  return width;
+}
+
+// Break long words and wrap nicely. Works on styled runs so emphasis can
+// change the font mid-line; returns each line's runs.
+export function wrapTextSmart(
+  ctx: CanvasRenderingContext2D,
+  runs: TextRun[],
+  maxWidth: number,
+  fontFor: (style: RunStyle) => string,
+) {
+  const fits = (words: Word[]) =>
+    measureRuns(ctx, lineRuns(words), fontFor) <= maxWidth;
+
+  const lines: TextRun[][] = [];
+  let current: Word[] = [];
+
+  const push = () => {
+    if (current.length) lines.push(lineRuns(current));
+    current = [];
+  };
+
+  for (const word of toWords(runs)) {
+    if (fits([...current, word])) {
+      current.push(word);
+      continue;
+    }
+    if (current.length) push();
+
+    if (fits([word])) {
+      current = [word];
+      continue;
+    }
+
+    // word too long: split
+    let chunk: Word = { chars: [], space: word.space };
+    for (const c of word.chars) {
+      const next = { ...chunk, chars: [...chunk.chars, c] };
+      if (fits([next])) {
+        chunk = next;
+      } else {
+        if (chunk.chars.length) lines.push(lineRuns([chunk]));
+        chunk = { chars: [c], space: null };
+      }
+    }
+    if (chunk.chars.length) current = [chunk];
+  }
+  push();
+  return lines;
+}
@@ -0,0 +1,149 @@
+// Pixels at each edge covered by platform UI (Story header, Reels buttons…)
+export type SafeZone = {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+};
+
+// A named export size. Fixed presets are exact (platform specs); the others
+// are minimums that grow to fit the quote and can be dragged wider.
+export type SizePreset = {
+  id: string;
+  label: string;
+  group: string;
+  width: number;
+  height: number;
+  fixed: boolean;
+  safeZone?: SafeZone;
+};
+
+// The part of a preset that sizing needs (custom sizes are fixed too)
+export type SizeSpec = Pick<SizePreset, "width" | "height" | "fixed">;
+
+export type Palette = { bg: string; text: string; accent: string };
+export type FontPack = {
+  // bundled web font (see fonts.ts); missing on records from before them
+  family?: string;
+  // CSS font stacks
+  quote: string;
+  author: string;
+};
+
+export type Design = {
+  palette: Palette;
+  gradient: [string, string];
+  font: FontPack;
+  bgType: string;
+  layout: string;
+  seed: number;
+};
+
+// Brand details painted on a card: a snapshot of the brand kit at upload time
+export type CardBrand = {
+  // data URL (or http URL) of the logo
+  logoUrl?: string;
+  tagline?: string;
+  url?: string;
+};
+
+// Customer photo, cropped to a square on upload
+export type CardAvatar = {
+  // data URL
+  url: string;
+  shape: "circle" | "rounded";
+};
+
+export type SourceKind =
+  "app-store" | "google-play" | "trustpilot" | "x" | "email";
+
+// Where the praise came from (see sources.ts)
+export type CardSource = {
+  kind: SourceKind;
+  // review date, YYYY-MM-DD
+  date?: string;
+  verified?: boolean;
+};
+
+// A decoded image the renderer can draw: DOM image/bitmap or a server Image
+export type CardImage = { width: number; height: number };
+// Decoded images keyed by their URL
+export type CardImages = Record<string, CardImage>;
+
+// Everything the renderer needs besides the export size
+export type CardContent = {
+  quote: string;
+  author: string;
+  design: Design;
+  radius: string | number;
+  stylePack?: string;
+  // percentages, e.g. 95 => 0.95×
+  quoteSizeMultiplier: number;
+  authorSizeMultiplier: number;
+  // text stays clear of these edges
+  safeZone?: SafeZone;
+  // keep the size and scale the type to fit, instead of growing the card
+  fitText?: boolean;
+  // 0–5 in half steps (see rating.ts); no star row when missing
+  rating?: number;
+  avatar?: CardAvatar;
+  source?: CardSource;
+  brand?: CardBrand;
+  // images referenced by the content (logo, photo), already decoded
+  images?: CardImages;
+};
+
+export type CardStatus = "pending" | "approved" | "rejected";
+
+// Shape of a record stored on the Praise Wall
+export type CardData = {
+  id: string;
+  quote: string;
+  author: string;
+  width: number;
+  height: number;
+  palette: Palette;
+  gradient: [string, string];
+  font: FontPack;
+  bgType: string;
+  layout: string;
+  seed: number;
+  // SIZE_PRESETS id, or "custom" for typed-in dimensions
+  preset?: string;
+  // records from before presets only have square/portrait/landscape here
+  format?: string;
+  radius: string;
+  stylePack?: string;
+  quoteSizeMultiplier: number;
+  authorSizeMultiplier: number;
+  // fit-text mode (missing on older records: the card grew instead)
+  fitText?: boolean;
+  // missing when the testimonial had no rating
+  rating?: number;
+  // missing when no photo was attached
+  avatar?: CardAvatar;
+  // missing when the source wasn't recorded
+  source?: CardSource;
+  // missing when the brand kit was off
+  brand?: CardBrand;
+  // library entry the card was made from (see storage/library.ts)
+  testimonialId?: string;
+  // lowercase, for the wall's tag filter; missing when untagged
+  tags?: string[];
+  createdAt: string;
+  // missing on records uploaded before moderation existed (all live)
+  status?: CardStatus;
+  reviewedAt?: string;
+};
+
+// What the generator uploads; the store assigns the id
+export type NewCardData = Omit<CardData, "id">;
+
+export type CardSize = { width: number; height: number };
+
+// Anything we can paint onto: a DOM canvas or a server-side canvas
+export type CardCanvas = {
+  width: number;
+  height: number;
+  getContext(contextId: "2d"): CanvasRenderingContext2D | null;
+};
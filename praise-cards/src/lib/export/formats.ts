@@ -0,0 +1,62 @@
+import { findPreset } from "@/lib/cards/presets";
+import type { CardContent } from "@/lib/cards/types";
+
+// File types a card can be exported as.
+// `via`: "canvas" = straight off a canvas (browser or server), "server" =
+// only the server can produce it, "recorder" = recorded in the browser.
+
+export const EXPORT_TYPES = {
+  png: { label: "PNG", mime: "image/png", via: "canvas", lossy: false },
+  jpeg: { label: "JPEG", mime: "image/jpeg", via: "canvas", lossy: true },
+  webp: { label: "WebP", mime: "image/webp", via: "canvas", lossy: true },
+  svg: { label: "SVG", mime: "image/svg+xml", via: "server", lossy: false },
+  pdf: { label: "PDF", mime: "application/pdf", via: "server", lossy: false },
+  webm: {
+    label: "Story video (WebM)",
+    mime: "video/webm",
+    via: "recorder",
+    lossy: false,
+  },
+  gif: { label: "Story GIF", mime: "image/gif", via: "server", lossy: false },
+} as const;
+
+export type ExportType = keyof typeof EXPORT_TYPES;
+export type ServerExportType = Exclude<ExportType, "webm">;
+
+// Instagram Story / Reels frame, used by the animated types
+const STORY_PRESET = findPreset("instagram-story")!;
+export const STORY_SIZE = {
+  width: STORY_PRESET.width,
+  height: STORY_PRESET.height,
+};
+
+// Stories are full-bleed and keep the text clear of the Story UI
+export function storyContent(content: CardContent): CardContent {
+  return { ...content, radius: 0, safeZone: STORY_PRESET.safeZone };
+}
+
+// 0-100, only used by the lossy types
+export const DEFAULT_QUALITY = 90;
+
+export function isExportType(value: unknown): value is ExportType {
+  return typeof value === "string" && Object.hasOwn(EXPORT_TYPES, value);
+}
+
+export function isServerExportType(value: unknown): value is ServerExportType {
+  return isExportType(value) && EXPORT_TYPES[value].via !== "recorder";
+}
+
+// Animated types always come out at STORY_SIZE
+export function isStoryType(type: ExportType) {
+  return type === "webm" || type === "gif";
+}
+
+export function exportFileName(base: string, type: ExportType) {
+  return `${base}.${type === "jpeg" ? "jpg" : type}`;
+}
+
+export function clampQuality(value: unknown) {
+  const q = Number(value);
+  if (!Number.isFinite(q) || q <= 0) return DEFAULT_QUALITY;
+  return Math.min(100, Math.round(q));
+}
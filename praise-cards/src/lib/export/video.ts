@@ -0,0 +1,54 @@
+import type { CardAnimation } from "@/lib/cards/renderer";
+
+const WEBM_TYPES = [
+  "video/webm;codecs=vp9",
+  "video/webm;codecs=vp8",
+  "video/webm",
+];
+
+// null when this browser can't record WebM (e.g. Safari)
+export function webmRecorderType() {
+  if (typeof MediaRecorder === "undefined") return null;
+  return WEBM_TYPES.find((t) => MediaRecorder.isTypeSupported(t)) ?? null;
+}
+
+// Plays `anim` on `canvas` in real time while recording it
+export function recordWebm(
+  canvas: HTMLCanvasElement,
+  anim: CardAnimation,
+  fps = 30,
+): Promise<Blob> {
+  const mimeType = webmRecorderType();
+  if (!mimeType) {
+    return Promise.reject(new Error("WebM recording not supported"));
+  }
+
+  const stream = canvas.captureStream(fps);
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: 8_000_000,
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size) chunks.push(e.data);
+  };
+
+  return new Promise((resolve, reject) => {
+    recorder.onstop = () => {
+      stream.getTracks().forEach((t) => t.stop());
+      resolve(new Blob(chunks, { type: "video/webm" }));
+    };
+    recorder.onerror = () => reject(new Error("Recording failed"));
+
+    anim.paintFrame(0);
+    recorder.start();
+    const start = performance.now();
+    const tick = (now: number) => {
+      const t = now - start;
+      anim.paintFrame(Math.min(t, anim.duration));
+      if (t < anim.duration) requestAnimationFrame(tick);
+      else recorder.stop();
+    };
+    requestAnimationFrame(tick);
+  });
+}
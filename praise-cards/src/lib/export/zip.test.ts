@@ -0,0 +1,114 @@
+import { crc32 } from "node:zlib";
+import { createCanvas } from "@napi-rs/canvas";
+import { describe, expect, it } from "vitest";
+import { createZip } from "@/lib/export/zip";
+
+type ReadEntry = {
+  name: string;
+  crc: number;
+  size: number;
+  data: Uint8Array;
+  time: number;
+  day: number;
+};
+
+// Reads a stored (uncompressed) archive from its central directory, checking
+// every local header against it
+function readZip(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  const centralSize = view.getUint32(end + 12, true);
+  let at = view.getUint32(end + 16, true);
+  expect(at + centralSize).toBe(end);
+
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(at, true)).toBe(0x02014b50);
+    expect(view.getUint16(at + 10, true)).toBe(0); // stored
+    const crc = view.getUint32(at + 16, true);
+    const size = view.getUint32(at + 20, true);
+    expect(view.getUint32(at + 24, true)).toBe(size);
+    const nameLength = view.getUint16(at + 28, true);
+    const offset = view.getUint32(at + 42, true);
+    const name = decoder.decode(bytes.subarray(at + 46, at + 46 + nameLength));
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    expect(view.getUint32(offset + 14, true)).toBe(crc);
+    expect(view.getUint32(offset + 18, true)).toBe(size);
+    expect(view.getUint32(offset + 22, true)).toBe(size);
+    expect(view.getUint16(offset + 26, true)).toBe(nameLength);
+    const start = offset + 30 + nameLength;
+    entries.push({
+      name,
+      crc,
+      size,
+      data: bytes.subarray(start, start + size),
+      time: view.getUint16(offset + 10, true),
+      day: view.getUint16(offset + 12, true),
+    });
+    at += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe("createZip", () => {
+  it("round-trips a card PNG and its manifest", async () => {
+    const canvas = createCanvas(4, 4);
+    const ctx = canvas.getContext("2d");
+    ctx.fillStyle = "#e11d48";
+    ctx.fillRect(0, 0, 4, 4);
+    const png = new Uint8Array(canvas.toBuffer("image/png"));
+    const manifest = new TextEncoder().encode(
+      JSON.stringify({
+        cards: [{ file: "01-priya-n.png", quote: "Grüße ✨" }],
+      }),
+    );
+
+    const blob = createZip(
+      [
+        { name: "01-priya-n.png", data: png },
+        { name: "manifest.json", data: manifest },
+      ],
+      new Date(2026, 0, 5, 14, 30, 22),
+    );
+    expect(blob.type).toBe("application/zip");
+    const entries = readZip(new Uint8Array(await blob.arrayBuffer()));
+
+    expect(entries.map((e) => e.name)).toEqual([
+      "01-priya-n.png",
+      "manifest.json",
+    ]);
+    for (const [entry, data] of [
+      [entries[0], png],
+      [entries[1], manifest],
+    ] as const) {
+      expect(entry.size).toBe(data.length);
+      expect(entry.crc).toBe(crc32(data));
+      expect(entry.data).toEqual(data);
+    }
+    expect(JSON.parse(new TextDecoder().decode(entries[1].data))).toEqual({
+      cards: [{ file: "01-priya-n.png", quote: "Grüße ✨" }],
+    });
+    // DOS time keeps two-second steps
+    expect(entries[0].time).toBe((14 << 11) | (30 << 5) | 11);
+    expect(entries[0].day).toBe((46 << 9) | (1 << 5) | 5);
+  });
+
+  it("writes UTF-8 names and an empty archive", async () => {
+    const [entry] = readZip(
+      new Uint8Array(
+        await createZip([
+          { name: "größe-😀.png", data: new Uint8Array() },
+        ]).arrayBuffer(),
+      ),
+    );
+    expect(entry).toMatchObject({ name: "größe-😀.png", size: 0, crc: 0 });
+
+    const empty = new Uint8Array(await createZip([]).arrayBuffer());
+    expect(empty).toHaveLength(22);
+    expect(readZip(empty)).toEqual([]);
+  });
+});
@@ -0,0 +1,35 @@
+import type { CardBrand } from "@/lib/cards/types";
+import { dropUndefined } from "@/lib/storage/records";
+import type { BrandKit } from "@/lib/storage/types";
+
+export const BRAND_KIT_PATH = "brandKit";
+
+// Brand colours feed the contrast maths, so only #rrggbb is accepted
+export function isBrandColor(color: string) {
+  return /^#[0-9a-f]{6}$/i.test(color);
+}
+
+export function isValidBrandKit(kit: BrandKit) {
+  return (
+    !!kit &&
+    typeof kit.enabled === "boolean" &&
+    Array.isArray(kit.colors) &&
+    kit.colors.every(isBrandColor)
+  );
+}
+
+export function emptyBrandKit(): BrandKit {
+  return { enabled: true, colors: [] };
+}
+
+// What a card records of the kit, without its empty fields. Undefined when
+// there's nothing to paint.
+export function cardBrand(kit: BrandKit | null): CardBrand | undefined {
+  if (!kit?.enabled) return undefined;
+  const brand = dropUndefined<CardBrand>({
+    logoUrl: kit.logoUrl || undefined,
+    tagline: kit.tagline?.trim() || undefined,
+    url: kit.url?.trim() || undefined,
+  });
+  return Object.keys(brand).length ? brand : undefined;
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { generateDesign } from "@/lib/cards/design";
+import type { CardData } from "@/lib/cards/types";
+import {
+  filtersFromParams,
+  filtersToParams,
+  isFiltering,
+  matchesFilters,
+  NO_FILTERS,
+  type WallFilters,
+} from "@/lib/storage/filters";
+
+function card(overrides: Partial<CardData> = {}): CardData {
+  const { palette, gradient, font, seed } = generateDesign(7, "balanced");
+  return {
+    id: "c1",
+    quote: "Support answered in **minutes**.",
+    author: "Tom B.",
+    width: 1080,
+    height: 1080,
+    palette,
+    gradient,
+    font,
+    bgType: "paper",
+    layout: "split",
+    seed,
+    preset: "square",
+    radius: "24",
+    quoteSizeMultiplier: 100,
+    authorSizeMultiplier: 100,
+    rating: 4.5,
+    tags: ["support", "onboarding"],
+    createdAt: "2026-01-05T23:30:00.000Z",
+    ...overrides,
+  };
+}
+
+const only = (patch: Partial<WallFilters>) => ({ ...NO_FILTERS, ...patch });
+
+describe("wall filter params", () => {
+  it("round-trips a shared view through the URL", () => {
+    const filters: WallFilters = {
+      q: "support team",
+      from: "2026-01-01",
+      to: "2026-01-31",
+      layout: "split",
+      bg: "paper",
+      format: "instagram-story",
+      tag: "onboarding",
+      rating: 4,
+    };
+    expect(filtersFromParams(filtersToParams(filters))).toEqual(filters);
+  });
+
+  it("ignores malformed dates and ratings, and lowercases the tag", () => {
+    const params = new URLSearchParams(
+      "q=%20fast%20&from=yesterday&to=2026-13&rating=7&tag=Onboarding",
+    );
+    expect(filtersFromParams(params)).toEqual(
+      only({ q: "fast", tag: "onboarding" }),
+    );
+  });
+
+  it("keeps the default view's URL clean", () => {
+    expect(filtersToParams(NO_FILTERS).toString()).toBe("");
+    expect(isFiltering(NO_FILTERS)).toBe(false);
+    expect(isFiltering(only({ rating: 0 }))).toBe(true);
+  });
+});
+
+describe("matchesFilters", () => {
+  it("matches everything with no filters", () => {
+    expect(matchesFilters(card(), NO_FILTERS)).toBe(true);
+  });
+
+  it("compares dates inclusively by the UTC day", () => {
+    expect(matchesFilters(card(), only({ from: "2026-01-05" }))).toBe(true);
+    expect(matchesFilters(card(), only({ to: "2026-01-05" }))).toBe(true);
+    expect(matchesFilters(card(), only({ from: "2026-01-06" }))).toBe(false);
+    expect(matchesFilters(card(), only({ to: "2026-01-04" }))).toBe(false);
+  });
+
+  it("matches the layout, background, format and tag exactly", () => {
+    expect(matchesFilters(card(), only({ layout: "split" }))).toBe(true);
+    expect(matchesFilters(card(), only({ layout: "left" }))).toBe(false);
+    expect(matchesFilters(card(), only({ bg: "paper" }))).toBe(true);
+    expect(matchesFilters(card(), only({ bg: "dark" }))).toBe(false);
+    expect(matchesFilters(card(), only({ format: "square" }))).toBe(true);
+    expect(matchesFilters(card(), only({ format: "instagram-story" }))).toBe(
+      false,
+    );
+    expect(matchesFilters(card(), only({ tag: "support" }))).toBe(true);
+    expect(matchesFilters(card({ tags: undefined }), only({ tag: "x" }))).toBe(
+      false,
+    );
+  });
+
+  it("reads the format of older records from their legacy field", () => {
+    const legacy = card({ preset: undefined, format: "portrait" });
+    expect(matchesFilters(legacy, only({ format: "portrait" }))).toBe(true);
+  });
+
+  it("keeps rated cards at or above the minimum, never unrated ones", () => {
+    expect(matchesFilters(card(), only({ rating: 4.5 }))).toBe(true);
+    expect(matchesFilters(card(), only({ rating: 5 }))).toBe(false);
+    expect(
+      matchesFilters(card({ rating: undefined }), only({ rating: 0 })),
+    ).toBe(false);
+  });
+
+  it("needs every search word in the quote or author, ignoring emphasis", () => {
+    expect(matchesFilters(card(), only({ q: "MINUTES tom" }))).toBe(true);
+    expect(matchesFilters(card(), only({ q: "**minutes**" }))).toBe(false);
+    expect(matchesFilters(card(), only({ q: "minutes weeks" }))).toBe(false);
+  });
+});
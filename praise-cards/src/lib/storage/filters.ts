@@ -0,0 +1,86 @@
+import { presetOf } from "@/lib/cards/presets";
+import { isRating } from "@/lib/cards/rating";
+import { plainText } from "@/lib/cards/text";
+import type { CardData } from "@/lib/cards/types";
+
+// Wall search and filters, mirrored in the URL so a view can be shared:
+// /wall/acme?q=support&from=2026-01-01&layout=split&tag=onboarding
+export type WallFilters = {
+  // words that must all appear in the quote or author
+  q: string;
+  // "YYYY-MM-DD", inclusive, compared with createdAt in UTC
+  from: string;
+  to: string;
+  layout: string;
+  bg: string;
+  // SIZE_PRESETS id, or "custom" (see presetOf)
+  format: string;
+  tag: string;
+  // minimum stars; null shows every card, rated or not
+  rating: number | null;
+};
+
+export const NO_FILTERS: WallFilters = {
+  q: "",
+  from: "",
+  to: "",
+  layout: "",
+  bg: "",
+  format: "",
+  tag: "",
+  rating: null,
+};
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Unknown or malformed params are ignored rather than matching nothing
+export function filtersFromParams(params: URLSearchParams): WallFilters {
+  const day = (key: string) => {
+    const value = params.get(key) ?? "";
+    return DAY.test(value) ? value : "";
+  };
+  const rating = Number(params.get("rating"));
+  return {
+    q: params.get("q")?.trim() ?? "",
+    from: day("from"),
+    to: day("to"),
+    layout: params.get("layout") ?? "",
+    bg: params.get("bg") ?? "",
+    format: params.get("format") ?? "",
+    tag: params.get("tag")?.toLowerCase() ?? "",
+    rating: params.has("rating") && isRating(rating) ? rating : null,
+  };
+}
+
+// Only the filters in use, so the default view keeps a clean URL
+export function filtersToParams(filters: WallFilters) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== "" && value !== null) params.set(key, String(value));
+  }
+  return params;
+}
+
+export function isFiltering(filters: WallFilters) {
+  return filtersToParams(filters).toString() !== "";
+}
+
+export function matchesFilters(card: CardData, filters: WallFilters) {
+  const { q, from, to, layout, bg, format, tag, rating } = filters;
+  const day = card.createdAt.slice(0, 10);
+  if (from && day < from) return false;
+  if (to && day > to) return false;
+  if (layout && card.layout !== layout) return false;
+  if (bg && card.bgType !== bg) return false;
+  if (format && presetOf(card) !== format) return false;
+  if (tag && !card.tags?.includes(tag)) return false;
+  if (rating !== null && !(isRating(card.rating) && card.rating >= rating)) {
+    return false;
+  }
+  if (q) {
+    const text = `${plainText(card.quote)} ${card.author}`.toLowerCase();
+    const words = q.toLowerCase().split(/\s+/);
+    if (!words.every((w) => text.includes(w))) return false;
+  }
+  return true;
+}
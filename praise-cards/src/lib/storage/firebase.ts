@@ -0,0 +1,237 @@
+import {
+  type Database,
+  type DataSnapshot,
+  endAt,
+  get,
+  limitToLast,
+  onChildAdded,
+  onChildChanged,
+  onChildRemoved,
+  orderByChild,
+  push,
+  query,
+  ref,
+  remove,
+  set,
+  startAt,
+  update,
+} from "firebase/database";
+import type { CardData, NewCardData } from "@/lib/cards/types";
+import {
+  approvedSince,
+  isApproved,
+  paginate,
+  toCardList,
+} from "@/lib/storage/paging";
+import { BRAND_KIT_PATH } from "@/lib/storage/brand";
+import { TESTIMONIALS_PATH, toTestimonialList } from "@/lib/storage/library";
+import type {
+  BrandKit,
+  CardChange,
+  CardRepository,
+  ModeratorEdits,
+  NewTestimonial,
+  PageCursor,
+  PageRequest,
+  Testimonial,
+  TestimonialUse,
+  WallSettings,
+} from "@/lib/storage/types";
+import {
+  DEFAULT_WALL,
+  defaultWallSettings,
+  sortWalls,
+  WALL_SETTINGS_PATH,
+  wallPaths,
+} from "@/lib/storage/walls";
+
+export class FirebaseCardRepository implements CardRepository {
+  constructor(private readonly db: Database) {}
+
+  async listWalls() {
+    const snap = await get(ref(this.db, WALL_SETTINGS_PATH));
+    const val: Record<string, WallSettings> = snap.val() ?? {};
+    return sortWalls(Object.values(val));
+  }
+
+  async getWall(slug: string) {
+    const snap = await get(ref(this.db, `${WALL_SETTINGS_PATH}/${slug}`));
+    if (snap.exists()) return snap.val() as WallSettings;
+    return slug === DEFAULT_WALL ? defaultWallSettings() : null;
+  }
+
+  async saveWall(settings: WallSettings) {
+    await set(ref(this.db, `${WALL_SETTINGS_PATH}/${settings.slug}`), settings);
+  }
+
+  async getBrandKit() {
+    const snap = await get(ref(this.db, BRAND_KIT_PATH));
+    return snap.exists() ? (snap.val() as BrandKit) : null;
+  }
+
+  async saveBrandKit(kit: BrandKit) {
+    await set(ref(this.db, BRAND_KIT_PATH), kit);
+  }
+
+  async listTestimonials() {
+    const snap = await get(ref(this.db, TESTIMONIALS_PATH));
+    return toTestimonialList(snap.val());
+  }
+
+  async getTestimonial(id: string) {
+    const snap = await get(ref(this.db, `${TESTIMONIALS_PATH}/${id}`));
+    if (!snap.exists()) return null;
+    const entry: Omit<Testimonial, "id"> = snap.val();
+    return toTestimonialList({ [id]: entry })[0];
+  }
+
+  async addTestimonial(entry: NewTestimonial) {
+    const res = await push(ref(this.db, TESTIMONIALS_PATH), entry);
+    return res.key!;
+  }
+
+  // null clears optional fields the entry no longer has
+  async saveTestimonial(id: string, entry: NewTestimonial) {
+    await update(ref(this.db, `${TESTIMONIALS_PATH}/${id}`), {
+      source: null,
+      rating: null,
+      ...entry,
+    });
+  }
+
+  async deleteTestimonial(id: string) {
+    await remove(ref(this.db, `${TESTIMONIALS_PATH}/${id}`));
+  }
+
+  async recordTestimonialUse(id: string, cardId: string, use: TestimonialUse) {
+    await set(ref(this.db, `${TESTIMONIALS_PATH}/${id}/uses/${cardId}`), use);
+  }
+
+  async listApproved(wall: string, req: PageRequest) {
+    const wallRef = ref(this.db, wallPaths(wall).cards);
+    const { before, limit } = req;
+
+    try {
+      // one extra to know if there's more; plus the cursor itself when paging
+      const q = before
+        ? query(
+            wallRef,
+            orderByChild("createdAt"),
+            endAt(before.createdAt, before.id),
+            limitToLast(limit + 2),
+          )
+        : query(wallRef, orderByChild("createdAt"), limitToLast(limit + 1));
+      const snap = await get(q);
+      return paginate(toCardList(snap.val()), req);
+    } catch (err) {
+      // Firebase Realtime Database requires an index for orderByChild queries.
+      // Fall back to fetching the entire node and paginating client-side.
+      console.warn(
+        "Query failed (likely missing .indexOn for 'createdAt') — falling back to unindexed fetch:",
+        err,
+      );
+      const snap = await get(wallRef);
+      return paginate(toCardList(snap.val()), req);
+    }
+  }
+
+  async getApproved(wall: string, id: string) {
+    const snap = await get(ref(this.db, `${wallPaths(wall).cards}/${id}`));
+    if (!snap.exists()) return null;
+    const card: CardData = { ...snap.val(), id };
+    return isApproved(card) ? card : null;
+  }
+
+  // Same range as watchApproved: from the cursor up to the newest card
+  private sinceQuery(wall: string, since?: PageCursor) {
+    const wallRef = ref(this.db, wallPaths(wall).cards);
+    return since
+      ? query(
+          wallRef,
+          orderByChild("createdAt"),
+          startAt(since.createdAt, since.id),
+        )
+      : wallRef;
+  }
+
+  async listApprovedSince(wall: string, since?: PageCursor) {
+    const snap = await get(this.sinceQuery(wall, since));
+    return approvedSince(toCardList(snap.val()), since);
+  }
+
+  watchApproved(
+    wall: string,
+    since: PageCursor | undefined,
+    onChange: (change: CardChange) => void,
+  ) {
+    const q = this.sinceQuery(wall, since);
+    const report = (type: "added" | "changed") => (snap: DataSnapshot) => {
+      const card: CardData = { id: snap.key!, ...snap.val() };
+      if (isApproved(card)) onChange({ type, card });
+      else onChange({ type: "removed", id: card.id });
+    };
+    const stops = [
+      onChildAdded(q, report("added")),
+      onChildChanged(q, report("changed")),
+      onChildRemoved(q, (snap) => onChange({ type: "removed", id: snap.key! })),
+    ];
+    return () => stops.forEach((stop) => stop());
+  }
+
+  async submit(wall: string, card: NewCardData) {
+    const res = await push(ref(this.db, wallPaths(wall).pending), {
+      ...card,
+      status: "pending",
+    });
+    return res.key!;
+  }
+
+  // Oldest first, so the queue is worked in upload order
+  async listPending(wall: string) {
+    const snap = await get(ref(this.db, wallPaths(wall).pending));
+    return toCardList(snap.val()).sort(
+      (a, b) =>
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+    );
+  }
+
+  async updatePending(wall: string, id: string, edits: ModeratorEdits) {
+    await this.pending(wall, id);
+    await update(ref(this.db, `${wallPaths(wall).pending}/${id}`), edits);
+  }
+
+  // Moves a pending card onto the wall under the same id (atomic multi-path write)
+  async approve(wall: string, id: string, edits: ModeratorEdits = {}) {
+    await this.move(wall, id, "approved", edits);
+  }
+
+  async reject(wall: string, id: string) {
+    await this.move(wall, id, "rejected");
+  }
+
+  private async pending(wall: string, id: string): Promise<NewCardData> {
+    const snap = await get(ref(this.db, `${wallPaths(wall).pending}/${id}`));
+    if (!snap.exists()) throw new Error(`Pending card ${id} not found`);
+    return snap.val();
+  }
+
+  private async move(
+    wall: string,
+    id: string,
+    status: "approved" | "rejected",
+    edits: ModeratorEdits = {},
+  ) {
+    const paths = wallPaths(wall);
+    const to = status === "approved" ? paths.cards : paths.rejected;
+    const stored = await this.pending(wall, id);
+    await update(ref(this.db), {
+      [`${to}/${id}`]: {
+        ...stored,
+        ...edits,
+        status,
+        reviewedAt: new Date().toISOString(),
+      },
+      [`${paths.pending}/${id}`]: null,
+    });
+  }
+}
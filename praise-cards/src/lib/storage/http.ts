@@ -0,0 +1,177 @@
+import type { CardData, NewCardData } from "@/lib/cards/types";
+import { pollApproved } from "@/lib/storage/paging";
+import type {
+  BrandKit,
+  CardChange,
+  CardPage,
+  CardRepository,
+  ModeratorEdits,
+  NewTestimonial,
+  PageCursor,
+  PageRequest,
+  Testimonial,
+  TestimonialUse,
+  WallSettings,
+} from "@/lib/storage/types";
+
+// Browser side of the local and memory backends: talks to the /api/store
+// handlers
+export class HttpCardRepository implements CardRepository {
+  constructor(private readonly baseUrl = "/api/store") {}
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    const res = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init?.headers },
+    });
+    if (!res.ok) {
+      throw new Error(`${init?.method ?? "GET"} ${path} failed: ${res.status}`);
+    }
+    return res.status === 204 ? (undefined as T) : res.json();
+  }
+
+  // Null for a missing record only; outages and bad responses still throw
+  private async maybe<T>(path: string): Promise<T | null> {
+    const res = await fetch(`${this.baseUrl}${path}`);
+    if (res.status === 404) return null;
+    if (!res.ok) throw new Error(`GET ${path} failed: ${res.status}`);
+    return res.json();
+  }
+
+  listWalls() {
+    return this.request<WallSettings[]>("/walls");
+  }
+
+  getWall(slug: string) {
+    return this.maybe<WallSettings>(`/walls/${encodeURIComponent(slug)}`);
+  }
+
+  saveWall(settings: WallSettings) {
+    return this.request<void>(`/walls/${encodeURIComponent(settings.slug)}`, {
+      method: "PUT",
+      body: JSON.stringify(settings),
+    });
+  }
+
+  getBrandKit() {
+    return this.request<BrandKit | null>("/brand");
+  }
+
+  saveBrandKit(kit: BrandKit) {
+    return this.request<void>("/brand", {
+      method: "PUT",
+      body: JSON.stringify(kit),
+    });
+  }
+
+  listTestimonials() {
+    return this.request<Testimonial[]>("/testimonials");
+  }
+
+  getTestimonial(id: string) {
+    return this.maybe<Testimonial>(`/testimonials/${encodeURIComponent(id)}`);
+  }
+
+  async addTestimonial(entry: NewTestimonial) {
+    const { id } = await this.request<{ id: string }>("/testimonials", {
+      method: "POST",
+      body: JSON.stringify(entry),
+    });
+    return id;
+  }
+
+  saveTestimonial(id: string, entry: NewTestimonial) {
+    return this.request<void>(`/testimonials/${encodeURIComponent(id)}`, {
+      method: "PUT",
+      body: JSON.stringify(entry),
+    });
+  }
+
+  deleteTestimonial(id: string) {
+    return this.request<void>(`/testimonials/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+    });
+  }
+
+  recordTestimonialUse(id: string, cardId: string, use: TestimonialUse) {
+    return this.request<void>(`/testimonials/${encodeURIComponent(id)}/uses`, {
+      method: "POST",
+      body: JSON.stringify({ cardId, ...use }),
+    });
+  }
+
+  listApproved(wall: string, { before, limit }: PageRequest) {
+    const params = new URLSearchParams({ wall, limit: String(limit) });
+    if (before) {
+      params.set("before", before.createdAt);
+      params.set("beforeId", before.id);
+    }
+    return this.request<CardPage>(`/cards?${params}`);
+  }
+
+  getApproved(wall: string, id: string) {
+    const params = new URLSearchParams({ wall });
+    return this.maybe<CardData>(`/cards/${encodeURIComponent(id)}?${params}`);
+  }
+
+  listApprovedSince(wall: string, since?: PageCursor) {
+    const params = new URLSearchParams({ wall });
+    if (since) {
+      params.set("since", since.createdAt);
+      params.set("sinceId", since.id);
+    }
+    return this.request<CardData[]>(`/cards/live?${params}`);
+  }
+
+  // No push channel to the server store, so this polls
+  watchApproved(
+    wall: string,
+    since: PageCursor | undefined,
+    onChange: (change: CardChange) => void,
+  ) {
+    return pollApproved(() => this.listApprovedSince(wall, since), onChange);
+  }
+
+  async submit(wall: string, card: NewCardData) {
+    const params = new URLSearchParams({ wall });
+    const { id } = await this.request<{ id: string }>(`/pending?${params}`, {
+      method: "POST",
+      body: JSON.stringify(card),
+    });
+    return id;
+  }
+
+  listPending(wall: string) {
+    const params = new URLSearchParams({ wall });
+    return this.request<CardData[]>(`/pending?${params}`);
+  }
+
+  updatePending(wall: string, id: string, edits: ModeratorEdits) {
+    const params = new URLSearchParams({ wall });
+    return this.request<void>(`/pending/${encodeURIComponent(id)}?${params}`, {
+      method: "PATCH",
+      body: JSON.stringify(edits),
+    });
+  }
+
+  approve(wall: string, id: string, edits: ModeratorEdits = {}) {
+    return this.review(wall, id, "approve", edits);
+  }
+
+  reject(wall: string, id: string) {
+    return this.review(wall, id, "reject", {});
+  }
+
+  private review(
+    wall: string,
+    id: string,
+    action: "approve" | "reject",
+    edits: ModeratorEdits,
+  ) {
+    const params = new URLSearchParams({ wall });
+    return this.request<void>(
+      `/pending/${encodeURIComponent(id)}/${action}?${params}`,
+      { method: "POST", body: JSON.stringify(edits) },
+    );
+  }
+}
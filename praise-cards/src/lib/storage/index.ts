@@ -0,0 +1,42 @@
+import { database } from "@/config/firebase";
+import { FirebaseCardRepository } from "@/lib/storage/firebase";
+import { HttpCardRepository } from "@/lib/storage/http";
+import type { CardRepository, StoreMode } from "@/lib/storage/types";
+
+export type {
+  BrandKit,
+  CardChange,
+  CardRepository,
+  ModeratorEdits,
+  NewTestimonial,
+  PageCursor,
+  Testimonial,
+  TestimonialStatus,
+  WallSettings,
+} from "@/lib/storage/types";
+export { DEFAULT_WALL, isValidWallSlug } from "@/lib/storage/walls";
+
+// NEXT_PUBLIC_CARD_STORE picks the backend; Firebase unless told otherwise
+export function storeMode(): StoreMode {
+  const mode = process.env.NEXT_PUBLIC_CARD_STORE;
+  if (mode === "emulator" || mode === "local" || mode === "memory") {
+    return mode;
+  }
+  return "firebase";
+}
+
+let repository: CardRepository | null = null;
+
+// Card store for client components
+export function getCardRepository(): CardRepository {
+  if (repository) return repository;
+
+  // local and memory stores live on the server, behind /api/store
+  const mode = storeMode();
+  if (mode === "local" || mode === "memory") {
+    repository = new HttpCardRepository();
+  } else {
+    repository = new FirebaseCardRepository(database);
+  }
+  return repository;
+}
@@ -0,0 +1,160 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { generateDesign } from "@/lib/cards/design";
+import type { CardData } from "@/lib/cards/types";
+import {
+  addToDeck,
+  DEFAULT_KIOSK,
+  kioskFromParams,
+  kioskToParams,
+  nextSlide,
+  previousSlide,
+  removeFromDeck,
+  startDeck,
+  type KioskOptions,
+} from "@/lib/storage/kiosk";
+import { MemoryCardRepository } from "@/lib/storage/snapshot";
+
+const WALL = "praise";
+
+// Live cards "a" (oldest) onwards, one day apart, newest first
+async function liveCards(count: number) {
+  const repo = new MemoryCardRepository();
+  const { palette, gradient, font, bgType, layout, seed } = generateDesign(
+    7,
+    "balanced",
+  );
+  for (let i = 0; i < count; i++) {
+    const id = await repo.submit(WALL, {
+      quote: `Card ${String.fromCharCode(97 + i)}`,
+      author: "",
+      width: 1080,
+      height: 1080,
+      palette,
+      gradient,
+      font,
+      bgType,
+      layout,
+      seed,
+      radius: "24",
+      quoteSizeMultiplier: 100,
+      authorSizeMultiplier: 100,
+      createdAt: `2026-01-${String(i + 1).padStart(2, "0")}T00:00:00.000Z`,
+    });
+    await repo.approve(WALL, id);
+  }
+  const cards = await repo.listApprovedSince(WALL);
+  // the quotes' letters make the orders readable
+  const letter = new Map(cards.map((c) => [c.id, c.quote.slice(-1)]));
+  const letters = (ids: string[]) => ids.map((id) => letter.get(id)).join("");
+  const card = (l: string) => cards.find((c) => letter.get(c.id) === l)!;
+  const without = (l: string) => cards.filter((c) => c !== card(l));
+  return { cards, letters, card, without };
+}
+
+const options = (patch: Partial<KioskOptions> = {}) => ({
+  ...DEFAULT_KIOSK,
+  ...patch,
+});
+
+// Every slide of one pass, starting from a fresh deck
+function pass(cards: CardData[], opts: KioskOptions) {
+  let deck = startDeck(cards, opts);
+  const slides = [deck.slide];
+  while (deck.pos < deck.order.length) {
+    deck = nextSlide(deck, cards, opts);
+    slides.push(deck.slide);
+  }
+  return slides;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("kiosk deck", () => {
+  it("plays newest first, a slide's worth of cards at a time", async () => {
+    const { cards, letters } = await liveCards(5);
+    expect(pass(cards, options({ perSlide: 2 })).map(letters)).toEqual([
+      "ed",
+      "cb",
+      "a",
+    ]);
+  });
+
+  it("starts a new pass after the last slide, with cards added since", async () => {
+    const { cards, letters, without } = await liveCards(3);
+    const opts = options({ perSlide: 2 });
+    const deck = startDeck(without("c"), opts);
+    expect(letters(deck.slide)).toBe("ba");
+    expect(letters(nextSlide(deck, cards, opts).slide)).toBe("cb");
+  });
+
+  it("shuffles each pass into a different order of the same cards", async () => {
+    const { cards, letters } = await liveCards(4);
+    // every swap is with the first card: "dcba" -> "cbad"
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    const slides = pass(cards, options({ order: "shuffle", perSlide: 3 }));
+    expect(slides.map(letters)).toEqual(["cba", "d"]);
+  });
+
+  it("shows a new upload on the next slide", async () => {
+    const { cards, letters, card, without } = await liveCards(4);
+    const opts = options({ perSlide: 2 });
+    const deck = addToDeck(startDeck(without("d"), opts), card("d").id);
+    expect(letters(deck.slide)).toBe("cb");
+    expect(letters(nextSlide(deck, cards, opts).slide)).toBe("da");
+    // already in the deck: left where it is
+    expect(addToDeck(deck, card("d").id)).toBe(deck);
+  });
+
+  it("keeps its place when a card on screen or ahead is removed", async () => {
+    const { cards, letters, card } = await liveCards(5);
+    const opts = options({ perSlide: 2 });
+    const start = startDeck(cards, opts);
+
+    const onScreen = removeFromDeck(start, card("e").id);
+    expect(letters(onScreen.slide)).toBe("d");
+    expect(letters(nextSlide(onScreen, cards, opts).slide)).toBe("cb");
+
+    const ahead = removeFromDeck(start, card("c").id);
+    expect(letters(nextSlide(ahead, cards, opts).slide)).toBe("ba");
+  });
+
+  it("steps back to the previous slide, stopping at the first", async () => {
+    const { cards, letters } = await liveCards(5);
+    const opts = options({ perSlide: 2 });
+    let deck = startDeck(cards, opts);
+    deck = nextSlide(nextSlide(deck, cards, opts), cards, opts);
+    expect(letters(deck.slide)).toBe("a");
+
+    deck = previousSlide(deck, opts);
+    expect(letters(deck.slide)).toBe("cb");
+    deck = previousSlide(previousSlide(deck, opts), opts);
+    expect(letters(deck.slide)).toBe("ed");
+    expect(letters(nextSlide(deck, cards, opts).slide)).toBe("cb");
+  });
+});
+
+describe("kiosk params", () => {
+  it("round-trips the options, keeping the wall filters", () => {
+    const opts: KioskOptions = {
+      interval: 15,
+      perSlide: 2,
+      order: "shuffle",
+      transition: "zoom",
+    };
+    const params = kioskToParams(opts, new URLSearchParams("tag=onboarding"));
+    expect(params.get("tag")).toBe("onboarding");
+    expect(kioskFromParams(params)).toEqual(opts);
+    expect(kioskToParams(DEFAULT_KIOSK, params).toString()).toBe(
+      "tag=onboarding",
+    );
+  });
+
+  it("falls back to the defaults for out-of-range values", () => {
+    const params = new URLSearchParams(
+      "interval=1&perSlide=9&order=random&transition=spin",
+    );
+    expect(kioskFromParams(params)).toEqual(DEFAULT_KIOSK);
+  });
+});
@@ -0,0 +1,139 @@
+import type { CardData } from "@/lib/cards/types";
+import { compareNewestFirst } from "@/lib/storage/paging";
+
+// Slideshow settings for the kiosk page. They live in the URL (next to the
+// wall filters) so a TV can be pointed at a bookmark:
+// /kiosk?wall=acme&interval=15&perSlide=2&order=shuffle&tag=onboarding
+export type KioskOrder = "newest" | "shuffle";
+export type KioskTransition = "fade" | "slide" | "zoom" | "none";
+
+export type KioskOptions = {
+  // seconds per slide
+  interval: number;
+  perSlide: number;
+  order: KioskOrder;
+  transition: KioskTransition;
+};
+
+export const DEFAULT_KIOSK: KioskOptions = {
+  interval: 10,
+  perSlide: 1,
+  order: "newest",
+  transition: "fade",
+};
+
+export const KIOSK_INTERVALS = [5, 8, 10, 15, 20, 30, 60];
+export const MAX_PER_SLIDE = 4;
+
+export const KIOSK_ORDERS: { id: KioskOrder; label: string }[] = [
+  { id: "newest", label: "Newest first" },
+  { id: "shuffle", label: "Shuffle" },
+];
+
+export const KIOSK_TRANSITIONS: { id: KioskTransition; label: string }[] = [
+  { id: "fade", label: "Fade" },
+  { id: "slide", label: "Slide" },
+  { id: "zoom", label: "Zoom" },
+  { id: "none", label: "None" },
+];
+
+// Out-of-range or unknown values fall back to the defaults
+export function kioskFromParams(params: URLSearchParams): KioskOptions {
+  const interval = Number(params.get("interval"));
+  const perSlide = Number(params.get("perSlide"));
+  const order = KIOSK_ORDERS.find((o) => o.id === params.get("order"));
+  const transition = KIOSK_TRANSITIONS.find(
+    (t) => t.id === params.get("transition"),
+  );
+  return {
+    interval:
+      Number.isInteger(interval) && interval >= 3 && interval <= 600
+        ? interval
+        : DEFAULT_KIOSK.interval,
+    perSlide:
+      Number.isInteger(perSlide) && perSlide >= 1 && perSlide <= MAX_PER_SLIDE
+        ? perSlide
+        : DEFAULT_KIOSK.perSlide,
+    order: order?.id ?? DEFAULT_KIOSK.order,
+    transition: transition?.id ?? DEFAULT_KIOSK.transition,
+  };
+}
+
+// Sets the options that differ from the defaults, keeping other params
+export function kioskToParams(options: KioskOptions, params: URLSearchParams) {
+  const next = new URLSearchParams(params);
+  for (const key of Object.keys(DEFAULT_KIOSK) as (keyof KioskOptions)[]) {
+    if (options[key] === DEFAULT_KIOSK[key]) next.delete(key);
+    else next.set(key, String(options[key]));
+  }
+  return next;
+}
+
+// Where the slideshow is: card ids in play order, the next one to show and
+// the ids on screen
+export type Deck = { order: string[]; pos: number; slide: string[] };
+
+export const EMPTY_DECK: Deck = { order: [], pos: 0, slide: [] };
+
+function shuffle<T>(items: T[]) {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+function playOrder(cards: CardData[], order: KioskOrder) {
+  const ids = [...cards].sort(compareNewestFirst).map((c) => c.id);
+  return order === "shuffle" ? shuffle(ids) : ids;
+}
+
+// A fresh pass over the cards, showing its first slide
+export function startDeck(
+  cards: CardData[],
+  { order, perSlide }: KioskOptions,
+): Deck {
+  const ids = playOrder(cards, order);
+  const slide = ids.slice(0, perSlide);
+  return { order: ids, pos: slide.length, slide };
+}
+
+// The next slide; after the last one a new pass starts, re-sorted or
+// re-shuffled so cards added or removed since are accounted for
+export function nextSlide(
+  deck: Deck,
+  cards: CardData[],
+  options: KioskOptions,
+): Deck {
+  if (deck.pos >= deck.order.length) return startDeck(cards, options);
+  const { perSlide } = options;
+  const slide = deck.order.slice(deck.pos, deck.pos + perSlide);
+  return { ...deck, pos: deck.pos + slide.length, slide };
+}
+
+// The previous slide, stopping at the start of the pass
+export function previousSlide(deck: Deck, options: KioskOptions): Deck {
+  const { perSlide } = options;
+  const start = Math.max(0, deck.pos - deck.slide.length - perSlide);
+  const slide = deck.order.slice(start, start + perSlide);
+  return { ...deck, pos: start + slide.length, slide };
+}
+
+// New uploads go straight after the current slide
+export function addToDeck(deck: Deck, id: string): Deck {
+  if (deck.order.includes(id)) return deck;
+  const order = [...deck.order];
+  order.splice(deck.pos, 0, id);
+  return { ...deck, order };
+}
+
+export function removeFromDeck(deck: Deck, id: string): Deck {
+  const i = deck.order.indexOf(id);
+  if (i < 0) return deck;
+  return {
+    order: deck.order.filter((c) => c !== id),
+    pos: i < deck.pos ? deck.pos - 1 : deck.pos,
+    slide: deck.slide.filter((c) => c !== id),
+  };
+}
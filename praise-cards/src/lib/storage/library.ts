@@ -0,0 +1,74 @@
+import { dropUndefined } from "@/lib/storage/records";
+import type {
+  NewTestimonial,
+  Testimonial,
+  TestimonialStatus,
+} from "@/lib/storage/types";
+
+export const TESTIMONIALS_PATH = "testimonials";
+
+export const TESTIMONIAL_STATUSES: { id: TestimonialStatus; label: string }[] =
+  [
+    { id: "new", label: "New" },
+    { id: "shortlisted", label: "Shortlisted" },
+    { id: "archived", label: "Archived" },
+  ];
+
+export function isTestimonialStatus(
+  value: unknown,
+): value is TestimonialStatus {
+  return TESTIMONIAL_STATUSES.some((s) => s.id === value);
+}
+
+export function isValidTestimonial(entry: Partial<NewTestimonial>) {
+  return (
+    !!entry?.quote?.trim() &&
+    typeof entry.author === "string" &&
+    Array.isArray(entry.tags) &&
+    isTestimonialStatus(entry.status)
+  );
+}
+
+// "Onboarding, support ,onboarding" -> ["onboarding", "support"]
+export function parseTags(text: string) {
+  const tags = text
+    .split(",")
+    .map((t) => t.trim().toLowerCase())
+    .filter(Boolean);
+  return [...new Set(tags)];
+}
+
+// Newest first, with the fields Firebase drops filled back in
+export function toTestimonialList(
+  val: Record<string, Omit<Testimonial, "id">> | null | undefined,
+): Testimonial[] {
+  return Object.entries(val ?? {})
+    .map(([id, v]) => ({ ...v, id, tags: v.tags ?? [] }))
+    .sort(
+      (a, b) =>
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+    );
+}
+
+// Cards made from the entry, newest first
+export function testimonialUses(entry: Testimonial) {
+  return Object.entries(entry.uses ?? {})
+    .map(([cardId, use]) => ({ cardId, ...use }))
+    .sort(
+      (a, b) => new Date(b.usedAt).getTime() - new Date(a.usedAt).getTime(),
+    );
+}
+
+// The stored fields, for saving an edited copy back
+export function entryFields(entry: Testimonial): NewTestimonial {
+  const { quote, author, tags, status, createdAt, source, rating } = entry;
+  return dropUndefined<NewTestimonial>({
+    quote,
+    author,
+    tags,
+    status,
+    createdAt,
+    source,
+    rating,
+  });
+}
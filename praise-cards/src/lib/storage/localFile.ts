@@ -0,0 +1,29 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { SnapshotCardRepository } from "@/lib/storage/snapshot";
+import type { StoreSnapshot } from "@/lib/storage/types";
+
+// Server only: the whole store in one JSON file, same shape as a Firebase
+// export of the database (so a real export can be dropped in for offline work).
+export class LocalFileCardRepository extends SnapshotCardRepository {
+  constructor(private readonly file: string) {
+    super();
+  }
+
+  protected async load(): Promise<StoreSnapshot> {
+    try {
+      return JSON.parse(await readFile(this.file, "utf8"));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return {};
+      throw err;
+    }
+  }
+
+  protected async save(data: StoreSnapshot) {
+    await mkdir(path.dirname(this.file), { recursive: true });
+    // write-then-rename so a crash never leaves half a file behind
+    const tmp = `${this.file}.tmp`;
+    await writeFile(tmp, JSON.stringify(data, null, 2));
+    await rename(tmp, this.file);
+  }
+}
@@ -0,0 +1,121 @@
+import type { CardData, NewCardData } from "@/lib/cards/types";
+import { clampSide } from "@/lib/cards/presets";
+import type {
+  CardChange,
+  CardPage,
+  ModeratorEdits,
+  PageCursor,
+  PageRequest,
+} from "@/lib/storage/types";
+
+// How often the non-Firebase backends check for live updates
+export const POLL_INTERVAL_MS = 5000;
+
+export function isApproved(card: CardData) {
+  // missing status = uploaded before moderation existed, which were all live
+  return !card.status || card.status === "approved";
+}
+
+// Picks the moderator's edits out of a request body, dropping anything else
+// (or anything malformed) so the stored record can't be swapped out
+export function moderatorEdits(body: unknown): ModeratorEdits {
+  if (!body || typeof body !== "object") return {};
+  const { quote, author, width, height } = body as Record<string, unknown>;
+  const edits: ModeratorEdits = {};
+  if (typeof quote === "string" && quote.trim()) edits.quote = quote;
+  if (typeof author === "string") edits.author = author;
+  // NaN fallback: a missing or malformed size keeps the stored one
+  const w = clampSide(width, NaN);
+  const h = clampSide(height, NaN);
+  if (!Number.isNaN(w)) edits.width = w;
+  if (!Number.isNaN(h)) edits.height = h;
+  return edits;
+}
+
+// An upload from a request body, or null without a quote or a usable size.
+// The store picks the id, so a submitted one is dropped
+export function uploadedCard(body: unknown): NewCardData | null {
+  if (!body || typeof body !== "object") return null;
+  const card: Partial<CardData> = { ...body };
+  delete card.id;
+  if (typeof card.quote !== "string" || !card.quote.trim()) return null;
+  const width = clampSide(card.width, NaN);
+  const height = clampSide(card.height, NaN);
+  if (Number.isNaN(width) || Number.isNaN(height)) return null;
+  return { ...card, width, height } as NewCardData;
+}
+
+// createdAt desc, then id desc (matches Firebase ordering, reversed)
+export function compareNewestFirst(a: PageCursor, b: PageCursor) {
+  const dt = new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+  if (dt !== 0) return dt;
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+export function toCardList(
+  val: Record<string, Omit<CardData, "id">> | null | undefined,
+): CardData[] {
+  return Object.entries(val ?? {}).map(([id, v]) => ({ ...v, id }));
+}
+
+// One newest-first page of approved cards older than the cursor
+export function paginate(all: CardData[], req: PageRequest): CardPage {
+  const { before, limit } = req;
+  const sorted = all.filter(isApproved).sort(compareNewestFirst);
+  const older = before
+    ? sorted.filter((c) => compareNewestFirst(c, before) > 0)
+    : sorted;
+  return { cards: older.slice(0, limit), hasMore: older.length > limit };
+}
+
+// Newest-first approved cards at or newer than the cursor
+export function approvedSince(all: CardData[], since?: PageCursor) {
+  return all
+    .filter(isApproved)
+    .filter((c) => !since || compareNewestFirst(c, since) <= 0)
+    .sort(compareNewestFirst);
+}
+
+// Live updates for backends without listeners: re-reads on an interval and
+// reports what changed since the last read
+export function pollApproved(
+  read: () => Promise<CardData[]>,
+  onChange: (change: CardChange) => void,
+) {
+  let known = new Map<string, string>();
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  async function tick() {
+    try {
+      const cards = await read();
+      if (stopped) return;
+      const next = new Map(cards.map((c) => [c.id, JSON.stringify(c)]));
+      for (const card of cards) {
+        const before = known.get(card.id);
+        if (before === undefined) onChange({ type: "added", card });
+        else if (before !== next.get(card.id)) {
+          onChange({ type: "changed", card });
+        }
+      }
+      for (const id of known.keys()) {
+        if (!next.has(id)) onChange({ type: "removed", id });
+      }
+      known = next;
+    } catch (err) {
+      console.warn("Live update check failed:", err);
+    }
+    if (!stopped) timer = setTimeout(tick, POLL_INTERVAL_MS);
+  }
+
+  tick();
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
+
+// Time-ordered ids for the non-Firebase backends
+export function newCardId() {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { cardBrand } from "@/lib/storage/brand";
+import { dropUndefined } from "@/lib/storage/records";
+
+describe("dropUndefined", () => {
+  it("removes undefined fields and keeps other falsy values", () => {
+    const record = dropUndefined({ a: 1, b: undefined, c: "", d: 0, e: null });
+    expect(record).toEqual({ a: 1, c: "", d: 0, e: null });
+    expect("b" in record).toBe(false);
+  });
+
+  it("leaves no undefined in a card's brand", () => {
+    const brand = cardBrand({ enabled: true, colors: [], tagline: " Acme " });
+    expect(brand).toStrictEqual({ tagline: "Acme" });
+  });
+});
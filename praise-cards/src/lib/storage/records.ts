@@ -0,0 +1,8 @@
+// Firebase rejects undefined anywhere in a write, so records are built with
+// unset optional fields left undefined and passed through this before saving.
+// Shallow: nested objects need their own call.
+export function dropUndefined<T extends object>(record: T): T {
+  return Object.fromEntries(
+    Object.entries(record).filter(([, value]) => value !== undefined),
+  ) as T;
+}
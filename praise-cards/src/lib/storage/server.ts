@@ -0,0 +1,56 @@
+import path from "node:path";
+import { getCardRepository, storeMode } from "@/lib/storage";
+import { LocalFileCardRepository } from "@/lib/storage/localFile";
+import {
+  MemoryCardRepository,
+  type SnapshotCardRepository,
+} from "@/lib/storage/snapshot";
+import type { CardRepository } from "@/lib/storage/types";
+import { DEFAULT_WALL, isValidWallSlug } from "@/lib/storage/walls";
+
+// Kept on globalThis: pages and route handlers are bundled separately, and
+// memory mode needs them all to see one store
+const processStore = globalThis as typeof globalThis & {
+  localCardRepository?: SnapshotCardRepository;
+};
+
+// Local and memory modes keep the store in this server process (the JSON
+// file, or memory until restart) and the browser reaches it over /api/store,
+// so permalinks and card images see the same cards the UI wrote
+function isLocalMode() {
+  const mode = storeMode();
+  return mode === "local" || mode === "memory";
+}
+
+// The store behind NEXT_PUBLIC_CARD_STORE=local (JSON file) or =memory
+export function getLocalRepository() {
+  if (!processStore.localCardRepository) {
+    const file =
+      process.env.CARD_STORE_FILE ??
+      path.join(process.cwd(), ".data", "cards.json");
+    processStore.localCardRepository =
+      storeMode() === "memory"
+        ? new MemoryCardRepository()
+        : new LocalFileCardRepository(file);
+  }
+  return processStore.localCardRepository;
+}
+
+// Card store for route handlers and server components. Same backend as the
+// browser, except local and memory modes skip the HTTP hop.
+export function getServerCardRepository(): CardRepository {
+  return isLocalMode() ? getLocalRepository() : getCardRepository();
+}
+
+// The /api/store handlers only exist to serve the local and memory backends
+export function localStoreUnavailable() {
+  return isLocalMode()
+    ? null
+    : Response.json({ error: "Local store is disabled" }, { status: 404 });
+}
+
+// ?wall= on /api/store requests; the default wall when absent
+export function wallParam(request: Request) {
+  const wall = new URL(request.url).searchParams.get("wall") || DEFAULT_WALL;
+  return isValidWallSlug(wall) ? wall : null;
+}
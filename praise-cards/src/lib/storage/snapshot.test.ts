@@ -0,0 +1,182 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { generateDesign } from "@/lib/cards/design";
+import type { NewCardData } from "@/lib/cards/types";
+import {
+  moderatorEdits,
+  POLL_INTERVAL_MS,
+  uploadedCard,
+} from "@/lib/storage/paging";
+import { MemoryCardRepository } from "@/lib/storage/snapshot";
+import type { CardChange, StoreSnapshot } from "@/lib/storage/types";
+import { wallPaths } from "@/lib/storage/walls";
+
+const WALL = "praise";
+
+function upload(): NewCardData {
+  const { palette, gradient, font, bgType, layout, seed } = generateDesign(
+    7,
+    "balanced",
+  );
+  return {
+    quote: "Support answered in minutes.",
+    author: "Tom B.",
+    width: 1080,
+    height: 1080,
+    palette,
+    gradient,
+    font,
+    bgType,
+    layout,
+    seed,
+    preset: "square",
+    radius: "24",
+    quoteSizeMultiplier: 100,
+    authorSizeMultiplier: 100,
+    createdAt: "2026-01-05T00:00:00.000Z",
+  };
+}
+
+describe("moderation", () => {
+  it("approves the stored upload with only the moderator's edits", async () => {
+    const repo = new MemoryCardRepository();
+    const id = await repo.submit(WALL, upload());
+    const edits = moderatorEdits({
+      quote: "Support answered in minutes, on a Sunday.",
+      height: 1200,
+      bgType: "dark",
+      status: "approved",
+    });
+    await repo.approve(WALL, id, edits);
+
+    const card = await repo.getApproved(WALL, id);
+    expect(card).toMatchObject({
+      ...upload(),
+      quote: "Support answered in minutes, on a Sunday.",
+      height: 1200,
+      status: "approved",
+    });
+    expect(await repo.listPending(WALL)).toEqual([]);
+  });
+
+  it("refuses ids that aren't in the queue", async () => {
+    const repo = new MemoryCardRepository();
+    await expect(repo.approve(WALL, "forged")).rejects.toThrow(/not found/);
+    await expect(repo.reject(WALL, "forged")).rejects.toThrow(/not found/);
+    await expect(
+      repo.updatePending(WALL, "forged", { quote: "x" }),
+    ).rejects.toThrow(/not found/);
+    expect(await repo.getApproved(WALL, "forged")).toBeNull();
+  });
+
+  it("keeps malformed edits out", () => {
+    expect(
+      moderatorEdits({ quote: " ", author: 5, width: "wide", height: 1e9 }),
+    ).toEqual({ height: 6000 });
+    expect(moderatorEdits("nope")).toEqual({});
+  });
+
+  it("drops a submitted id and clamps the upload's size", async () => {
+    const repo = new MemoryCardRepository();
+    const card = uploadedCard({ ...upload(), id: "forged", width: 1e9 });
+    expect(card).not.toHaveProperty("id");
+    expect(card).toMatchObject({ width: 6000, height: 1080 });
+
+    // a forged id that reached the store still loses to the record's key
+    const forged = { ...card, id: "forged" } as NewCardData;
+    const id = await repo.submit(WALL, forged);
+    const [pending] = await repo.listPending(WALL);
+    expect(pending.id).toBe(id);
+  });
+
+  it("refuses uploads without a quote or a size", () => {
+    expect(uploadedCard({ ...upload(), quote: " " })).toBeNull();
+    expect(uploadedCard({ ...upload(), height: "tall" })).toBeNull();
+    expect(uploadedCard(null)).toBeNull();
+  });
+});
+
+// Edits and deletes of live cards happen in the database console, outside
+// the repository
+class ConsoleEditedRepository extends MemoryCardRepository {
+  async edit(fn: (cards: Record<string, NewCardData>) => void) {
+    const data: StoreSnapshot = await this.load();
+    fn(data[wallPaths(WALL).cards] as Record<string, NewCardData>);
+    await this.save(data);
+  }
+}
+
+async function approved(repo: MemoryCardRepository, createdAt: string) {
+  const id = await repo.submit(WALL, { ...upload(), createdAt });
+  await repo.approve(WALL, id);
+  return id;
+}
+
+describe("live updates", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function watch(repo: MemoryCardRepository, sinceId: string) {
+    const since = await repo.getApproved(WALL, sinceId);
+    const changes: CardChange[] = [];
+    const stop = repo.watchApproved(WALL, since!, (c) => changes.push(c));
+    // first read
+    await vi.advanceTimersByTimeAsync(0);
+    const poll = async () => {
+      changes.length = 0;
+      await vi.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+      return changes.map((c) =>
+        c.type === "removed" ? [c.type, c.id] : [c.type, c.card.quote],
+      );
+    };
+    return { changes, poll, stop };
+  }
+
+  it("reports added, edited and deleted cards once each", async () => {
+    vi.useFakeTimers();
+    const repo = new ConsoleEditedRepository();
+    const first = await approved(repo, "2026-01-05T00:00:00.000Z");
+    const second = await approved(repo, "2026-01-06T00:00:00.000Z");
+    const { changes, poll, stop } = await watch(repo, first);
+
+    // the first read reports what's there; the wall skips cards it shows
+    expect(changes.map((c) => c.type)).toEqual(["added", "added"]);
+    expect(await poll()).toEqual([]);
+
+    const third = await approved(repo, "2026-01-07T00:00:00.000Z");
+    expect(await poll()).toEqual([["added", "Support answered in minutes."]]);
+
+    await repo.edit((cards) => {
+      cards[second] = { ...cards[second], quote: "Edited" };
+    });
+    expect(await poll()).toEqual([["changed", "Edited"]]);
+
+    await repo.edit((cards) => {
+      delete cards[third];
+    });
+    expect(await poll()).toEqual([["removed", third]]);
+
+    stop();
+    await approved(repo, "2026-01-08T00:00:00.000Z");
+    expect(await poll()).toEqual([]);
+  });
+
+  it("covers the oldest loaded card and newer, not older pages", async () => {
+    vi.useFakeTimers();
+    const repo = new ConsoleEditedRepository();
+    const older = await approved(repo, "2026-01-04T00:00:00.000Z");
+    const oldest = await approved(repo, "2026-01-05T00:00:00.000Z");
+    const { changes, poll, stop } = await watch(repo, oldest);
+
+    expect(changes).toEqual([
+      { type: "added", card: expect.objectContaining({ id: oldest }) },
+    ]);
+
+    await repo.edit((cards) => {
+      cards[older] = { ...cards[older], quote: "Not loaded yet" };
+      cards[oldest] = { ...cards[oldest], quote: "Loaded" };
+    });
+    expect(await poll()).toEqual([["changed", "Loaded"]]);
+    stop();
+  });
+});
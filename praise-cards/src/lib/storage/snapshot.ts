@@ -0,0 +1,266 @@
+import type { CardData, NewCardData } from "@/lib/cards/types";
+import {
+  approvedSince,
+  isApproved,
+  newCardId,
+  paginate,
+  pollApproved,
+  toCardList,
+} from "@/lib/storage/paging";
+import { BRAND_KIT_PATH } from "@/lib/storage/brand";
+import { TESTIMONIALS_PATH, toTestimonialList } from "@/lib/storage/library";
+import type {
+  BrandKit,
+  CardRepository,
+  ModeratorEdits,
+  NewTestimonial,
+  CardChange,
+  PageCursor,
+  PageRequest,
+  StoreSnapshot,
+  Testimonial,
+  TestimonialUse,
+  WallSettings,
+} from "@/lib/storage/types";
+import {
+  DEFAULT_WALL,
+  defaultWallSettings,
+  sortWalls,
+  WALL_SETTINGS_PATH,
+  wallPaths,
+} from "@/lib/storage/walls";
+
+type Node = { [key: string]: unknown };
+
+function readPath<T>(data: StoreSnapshot, path: string): T | undefined {
+  let node: unknown = data;
+  for (const key of path.split("/")) {
+    if (!node || typeof node !== "object") return undefined;
+    node = (node as Node)[key];
+  }
+  return node as T | undefined;
+}
+
+// `undefined` deletes, like writing null in Firebase
+function writePath(data: StoreSnapshot, path: string, value: unknown) {
+  const keys = path.split("/");
+  const last = keys.pop()!;
+  let node: Node = data;
+  for (const key of keys) {
+    if (!node[key] || typeof node[key] !== "object") node[key] = {};
+    node = node[key] as Node;
+  }
+  if (value === undefined) delete node[last];
+  else node[last] = value;
+}
+
+type CardNode = Record<string, NewCardData>;
+type TestimonialNode = Record<string, Omit<Testimonial, "id">>;
+
+// Card store over a Firebase-shaped JSON tree. Subclasses decide where the
+// tree lives (RAM, a file on disk); every change is a read-modify-write.
+export abstract class SnapshotCardRepository implements CardRepository {
+  // serialises writes so concurrent requests don't clobber each other
+  private queue: Promise<unknown> = Promise.resolve();
+
+  protected abstract load(): Promise<StoreSnapshot>;
+  protected abstract save(data: StoreSnapshot): Promise<void>;
+
+  private mutate<T>(fn: (data: StoreSnapshot) => T): Promise<T> {
+    const run = this.queue.then(async () => {
+      const data = await this.load();
+      const result = fn(data);
+      await this.save(data);
+      return result;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  async listWalls() {
+    const data = await this.load();
+    const val = readPath<Record<string, WallSettings>>(
+      data,
+      WALL_SETTINGS_PATH,
+    );
+    return sortWalls(Object.values(val ?? {}));
+  }
+
+  async getWall(slug: string) {
+    const data = await this.load();
+    const wall = readPath<WallSettings>(data, `${WALL_SETTINGS_PATH}/${slug}`);
+    if (wall) return wall;
+    return slug === DEFAULT_WALL ? defaultWallSettings() : null;
+  }
+
+  async saveWall(settings: WallSettings) {
+    await this.mutate((data) =>
+      writePath(data, `${WALL_SETTINGS_PATH}/${settings.slug}`, settings),
+    );
+  }
+
+  async getBrandKit() {
+    const data = await this.load();
+    return readPath<BrandKit>(data, BRAND_KIT_PATH) ?? null;
+  }
+
+  async saveBrandKit(kit: BrandKit) {
+    await this.mutate((data) => writePath(data, BRAND_KIT_PATH, kit));
+  }
+
+  async listTestimonials() {
+    const data = await this.load();
+    return toTestimonialList(
+      readPath<TestimonialNode>(data, TESTIMONIALS_PATH),
+    );
+  }
+
+  async getTestimonial(id: string) {
+    const data = await this.load();
+    const v = readPath<Omit<Testimonial, "id">>(
+      data,
+      `${TESTIMONIALS_PATH}/${id}`,
+    );
+    return v ? toTestimonialList({ [id]: v })[0] : null;
+  }
+
+  addTestimonial(entry: NewTestimonial) {
+    return this.mutate((data) => {
+      const id = newCardId();
+      writePath(data, `${TESTIMONIALS_PATH}/${id}`, entry);
+      return id;
+    });
+  }
+
+  async saveTestimonial(id: string, entry: NewTestimonial) {
+    const path = `${TESTIMONIALS_PATH}/${id}`;
+    await this.mutate((data) => {
+      const current = readPath<Omit<Testimonial, "id">>(data, path);
+      if (!current) throw new Error(`Testimonial ${id} not found`);
+      writePath(
+        data,
+        path,
+        current.uses ? { ...entry, uses: current.uses } : entry,
+      );
+    });
+  }
+
+  async deleteTestimonial(id: string) {
+    await this.mutate((data) =>
+      writePath(data, `${TESTIMONIALS_PATH}/${id}`, undefined),
+    );
+  }
+
+  async recordTestimonialUse(id: string, cardId: string, use: TestimonialUse) {
+    const path = `${TESTIMONIALS_PATH}/${id}`;
+    await this.mutate((data) => {
+      if (!readPath(data, path)) throw new Error(`Testimonial ${id} not found`);
+      writePath(data, `${path}/uses/${cardId}`, use);
+    });
+  }
+
+  async listApproved(wall: string, req: PageRequest) {
+    const data = await this.load();
+    const cards = readPath<CardNode>(data, wallPaths(wall).cards);
+    return paginate(toCardList(cards), req);
+  }
+
+  async getApproved(wall: string, id: string) {
+    const data = await this.load();
+    const v = readPath<NewCardData>(data, `${wallPaths(wall).cards}/${id}`);
+    if (!v) return null;
+    const card: CardData = { ...v, id };
+    return isApproved(card) ? card : null;
+  }
+
+  async listApprovedSince(wall: string, since?: PageCursor) {
+    const data = await this.load();
+    const cards = readPath<CardNode>(data, wallPaths(wall).cards);
+    return approvedSince(toCardList(cards), since);
+  }
+
+  watchApproved(
+    wall: string,
+    since: PageCursor | undefined,
+    onChange: (change: CardChange) => void,
+  ) {
+    return pollApproved(() => this.listApprovedSince(wall, since), onChange);
+  }
+
+  submit(wall: string, card: NewCardData) {
+    return this.mutate((data) => {
+      const id = newCardId();
+      writePath(data, `${wallPaths(wall).pending}/${id}`, {
+        ...card,
+        status: "pending",
+      });
+      return id;
+    });
+  }
+
+  // Oldest first, so the queue is worked in upload order
+  async listPending(wall: string) {
+    const data = await this.load();
+    const cards = readPath<CardNode>(data, wallPaths(wall).pending);
+    return toCardList(cards).sort(
+      (a, b) =>
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+    );
+  }
+
+  async updatePending(wall: string, id: string, edits: ModeratorEdits) {
+    const path = `${wallPaths(wall).pending}/${id}`;
+    await this.mutate((data) => {
+      const current = readPath<NewCardData>(data, path);
+      if (!current) throw new Error(`Pending card ${id} not found`);
+      writePath(data, path, { ...current, ...edits });
+    });
+  }
+
+  async approve(wall: string, id: string, edits: ModeratorEdits = {}) {
+    await this.move(wall, id, "approved", edits);
+  }
+
+  async reject(wall: string, id: string) {
+    await this.move(wall, id, "rejected");
+  }
+
+  private async move(
+    wall: string,
+    id: string,
+    status: "approved" | "rejected",
+    edits: ModeratorEdits = {},
+  ) {
+    const paths = wallPaths(wall);
+    const to = status === "approved" ? paths.cards : paths.rejected;
+    await this.mutate((data) => {
+      const stored = readPath<NewCardData>(data, `${paths.pending}/${id}`);
+      if (!stored) throw new Error(`Pending card ${id} not found`);
+      writePath(data, `${to}/${id}`, {
+        ...stored,
+        ...edits,
+        status,
+        reviewedAt: new Date().toISOString(),
+      });
+      writePath(data, `${paths.pending}/${id}`, undefined);
+    });
+  }
+}
+
+// Lives for as long as the page (or server process) does
+export class MemoryCardRepository extends SnapshotCardRepository {
+  private data: StoreSnapshot;
+
+  constructor(seed: StoreSnapshot = {}) {
+    super();
+    this.data = structuredClone(seed);
+  }
+
+  protected async load() {
+    return structuredClone(this.data);
+  }
+
+  protected async save(data: StoreSnapshot) {
+    this.data = structuredClone(data);
+  }
+}
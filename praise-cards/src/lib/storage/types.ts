@@ -0,0 +1,116 @@
+import type { CardData, CardSource, NewCardData } from "@/lib/cards/types";
+
+export type StoreMode = "firebase" | "emulator" | "local" | "memory";
+
+// Per-wall branding, stored next to the wall's cards
+export type WallSettings = {
+  slug: string;
+  title: string;
+  // header logo
+  logoUrl?: string;
+  // CSS background for the wall page
+  background?: string;
+  // style pack the generator starts with when uploading here
+  stylePack?: string;
+};
+
+// Company-wide branding the generator can apply to every card
+export type BrandKit = {
+  enabled: boolean;
+  // downscaled data URL
+  logoUrl?: string;
+  // hex colours; designs only use these while the kit is on
+  colors: string[];
+  tagline?: string;
+  url?: string;
+};
+
+export type TestimonialStatus = "new" | "shortlisted" | "archived";
+
+// A card submitted from a library entry (the card id is the key)
+export type TestimonialUse = { wall: string; usedAt: string };
+
+// Raw praise, kept apart from the rendered cards made from it
+export type Testimonial = {
+  id: string;
+  quote: string;
+  author: string;
+  source?: CardSource;
+  rating?: number;
+  // lowercase; Firebase drops empty arrays, so read through toTestimonialList
+  tags: string[];
+  status: TestimonialStatus;
+  createdAt: string;
+  uses?: Record<string, TestimonialUse>;
+};
+
+export type NewTestimonial = Omit<Testimonial, "id" | "uses">;
+
+// Position in the newest-first wall: the last card already shown
+export type PageCursor = Pick<CardData, "createdAt" | "id">;
+export type PageRequest = { before?: PageCursor; limit: number };
+export type CardPage = { cards: CardData[]; hasMore: boolean };
+
+// What a moderator may change on a pending card; the rest of the record
+// always comes from the stored upload
+export type ModeratorEdits = Partial<
+  Pick<NewCardData, "quote" | "author" | "width" | "height">
+>;
+
+// A live update to a wall's approved cards
+export type CardChange =
+  | { type: "added" | "changed"; card: CardData }
+  | { type: "removed"; id: string };
+
+// Everything the UI needs from a card store. Components only talk to this,
+// so backends can be swapped without touching them.
+export interface CardRepository {
+  // Walls
+  listWalls(): Promise<WallSettings[]>;
+  // null when the wall doesn't exist (the default wall always does)
+  getWall(slug: string): Promise<WallSettings | null>;
+  saveWall(settings: WallSettings): Promise<void>;
+
+  // Brand kit; null until one is saved
+  getBrandKit(): Promise<BrandKit | null>;
+  saveBrandKit(kit: BrandKit): Promise<void>;
+
+  // Testimonial library, newest first
+  listTestimonials(): Promise<Testimonial[]>;
+  getTestimonial(id: string): Promise<Testimonial | null>;
+  addTestimonial(entry: NewTestimonial): Promise<string>;
+  // Replaces the entry's fields; its uses are kept
+  saveTestimonial(id: string, entry: NewTestimonial): Promise<void>;
+  deleteTestimonial(id: string): Promise<void>;
+  // Links a card made from the entry
+  recordTestimonialUse(
+    id: string,
+    cardId: string,
+    use: TestimonialUse,
+  ): Promise<void>;
+
+  // Approved cards, newest first
+  listApproved(wall: string, req: PageRequest): Promise<CardPage>;
+  getApproved(wall: string, id: string): Promise<CardData | null>;
+  // Approved cards at or newer than the cursor (the whole wall when unset)
+  listApprovedSince(wall: string, since?: PageCursor): Promise<CardData[]>;
+  // Live updates for the same range. Cards already there are reported as
+  // "added" first. Returns a function that stops the updates.
+  watchApproved(
+    wall: string,
+    since: PageCursor | undefined,
+    onChange: (change: CardChange) => void,
+  ): () => void;
+
+  // Moderation queue
+  submit(wall: string, card: NewCardData): Promise<string>;
+  listPending(wall: string): Promise<CardData[]>;
+  // These throw when there is no pending card with that id
+  updatePending(wall: string, id: string, edits: ModeratorEdits): Promise<void>;
+  // Moves the stored pending card onto the wall, with the edits applied
+  approve(wall: string, id: string, edits?: ModeratorEdits): Promise<void>;
+  reject(wall: string, id: string): Promise<void>;
+}
+
+// Firebase-shaped JSON tree, shared by the JSON backends
+export type StoreSnapshot = { [key: string]: unknown };
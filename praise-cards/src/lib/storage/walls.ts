@@ -0,0 +1,73 @@
+import type { WallSettings } from "@/lib/storage/types";
+
+// The original wall; its cards keep living at the legacy top-level paths
+export const DEFAULT_WALL = "praise";
+
+export const WALL_SETTINGS_PATH = "wallSettings";
+
+export function isValidWallSlug(slug: string) {
+  return /^[a-z0-9](?:[a-z0-9-]{0,38}[a-z0-9])?$/.test(slug);
+}
+
+// Where a wall's cards live in the database
+export function wallPaths(slug: string) {
+  if (slug === DEFAULT_WALL) {
+    return {
+      // Live cards. Only approved cards ever land here.
+      cards: "praiseWall",
+      // Uploads waiting for an admin
+      pending: "praiseWallPending",
+      // Rejected uploads, kept for reference
+      rejected: "praiseWallRejected",
+    };
+  }
+  return {
+    cards: `walls/${slug}/cards`,
+    pending: `walls/${slug}/pending`,
+    rejected: `walls/${slug}/rejected`,
+  };
+}
+
+export function defaultWallSettings(slug = DEFAULT_WALL): WallSettings {
+  return {
+    slug,
+    title: slug === DEFAULT_WALL ? "❤️ Praise Wall" : slug,
+    stylePack: "balanced",
+  };
+}
+
+// Default wall first, then alphabetical
+export function sortWalls(walls: WallSettings[]) {
+  const list = walls.some((w) => w.slug === DEFAULT_WALL)
+    ? walls
+    : [defaultWallSettings(), ...walls];
+  return [...list].sort((a, b) =>
+    a.slug === DEFAULT_WALL
+      ? -1
+      : b.slug === DEFAULT_WALL
+        ? 1
+        : a.title.localeCompare(b.title),
+  );
+}
+
+// Public URLs. The default wall keeps its original short forms.
+export function wallHref(slug: string) {
+  return slug === DEFAULT_WALL ? "/" : `/wall/${slug}`;
+}
+
+// Fullscreen slideshow for a TV, optionally with wall filters or kiosk options
+export function kioskPath(slug: string, params = new URLSearchParams()) {
+  const query = new URLSearchParams(params);
+  if (slug !== DEFAULT_WALL) query.set("wall", slug);
+  return query.size ? `/kiosk?${query}` : "/kiosk";
+}
+
+export function cardPath(id: string, wall: string) {
+  return wall === DEFAULT_WALL ? `/cards/${id}` : `/cards/${id}?wall=${wall}`;
+}
+
+export function cardImagePath(id: string, wall: string, width: number) {
+  const params = new URLSearchParams({ w: String(width) });
+  if (wall !== DEFAULT_WALL) params.set("wall", wall);
+  return `/api/cards/${id}/image?${params}`;
+}